@@ -1,46 +1,159 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import LiveAssistant from './components/LiveAssistant';
 import ControlPanel from './components/ControlPanel';
 import StatusOverlay from './components/StatusOverlay';
-import { AppMode, AppState, ConnectionStatus, AppSettings } from './types';
-import { AVAILABLE_VOICES } from './constants';
-import { playBeep, playClick, announce, vibrate } from './utils/audioUtils';
+import TranscriptPanel from './components/TranscriptPanel';
+import ModeEditor from './components/ModeEditor';
+import StatsOverlay from './components/StatsOverlay';
+import PlacesPanel from './components/PlacesPanel';
+import MemoryPanel from './components/MemoryPanel';
+import EmergencyOverlay, { EmergencyPhase } from './components/EmergencyOverlay';
+import EmergencySettings from './components/EmergencySettings';
+import GestureSettings from './components/GestureSettings';
+import DocumentPanel from './components/DocumentPanel';
+import FinderPanel from './components/FinderPanel';
+import QrResultPanel from './components/QrResultPanel';
+import UsagePanel from './components/UsagePanel';
+import { AppMode, AppState, AudioStats, ConnectionStatus, AppSettings, Currency, FrameStats, GeoPosition, GestureAction, GestureName, LabeledMemory, Language, MemoryCaptureRequest, MemoryKind, MicMode, SpatialAudioMode, Verbosity, ModeDefinition, ModeId, NavigationDestination, QrContent, ReadDocument, SavedPlace, ScanResult, SavedRoute, TranscriptEvent, TranscriptSession } from './types';
+import { AVAILABLE_VOICES, CURRENCIES, LANGUAGES, SCAN_EARCONS, SPATIAL_AUDIO_MODES, MIC_MODE_LABELS, PUSH_TO_TALK_MAX_MS, VERBOSITY_LEVELS, SPEECH_RATE_RANGE, ANNOUNCE_RATE_RANGE, EMERGENCY_COUNTDOWN_SECONDS, GESTURE_LABELS, SWITCH_SCAN_ACTIONS, SWITCH_SCAN_INTERVAL_RANGE } from './constants';
+import { playBeep, playClick, playEarcons, announce, setAnnounceRate, vibrate } from './utils/audioUtils';
+import { getAllModes, findMode, cycleMode, createModeId } from './utils/modeRegistry';
+import { MessageKey, modeLabel, setLanguage, t } from './utils/i18n';
+import { loadSettings, saveSettings, exportSettingsProfile, importSettingsProfile } from './utils/settingsStore';
+import { loadTranscriptHistory, saveTranscriptHistory, createTranscriptSession, applyTranscriptEvent } from './utils/transcript';
+import { loadDocuments, saveDocuments, getDocumentItems, describeDocumentItem, spellDocumentItem } from './utils/documents';
+import { SessionRecording, SessionRecordingMeta, listRecordings, loadRecording, deleteRecording, exportRecordingZip } from './utils/sessionRecorder';
+import { createDefaultGeolocationProvider, getCurrentPosition } from './utils/geolocation';
+import { RouteRecorder, createRouteRecorder, deletePlace, deleteRoute, listPlaces, listRoutes, savePlace } from './utils/places';
+import { deleteMemory, listMemories, renameMemory } from './utils/memories';
+import { describeScanResult, linkHost } from './utils/scanner';
+import { BudgetLevel, checkBudget, createUsageMeter } from './utils/usageMeter';
+import { bindingFor, createGestureRecognizer } from './utils/gestureRecognizer';
+import { playCalibrationTones } from './utils/spatialAudio';
+import { attachKeyboardInput, attachMediaSessionInput, createSwitchScanner } from './utils/externalInput';
+import { EmergencyNotifier, assembleEmergencyPacket, createAutomaticNotifier, createFrameSnapshotBuffer, createNotifier, startEmergencyCountdown } from './utils/emergency';
+
+// How long an emergency alert waits for a location fix before going out without one
+const EMERGENCY_LOCATION_TIMEOUT = 8000;
+// How often an alert waiting for a tap asks again
+const EMERGENCY_CONFIRM_REPEAT_MS = 8000;
+
+// Connected time is counted, and budgets checked, this often
+const USAGE_TICK_MS = 1000;
+const BUDGET_LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+// On/off settings that confirm themselves aloud with a setting.<key>.on / .off message
+const TOGGLE_ANNOUNCEMENTS: (keyof AppSettings)[] = [
+  'highContrast', 'largeText', 'safeMode', 'dataSaver', 'framingCues', 'switchScanning', 'recordSessions', 'duckOnSpeech', 'translateReading', 'shareMemories',
+];
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
 
 const App: React.FC = () => {
   // Global App State Machine
   const [appState, setAppState] = useState<AppState>('idle');
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
-  const [mode, setMode] = useState<AppMode>(AppMode.NAVIGATION);
+  const [mode, setMode] = useState<ModeId>(AppMode.NAVIGATION);
   const [error, setError] = useState<string>('');
   const [retryMessage, setRetryMessage] = useState<string>('');
   const [showSettings, setShowSettings] = useState(false);
   const [actionTrigger, setActionTrigger] = useState<number>(0);
+  const [pageCaptureTrigger, setPageCaptureTrigger] = useState<number>(0);
+  // Push-to-talk: mic held open by the Talk action, closed again by it or after a timeout
+  const [talkOpen, setTalkOpen] = useState(false);
+  const talkOpenRef = useRef(false);
+  const talkTimerRef = useRef<number | null>(null);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // null: editor closed, 'new': creating, otherwise the id being edited
+  const [editingModeId, setEditingModeId] = useState<ModeId | 'new' | null>(null);
+
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [audioStats, setAudioStats] = useState<AudioStats | null>(null);
+
+  const modes = useMemo(() => getAllModes(settings.customModes), [settings.customModes]);
+
+  const [recordings, setRecordings] = useState<SessionRecordingMeta[]>([]);
+  const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
+
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [transcripts, setTranscripts] = useState<TranscriptSession[]>(() => loadTranscriptHistory());
+  const currentTranscriptIdRef = useRef<string | null>(null);
+
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [documents, setDocuments] = useState<ReadDocument[]>(() => loadDocuments());
+  // The document the document actions step through, and the item last read (-1: none yet)
+  const [documentCursor, setDocumentCursor] = useState<{ id: string | null; index: number }>(() => ({ id: documents[0]?.id ?? null, index: -1 }));
+  const documentCursorRef = useRef(documentCursor);
+  const documentsRef = useRef(documents);
+
+  // The item being searched for in Object mode; cleared when it is reached or the search ends
+  const [findTarget, setFindTarget] = useState<string | null>(null);
+  const [showFinder, setShowFinder] = useState(false);
+  const findTargetRef = useRef(findTarget);
 
-  const [settings, setSettings] = useState<AppSettings>({
-    highContrast: true, 
-    largeText: true,
-    safeMode: false,
-    voiceName: 'Kore',
-  });
+  // Scanning sub-mode, and the last QR code while its actions are on screen
+  const [scanning, setScanning] = useState(false);
+  const [qrContent, setQrContent] = useState<QrContent | null>(null);
+  const scanningRef = useRef(scanning);
+
+  const [geolocation] = useState(createDefaultGeolocationProvider);
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [routes, setRoutes] = useState<SavedRoute[]>([]);
+  const [destination, setDestination] = useState<NavigationDestination | null>(null);
+  const [recordingRoute, setRecordingRoute] = useState<string | null>(null);
+  const routeRecorderRef = useRef<{ recorder: RouteRecorder; stopWatch: () => void } | null>(null);
+
+  const [memories, setMemories] = useState<LabeledMemory[]>([]);
+  const [memoryCapture, setMemoryCapture] = useState<MemoryCaptureRequest | null>(null);
+
+  // Daily usage, and whether a used-up budget has dropped sessions to low bandwidth
+  const [usageMeter] = useState(() => createUsageMeter());
+  const [lowBandwidth, setLowBandwidth] = useState(false);
+  // The highest budget level already announced, per day
+  const budgetAlertRef = useRef<{ date: string; level: BudgetLevel }>({ date: '', level: 'ok' });
+
+  const [emergency, setEmergency] = useState<{ phase: EmergencyPhase; secondsLeft: number } | null>(null);
+  const [frameSnapshots] = useState(() => createFrameSnapshotBuffer());
+  const cancelCountdownRef = useRef<(() => void) | null>(null);
+  const emergencyLocationRef = useRef<Promise<GeoPosition | null> | null>(null);
 
   // Refs for Stale Closure Prevention
   const appStateRef = useRef(appState);
   const modeRef = useRef(mode);
+  const modesRef = useRef(modes);
+  const settingsRef = useRef(settings);
+  const transcriptsRef = useRef(transcripts);
+  const emergencyRef = useRef(emergency);
   
   useEffect(() => { appStateRef.current = appState; }, [appState]);
   useEffect(() => { modeRef.current = mode; }, [mode]);
+  useEffect(() => { modesRef.current = modes; }, [modes]);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  useEffect(() => { documentsRef.current = documents; }, [documents]);
+  useEffect(() => { transcriptsRef.current = transcripts; }, [transcripts]);
+  useEffect(() => { findTargetRef.current = findTarget; }, [findTarget]);
+  useEffect(() => { scanningRef.current = scanning; }, [scanning]);
+  useEffect(() => { emergencyRef.current = emergency; }, [emergency]);
 
-  // --- GESTURE STATE ---
-  const touchStartRef = useRef<{x: number, y: number, time: number} | null>(null);
-  const tapCountRef = useRef(0);
-  const singleTapTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const doubleTapTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const longPressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Fall back to Navigation if the active custom mode was deleted
+  useEffect(() => {
+      if (!modes.some(m => m.id === mode)) setMode(AppMode.NAVIGATION);
+  }, [modes, mode]);
 
   // Initial Voice Guidance
   useEffect(() => {
     const timer = setTimeout(() => {
-        announce("SightGuide is ready. Double tap to start. Swipe to change mode. Long press for settings.");
+        announce(t('app.ready'));
     }, 2500);
     return () => clearTimeout(timer);
   }, []);
@@ -53,9 +166,12 @@ const App: React.FC = () => {
       
       vibrate([50, 50]);
       playBeep(440, 'sine', 0.1);
-      announce("Opening camera. Tap once anytime to ask what I see.");
+      announce(t('session.opening'));
       setError('');
       setRetryMessage('');
+      const transcript = createTranscriptSession();
+      currentTranscriptIdRef.current = transcript.id;
+      setTranscripts(prev => [transcript, ...prev]);
       setAppState('starting');
       setTimeout(() => setAppState('running'), 100);
   }, []);
@@ -66,11 +182,15 @@ const App: React.FC = () => {
       
       vibrate([50, 100, 50]);
       playBeep(200, 'sawtooth', 0.2);
-      announce("Stopped.");
+      announce(t('session.stopped'));
       setAppState('stopping');
+      setFindTarget(null);
+      setShowFinder(false);
+      setScanning(false);
       setTimeout(() => {
           setAppState('idle');
           setConnectionStatus('disconnected');
+          setReplayRecording(null);
       }, 500);
   }, []);
 
@@ -78,155 +198,786 @@ const App: React.FC = () => {
       const current = appStateRef.current;
       if (current === 'running') {
           vibrate([30]);
-          announce("Paused. Double tap to resume.");
+          announce(t('session.paused'));
           setAppState('paused');
       } else if (current === 'paused') {
           vibrate([30]);
-          announce("Resuming.");
+          announce(t('session.resuming'));
           setAppState('running');
       }
   }, []);
 
-  const handleModeChange = useCallback((newMode: AppMode) => {
+  const handleModeChange = useCallback((newMode: ModeId) => {
       if (modeRef.current !== newMode) {
           setMode(newMode);
-          let text = "";
-          switch(newMode) {
-              case AppMode.NAVIGATION: text = "Navigation Mode."; break;
-              case AppMode.READING: text = "Reading Mode."; break;
-              case AppMode.OBJECT: text = "Object Mode."; break;
-              default: text = `${newMode}`;
-          }
-          announce(text);
+          announce(t('mode.selected', { mode: modeLabel(findMode(modesRef.current, newMode)) }));
           vibrate([20]);
       } else {
          vibrate([10]);
       }
   }, []);
 
-  const handleSingleTapAction = useCallback(() => {
+  // Adds to the current session's transcript; declared here because the handlers below log to it
+  const handleTranscriptEvent = useCallback((event: TranscriptEvent) => {
+      setTranscripts(prev => {
+          const index = prev.findIndex(t => t.id === currentTranscriptIdRef.current);
+          if (index === -1) return prev;
+          const next = [...prev];
+          next[index] = applyTranscriptEvent(prev[index], event, modeRef.current);
+          return next;
+      });
+  }, []);
+
+  // --- EMERGENCY ---
+
+  const deliverEmergencyAlert = useCallback(async (notifier: EmergencyNotifier) => {
+      cancelCountdownRef.current?.();
+      cancelCountdownRef.current = null;
+      setEmergency({ phase: 'sending', secondsLeft: 0 });
+      announce(t('emergency.sending'));
+
+      const current = settingsRef.current;
+      const location = await (emergencyLocationRef.current ?? Promise.resolve(null));
+      const transcript = transcriptsRef.current.find(t => t.id === currentTranscriptIdRef.current)?.entries ?? [];
+      const packet = assembleEmergencyPacket(current.emergencyContacts, location, frameSnapshots.snapshot(), transcript);
+      try {
+          await notifier.send(packet);
+          emergencyLocationRef.current = null;
+          setEmergency(null);
+          vibrate([400]);
+          announce(location ? t('emergency.sentWithLocation') : t('emergency.sentNoLocation'));
+          handleTranscriptEvent({ type: 'tool', text: 'Emergency alert sent.' });
+      } catch (err) {
+          console.warn("Emergency alert failed", err);
+          setEmergency({ phase: 'failed', secondsLeft: 0 });
+          announce(t('emergency.failed'));
+      }
+  }, [frameSnapshots, handleTranscriptEvent]);
+
+  // Sent by the user's own tap or key press, so the share sheet is allowed to open
+  const sendEmergencyAlert = useCallback(() => {
+      deliverEmergencyAlert(createNotifier(settingsRef.current));
+  }, [deliverEmergencyAlert]);
+
+  // The countdown ran out without a tap: send on a channel that needs none, or ask for the tap
+  const expireEmergencyCountdown = useCallback(() => {
+      const notifier = createAutomaticNotifier(settingsRef.current);
+      if (notifier) {
+          deliverEmergencyAlert(notifier);
+          return;
+      }
+      setEmergency({ phase: 'confirm', secondsLeft: 0 });
+      vibrate([400, 100, 400]);
+      announce(t('emergency.confirm'));
+  }, [deliverEmergencyAlert]);
+
+  // Keep asking until the user taps or cancels
+  useEffect(() => {
+      if (emergency?.phase !== 'confirm') return;
+      const timer = window.setInterval(() => {
+          vibrate([400]);
+          announce(t('emergency.confirm'));
+      }, EMERGENCY_CONFIRM_REPEAT_MS);
+      return () => window.clearInterval(timer);
+  }, [emergency?.phase]);
+
+  // Location lookup starts with the countdown so the fix is usually ready when it ends
+  const startEmergency = useCallback(() => {
+      if (cancelCountdownRef.current || emergencyRef.current) return;
+      emergencyLocationRef.current = getCurrentPosition(geolocation, EMERGENCY_LOCATION_TIMEOUT).catch(() => null);
+      announce(t('emergency.countdown', { seconds: EMERGENCY_COUNTDOWN_SECONDS }));
+      cancelCountdownRef.current = startEmergencyCountdown(
+          EMERGENCY_COUNTDOWN_SECONDS,
+          secondsLeft => setEmergency({ phase: 'countdown', secondsLeft }),
+          () => {
+              cancelCountdownRef.current = null;
+              expireEmergencyCountdown();
+          },
+      );
+  }, [geolocation, expireEmergencyCountdown]);
+
+  const cancelEmergency = useCallback(() => {
+      if (emergencyRef.current?.phase === 'sending') return;
+      cancelCountdownRef.current?.();
+      cancelCountdownRef.current = null;
+      emergencyLocationRef.current = null;
+      setEmergency(null);
+      vibrate([50]);
+      announce(t('emergency.cancelled'));
+  }, []);
+
+  useEffect(() => () => cancelCountdownRef.current?.(), []);
+
+  // --- GESTURE ACTIONS ---
+
+  const handleAsk = useCallback(() => {
     const current = appStateRef.current;
     playClick();
     if (current === 'idle') {
-        announce("Double tap to start.");
+        announce(t('session.doubleTapToStart'));
     } else if (current === 'running') {
         vibrate([15]);
         setActionTrigger(Date.now()); // Trigger AI context update
     } else if (current === 'paused') {
-        announce("Paused. Double tap to resume.");
+        announce(t('session.paused'));
     }
   }, []);
 
-  const handleDoubleTapAction = useCallback(() => {
+  const setTalk = useCallback((open: boolean, cue = true) => {
+      if (talkOpenRef.current === open) return;
+      talkOpenRef.current = open;
+      setTalkOpen(open);
+      if (talkTimerRef.current) window.clearTimeout(talkTimerRef.current);
+      talkTimerRef.current = open ? window.setTimeout(() => setTalk(false), PUSH_TO_TALK_MAX_MS) : null;
+      if (cue) {
+          vibrate([20]);
+          playBeep(open ? 880 : 520, 'sine', 0.08);
+      }
+  }, []);
+
+  const handleTalk = useCallback(() => {
     const current = appStateRef.current;
-    if (current === 'idle') {
+    if (current === 'running') {
+        setTalk(!talkOpenRef.current);
+    } else if (current === 'paused') {
+        announce(t('session.paused'));
+    } else {
+        announce(t('session.doubleTapToStart'));
+    }
+  }, [setTalk]);
+
+  // The mic never stays open across a pause or stop
+  useEffect(() => {
+      if (appState !== 'running') setTalk(false, false);
+  }, [appState, setTalk]);
+
+  const handleStartPause = useCallback(() => {
+    const current = appStateRef.current;
+    if (current === 'idle' || current === 'error') {
         handleStart();
     } else if (current === 'running' || current === 'paused') {
         handleTogglePause();
     }
   }, [handleStart, handleTogglePause]);
 
-  const handleTripleTapAction = useCallback(() => {
-      announce("Emergency Stop.");
-      handleStop();
-  }, [handleStop]);
+  const handleRepeatLast = useCallback(() => {
+      const entries = transcriptsRef.current.find(t => t.id === currentTranscriptIdRef.current)?.entries ?? [];
+      const last = [...entries].reverse().find(e => e.role === 'guide');
+      announce(last ? last.text : t('repeat.nothing'));
+  }, []);
+
+  const handleOpenSettings = useCallback(() => {
+      vibrate([50]);
+      setShowSettings(true);
+      announce(t('panel.settingsOpened'));
+  }, []);
 
-  const handleSwipe = useCallback((direction: 'left' | 'right') => {
-      const modes = Object.values(AppMode);
-      const currentIndex = modes.indexOf(modeRef.current);
-      let nextIndex = 0;
-      
-      if (direction === 'left') { // Next
-          nextIndex = (currentIndex + 1) % modes.length;
-      } else { // Prev
-          nextIndex = (currentIndex - 1 + modes.length) % modes.length;
+  // --- DOCUMENTS ---
+
+  const moveDocumentCursor = useCallback((id: string | null, index: number) => {
+      const next = { id, index };
+      documentCursorRef.current = next;
+      setDocumentCursor(next);
+  }, []);
+
+  // Reads from the stored copy, so stepping through a document sends nothing to the guide
+  const handleDocumentAction = useCallback((action: 'docNext' | 'docPrev' | 'docRepeat' | 'docSpell') => {
+      const cursor = documentCursorRef.current;
+      const document = documentsRef.current.find(d => d.id === cursor.id);
+      if (!document) {
+          announce(t('document.none'));
+          return;
+      }
+      if (action === 'docSpell') {
+          announce(spellDocumentItem(document, cursor.index));
+          return;
+      }
+      const count = getDocumentItems(document).length;
+      let index = cursor.index;
+      if (action === 'docNext' || action === 'docPrev') {
+          index += action === 'docNext' ? 1 : -1;
+          if (index < 0 || index >= count) {
+              playBeep(200, 'sine', 0.1);
+              announce(t(index < 0 ? 'document.start' : 'document.end'));
+              return;
+          }
+          vibrate([15]);
       }
-      handleModeChange(modes[nextIndex]);
-  }, [handleModeChange]);
+      moveDocumentCursor(document.id, index);
+      announce(describeDocumentItem(document, index));
+  }, [moveDocumentCursor]);
 
-  // --- GESTURE RECOGNITION ---
+  const handleDocument = useCallback((document: ReadDocument) => {
+      setDocuments(prev => [document, ...prev]);
+      moveDocumentCursor(document.id, -1);
+      playBeep(660, 'sine', 0.08);
+  }, [moveDocumentCursor]);
 
-  const handleInputStart = (clientX: number, clientY: number) => {
-      if (showSettings) return;
+  // --- OBJECT FINDER ---
+
+  // Toggles: stops a running search, otherwise asks what to look for
+  const handleFind = useCallback(() => {
+      const target = findTargetRef.current;
+      if (target) {
+          vibrate([30]);
+          setFindTarget(null);
+          announce(t('finder.stopped', { target }));
+          return;
+      }
+      const current = appStateRef.current;
+      if (current !== 'running' && current !== 'paused') {
+          announce(t('session.doubleTapToStart'));
+          return;
+      }
+      vibrate([50]);
+      setShowFinder(true);
+      announce(t('finder.pick'));
+  }, []);
+
+  const handlePickFindTarget = useCallback((target: string) => {
+      setShowFinder(false);
+      // Object mode's guide knows how to steer a hand onto an item
+      if (modeRef.current !== AppMode.OBJECT) setMode(AppMode.OBJECT);
+      setFindTarget(target);
+      vibrate([20]);
+      announce(t('finder.looking', { target }));
+  }, []);
+
+  // --- SCANNING ---
+
+  const handleScan = useCallback(() => {
+      if (scanningRef.current) {
+          vibrate([30]);
+          setScanning(false);
+          announce(t('scan.off'));
+          return;
+      }
+      const current = appStateRef.current;
+      if (current !== 'running' && current !== 'paused') {
+          announce(t('session.doubleTapToStart'));
+          return;
+      }
+      vibrate([50]);
+      setScanning(true);
+      announce(t('scan.on'));
+  }, []);
 
-      touchStartRef.current = { x: clientX, y: clientY, time: Date.now() };
+  // Results are spoken on the phone straight away; QR codes also open their actions
+  const handleScanResult = useCallback((result: ScanResult) => {
+      playEarcons(SCAN_EARCONS[result.kind]);
+      vibrate(result.kind === 'banknote' ? [40, 40, 40] : [40]);
+      if (result.kind === 'qr') {
+          setQrContent(result.content);
+          announce(`${describeScanResult(result)} ${t('scan.qrOptions')}`);
+      } else {
+          announce(describeScanResult(result));
+      }
+  }, []);
 
-      // Long Press Timer
-      longPressTimeoutRef.current = setTimeout(() => {
-          vibrate([50]);
-          setShowSettings(true);
-          announce("Settings opened.");
-          touchStartRef.current = null; // Invalidate tap
-          tapCountRef.current = 0; // Reset taps
-      }, 800);
+  const handleOpenLink = (url: string) => {
+      announce(t('scan.opening', { host: linkHost(url) }));
+      window.open(url, '_blank', 'noopener');
   };
 
-  const handleInputEnd = (clientX: number, clientY: number) => {
-      if (showSettings) return;
-      if (longPressTimeoutRef.current) clearTimeout(longPressTimeoutRef.current);
-      if (!touchStartRef.current) return;
+  const handleSaveContact = () => {
+      if (qrContent?.type !== 'contact') return;
+      downloadBlob(new Blob([qrContent.vcard], { type: 'text/vcard' }), `${qrContent.name.replace(/[^\w\- ]+/g, '') || 'contact'}.vcf`);
+      announce(t('scan.contactReady', { name: qrContent.name }));
+  };
 
-      const deltaX = clientX - touchStartRef.current.x;
-      const deltaY = clientY - touchStartRef.current.y;
-      const duration = Date.now() - touchStartRef.current.time;
-      
-      touchStartRef.current = null; // Clear start point
+  const handleReadQr = () => {
+      if (!qrContent) return;
+      announce(qrContent.type === 'url' ? qrContent.url : qrContent.type === 'contact'
+          ? [qrContent.name, qrContent.phone, qrContent.email].filter(Boolean).join('. ')
+          : qrContent.text);
+  };
+
+  const runGestureAction = useCallback((action: GestureAction) => {
+      const current = appStateRef.current;
+      switch (action) {
+          case 'startPause': handleStartPause(); break;
+          case 'start':
+              if (current === 'idle' || current === 'error') handleStart();
+              else if (current === 'paused') handleTogglePause();
+              break;
+          case 'pause':
+              if (current === 'running' || current === 'paused') handleTogglePause();
+              break;
+          case 'stop': handleStop(); break;
+          case 'ask': handleAsk(); break;
+          // Swiping left moves to the next mode by default, as before
+          case 'modeNext': handleModeChange(cycleMode(modesRef.current, modeRef.current, 'next').id); break;
+          case 'modePrev': handleModeChange(cycleMode(modesRef.current, modeRef.current, 'prev').id); break;
+          case 'repeatLast': handleRepeatLast(); break;
+          case 'sos': startEmergency(); break;
+          case 'settings': handleOpenSettings(); break;
+          case 'talk': handleTalk(); break;
+          case 'docNext':
+          case 'docPrev':
+          case 'docRepeat':
+          case 'docSpell':
+              handleDocumentAction(action); break;
+          case 'find': handleFind(); break;
+          case 'scan': handleScan(); break;
+          case 'none': break;
+      }
+  }, [handleStartPause, handleStart, handleTogglePause, handleStop, handleAsk, handleModeChange, handleRepeatLast, startEmergency, handleOpenSettings, handleTalk, handleDocumentAction, handleFind, handleScan]);
 
-      // Swipe Detection
-      if (duration < 500 && Math.abs(deltaX) > 80 && Math.abs(deltaY) < 60) {
-          handleSwipe(deltaX < 0 ? 'left' : 'right');
-          tapCountRef.current = 0; 
+  // While an alert is pending, double tap always cancels and triple tap (or the SOS gesture) sends,
+  // whatever the bindings say, so the overlay instructions stay true. Once the countdown is waiting
+  // for a tap, a single tap sends too.
+  const handleGesture = (gesture: GestureName) => {
+      const action = bindingFor(settingsRef.current.gestureBindings, gesture);
+      const pending = emergencyRef.current;
+      if (pending) {
+          if (pending.phase === 'sending') return;
+          if (gesture === 'doubleTap') cancelEmergency();
+          else if (gesture === 'tripleTap' || action === 'sos' || (pending.phase === 'confirm' && gesture === 'singleTap')) sendEmergencyAlert();
           return;
       }
+      runGestureAction(action);
+  };
 
-      // Tap Detection
-      if (duration < 300 && Math.abs(deltaX) < 20 && Math.abs(deltaY) < 20) {
-          tapCountRef.current += 1;
-          
-          if (singleTapTimeoutRef.current) clearTimeout(singleTapTimeoutRef.current);
-          if (doubleTapTimeoutRef.current) clearTimeout(doubleTapTimeoutRef.current);
-
-          if (tapCountRef.current === 1) {
-              singleTapTimeoutRef.current = setTimeout(() => {
-                  handleSingleTapAction();
-                  tapCountRef.current = 0;
-              }, 300);
-          } else if (tapCountRef.current === 2) {
-              doubleTapTimeoutRef.current = setTimeout(() => {
-                  handleDoubleTapAction();
-                  tapCountRef.current = 0;
-              }, 300);
-          } else if (tapCountRef.current === 3) {
-              handleTripleTapAction();
-              tapCountRef.current = 0;
-          }
+  // --- KEYBOARD, MEDIA KEYS & SWITCH ---
+
+  // Same emergency override as gestures: the SOS action sends, stop/pause cancels
+  const handleExternalAction = (action: GestureAction) => {
+      const pending = emergencyRef.current;
+      if (pending) {
+          if (pending.phase === 'sending') return;
+          if (action === 'sos') sendEmergencyAlert();
+          else if (action === 'stop' || action === 'pause' || action === 'startPause') cancelEmergency();
+          return;
       }
+      runGestureAction(action);
   };
+  const externalActionRef = useRef(handleExternalAction);
+  externalActionRef.current = handleExternalAction;
+
+  const [scanHighlight, setScanHighlight] = useState<GestureAction | null>(null);
+  const [switchScanner] = useState(() => createSwitchScanner({
+      getActions: () => SWITCH_SCAN_ACTIONS,
+      getInterval: () => settingsRef.current.switchScanInterval,
+      onHighlight: action => {
+          setScanHighlight(action);
+          if (action) announce(t(`action.${action}`));
+      },
+      onSelect: action => externalActionRef.current(action),
+  }));
+
+  const overlayOpenRef = useRef(false);
+  overlayOpenRef.current = showSettings || showTranscript || showDocuments || showFinder || qrContent !== null;
+
+  useEffect(() => {
+      const detachKeyboard = attachKeyboardInput({
+          onAction: action => externalActionRef.current(action),
+          onSwitch: () => switchScanner.press(),
+          isSwitchMode: () => settingsRef.current.switchScanning,
+          isEnabled: () => !overlayOpenRef.current,
+      });
+      return () => {
+          detachKeyboard();
+          switchScanner.stop();
+      };
+  }, [switchScanner]);
+
+  useEffect(() => {
+      if (!settings.switchScanning) switchScanner.stop();
+  }, [settings.switchScanning, switchScanner]);
+
+  // Escape closes whichever panel is open, since shortcuts are off while one is
+  useEffect(() => {
+      if (!showSettings && !showTranscript && !showDocuments && !showFinder && !qrContent) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.key !== 'Escape') return;
+          setShowSettings(false);
+          setShowTranscript(false);
+          setShowDocuments(false);
+          setShowFinder(false);
+          setQrContent(null);
+          announce(t('panel.closed'));
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showSettings, showTranscript, showDocuments, showFinder, qrContent]);
+
+  const [mediaSessionInput] = useState(() => attachMediaSessionInput(action => externalActionRef.current(action)));
+  useEffect(() => () => mediaSessionInput.detach(), [mediaSessionInput]);
+  useEffect(() => {
+      const active = appState === 'starting' || appState === 'running' || appState === 'paused';
+      mediaSessionInput.setActive(active, appState === 'paused');
+  }, [appState, mediaSessionInput]);
+
+  // --- GESTURE RECOGNITION ---
+
+  const gestureHandlerRef = useRef(handleGesture);
+  gestureHandlerRef.current = handleGesture;
+  const [gestureRecognizer] = useState(() => createGestureRecognizer({
+      getTimings: () => settingsRef.current.gestureTimings,
+      getViewport: () => ({ width: window.innerWidth, height: window.innerHeight }),
+      onGesture: gesture => gestureHandlerRef.current(gesture),
+  }));
+
+  useEffect(() => {
+      if (showSettings) gestureRecognizer.cancel();
+  }, [showSettings, gestureRecognizer]);
 
   // Touch Handlers
   const handleTouchStart = (e: React.TouchEvent) => {
-      const touch = e.touches[0];
-      handleInputStart(touch.clientX, touch.clientY);
+      if (showSettings) return;
+      Array.from<Touch>(e.changedTouches).forEach(t => gestureRecognizer.pointerDown(t.identifier, t.clientX, t.clientY, e.timeStamp));
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+      if (showSettings) return;
+      Array.from<Touch>(e.changedTouches).forEach(t => gestureRecognizer.pointerMove(t.identifier, t.clientX, t.clientY, e.timeStamp));
   };
 
   const handleTouchEnd = (e: React.TouchEvent) => {
-      const touch = e.changedTouches[0];
-      handleInputEnd(touch.clientX, touch.clientY);
+      if (showSettings) return;
+      Array.from<Touch>(e.changedTouches).forEach(t => gestureRecognizer.pointerUp(t.identifier, t.clientX, t.clientY, e.timeStamp));
   };
 
   // Mouse Handlers (For Desktop Debugging)
+  const MOUSE_POINTER_ID = -1;
+
   const handleMouseDown = (e: React.MouseEvent) => {
-      handleInputStart(e.clientX, e.clientY);
+      if (showSettings) return;
+      gestureRecognizer.pointerDown(MOUSE_POINTER_ID, e.clientX, e.clientY, e.timeStamp);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      if (showSettings || !(e.buttons & 1)) return;
+      gestureRecognizer.pointerMove(MOUSE_POINTER_ID, e.clientX, e.clientY, e.timeStamp);
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
-      handleInputEnd(e.clientX, e.clientY);
+      if (showSettings) return;
+      gestureRecognizer.pointerUp(MOUSE_POINTER_ID, e.clientX, e.clientY, e.timeStamp);
+  };
+
+  // --- TRANSCRIPT ---
+
+  useEffect(() => {
+      saveTranscriptHistory(transcripts.filter(t => t.entries.length > 0));
+  }, [transcripts]);
+
+  const handleClearTranscripts = () => {
+      setTranscripts(prev => prev.filter(t => t.id === currentTranscriptIdRef.current).map(t => ({ ...t, entries: [] })));
+      announce(t('transcript.cleared'));
+  };
+
+  const openTranscript = () => {
+      setShowTranscript(true);
+      announce(t('panel.transcript'));
+  };
+
+  const openDocuments = () => {
+      setShowDocuments(true);
+      announce(t('panel.documents'));
+  };
+
+  const handleSelectDocument = (id: string) => {
+      const document = documents.find(d => d.id === id);
+      if (!document) return;
+      moveDocumentCursor(id, -1);
+      announce(describeDocumentItem(document, -1));
+  };
+
+  const handleSelectDocumentItem = (index: number) => {
+      const document = documents.find(d => d.id === documentCursor.id);
+      if (!document) return;
+      moveDocumentCursor(document.id, index);
+      announce(describeDocumentItem(document, index));
+  };
+
+  const handleClearDocuments = () => {
+      setDocuments([]);
+      moveDocumentCursor(null, -1);
+      announce(t('document.cleared'));
+  };
+
+  useEffect(() => {
+      saveDocuments(documents);
+  }, [documents]);
+
+  // --- SESSION RECORDINGS ---
+
+  const refreshRecordings = useCallback(() => {
+      listRecordings().then(setRecordings).catch(() => setRecordings([]));
+  }, []);
+
+  useEffect(() => {
+      if (showSettings) refreshRecordings();
+  }, [showSettings, refreshRecordings]);
+
+  const handleReplay = async (id: string) => {
+      const recording = await loadRecording(id);
+      if (!recording) {
+          announce(t('recording.loadFailed'));
+          return;
+      }
+      if (appStateRef.current !== 'idle' && appStateRef.current !== 'error') {
+          announce(t('recording.stopFirst'));
+          return;
+      }
+      setReplayRecording(recording);
+      setShowSettings(false);
+      announce(t('recording.replaying'));
+      handleStart();
+  };
+
+  const handleExportRecording = async (id: string) => {
+      try {
+          const zip = await exportRecordingZip(id);
+          downloadBlob(zip, `sightguide-${id}.zip`);
+      } catch (e) {
+          console.warn("Export failed", e);
+          announce(t('recording.exportFailed'));
+      }
+  };
+
+  const handleDeleteRecording = async (id: string) => {
+      await deleteRecording(id).catch(() => {});
+      announce(t('recording.deleted'));
+      refreshRecordings();
+  };
+
+  // --- PLACES & ROUTES ---
+
+  const refreshPlaces = useCallback(() => {
+      listPlaces().then(setPlaces).catch(() => setPlaces([]));
+      listRoutes().then(setRoutes).catch(() => setRoutes([]));
+  }, []);
+
+  useEffect(() => {
+      if (showSettings) refreshPlaces();
+  }, [showSettings, refreshPlaces]);
+
+  const handleSavePlace = async (name: string) => {
+      announce(t('places.locating'));
+      try {
+          const position = await getCurrentPosition(geolocation);
+          const place = await savePlace(name, position);
+          announce(t('places.saved', { name: place.name }));
+          refreshPlaces();
+      } catch (err: any) {
+          announce(err.message || t('places.saveFailed'));
+      }
+  };
+
+  const handleDeletePlace = async (id: string) => {
+      await deletePlace(id).catch(() => {});
+      announce(t('places.deleted'));
+      refreshPlaces();
+  };
+
+  const handleSetDestination = (next: NavigationDestination | null) => {
+      setDestination(next);
+      announce(next ? t('places.destinationSet', { name: next.name }) : t('places.destinationCleared'));
+  };
+
+  const handleStartRoute = (name: string) => {
+      if (routeRecorderRef.current) return;
+      const recorder = createRouteRecorder(name);
+      const stopWatch = geolocation.watch(recorder.addPosition, message => announce(message));
+      routeRecorderRef.current = { recorder, stopWatch };
+      setRecordingRoute(recorder.route.name);
+      announce(t('route.recording', { name: recorder.route.name }));
+  };
+
+  const handleStopRoute = async () => {
+      const active = routeRecorderRef.current;
+      if (!active) return;
+      routeRecorderRef.current = null;
+      active.stopWatch();
+      const route = await active.recorder.finish();
+      setRecordingRoute(null);
+      announce(t('route.saved', { count: route.breadcrumbs.length }));
+      refreshPlaces();
+  };
+
+  const handleDeleteRoute = async (id: string) => {
+      await deleteRoute(id).catch(() => {});
+      announce(t('route.deleted'));
+      refreshPlaces();
+  };
+
+  // --- REMEMBERED THINGS & PEOPLE ---
+
+  const refreshMemories = useCallback(() => {
+      listMemories().then(setMemories).catch(() => setMemories([]));
+  }, []);
+
+  // Loaded up front so the first session can show them to the guide
+  useEffect(() => {
+      refreshMemories();
+  }, [refreshMemories]);
+
+  const handleRemember = (label: string, kind: MemoryKind) => {
+      setMemoryCapture({ label: label.trim(), kind, requestedAt: Date.now() });
+  };
+
+  const handleMemorySaved = useCallback(() => {
+      playBeep(660, 'sine', 0.08);
+      refreshMemories();
+  }, [refreshMemories]);
+
+  const handleRenameMemory = async (memory: LabeledMemory, label: string) => {
+      const renamed = await renameMemory(memory, label).catch(() => null);
+      if (renamed) announce(t('memory.renamed', { label: renamed.label }));
+      refreshMemories();
+  };
+
+  const handleDeleteMemory = async (memory: LabeledMemory) => {
+      await deleteMemory(memory.id).catch(() => {});
+      announce(t('memory.deleted', { label: memory.label }));
+      refreshMemories();
+  };
+
+  // --- USAGE ---
+
+  const checkUsage = useCallback(() => {
+      const today = usageMeter.today();
+      const status = checkBudget(today, settingsRef.current.usageBudget);
+      const level = status?.level ?? 'ok';
+      setLowBandwidth(level === 'exceeded');
+
+      const alert = budgetAlertRef.current;
+      if (alert.date !== today.date) budgetAlertRef.current = { date: today.date, level: 'ok' };
+      if (!status || BUDGET_LEVEL_RANK[level] <= BUDGET_LEVEL_RANK[budgetAlertRef.current.level]) return;
+      budgetAlertRef.current = { date: today.date, level };
+      const budget = t(`usage.budget.${status.kind}`);
+      announce(level === 'exceeded' ? t('usage.exceeded', { budget }) : t('usage.warning', { budget, percent: Math.floor(status.share * 100) }));
+  }, [usageMeter]);
+
+  // Replays stream nothing and are not counted
+  useEffect(() => {
+      if (appState !== 'running' || connectionStatus !== 'connected' || replayRecording) return;
+      checkUsage();
+      const timer = setInterval(() => {
+          usageMeter.recordSessionTime(USAGE_TICK_MS);
+          checkUsage();
+      }, USAGE_TICK_MS);
+      return () => {
+          clearInterval(timer);
+          usageMeter.flush();
+      };
+  }, [appState, connectionStatus, replayRecording, usageMeter, checkUsage]);
+
+  // A raised or removed budget lifts low bandwidth straight away. Checked on first render too,
+  // so a budget already used up today applies before the next session starts.
+  const checkedBudgetRef = useRef<AppSettings['usageBudget'] | null>(null);
+  useEffect(() => {
+      if (checkedBudgetRef.current === settings.usageBudget) return;
+      checkedBudgetRef.current = settings.usageBudget;
+      if (lowBandwidth && checkBudget(usageMeter.today(), settings.usageBudget)?.level !== 'exceeded') announce(t('usage.restored'));
+      checkUsage();
+  }, [settings.usageBudget, lowBandwidth, usageMeter, checkUsage]);
+
+  useEffect(() => {
+      const flush = () => usageMeter.flush();
+      window.addEventListener('pagehide', flush);
+      return () => window.removeEventListener('pagehide', flush);
+  }, [usageMeter]);
+
+  // A route still being recorded when the app closes keeps what was saved so far
+  useEffect(() => () => {
+      routeRecorderRef.current?.stopWatch();
+      routeRecorderRef.current?.recorder.finish();
+  }, []);
+
+  // --- SETTINGS PERSISTENCE ---
+
+  useEffect(() => {
+      saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+      setAnnounceRate(settings.announceRate);
+  }, [settings.announceRate]);
+
+  // Applied during render rather than in an effect so that t() calls below already use
+  // the language just loaded, imported or picked
+  setLanguage(settings.language);
+
+  // Tailwind sizes are rem-based, so scaling the root font enlarges all text
+  useEffect(() => {
+      document.documentElement.style.fontSize = settings.largeText ? '112.5%' : '';
+  }, [settings.largeText]);
+
+  const handleExportSettings = () => {
+      const json = exportSettingsProfile(settings);
+      downloadBlob(new Blob([json], { type: 'application/json' }), 'sightguide-settings.json');
+      announce(t('profile.exported'));
+  };
+
+  const handleImportSettings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setSettings(importSettingsProfile(await file.text()));
+          announce(t('profile.imported'));
+      } catch (err: any) {
+          announce(err.message || t('profile.importFailed'));
+      }
+  };
+
+  // --- CUSTOM MODES ---
+
+  const handleSaveMode = (draft: Omit<ModeDefinition, 'id'>) => {
+      setSettings(prev => {
+          const customModes = editingModeId && editingModeId !== 'new'
+              ? prev.customModes.map(m => (m.id === editingModeId ? { ...draft, id: m.id } : m))
+              : [...prev.customModes, { ...draft, id: createModeId(draft.label, getAllModes(prev.customModes)) }];
+          return { ...prev, customModes };
+      });
+      setEditingModeId(null);
+      announce(t('mode.saved', { mode: draft.label }));
+  };
+
+  const handleDeleteMode = (id: ModeId) => {
+      const label = modeLabel(findMode(modes, id));
+      setSettings(prev => ({ ...prev, customModes: prev.customModes.filter(m => m.id !== id) }));
+      announce(t('mode.deleted', { mode: label }));
   };
 
   const updateSetting = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
       setSettings(prev => ({...prev, [key]: value}));
-      if (key === 'highContrast') announce(value ? "High Contrast Enabled" : "High Contrast Disabled");
-      if (key === 'safeMode') announce(value ? "Safe Mode active." : "Safe Mode off.");
+      if (TOGGLE_ANNOUNCEMENTS.includes(key)) announce(t(`setting.${key}.${value ? 'on' : 'off'}` as MessageKey));
+      if (key === 'verbosity') announce(t('setting.verbosity', { level: t(`verbosity.${value as Verbosity}`) }));
+      if (key === 'micMode') announce(describeMicMode(value as MicMode));
+      if (key === 'spatialAudio') announce(t(`spatial.${value as SpatialAudioMode}`));
+      if (key === 'language') {
+          // Switch now so the confirmation is already spoken in the new language
+          setLanguage(value as Language);
+          announce(t('setting.language'));
+      }
+      if (key === 'currency') announce(t('setting.currency', { currency: t(`currency.${value as Currency}`) }));
+  };
+
+  const describeMicMode = (micMode: MicMode) => {
+      if (micMode === 'always') return t('mic.always');
+      if (micMode === 'vad') return t('mic.vad');
+      const bindings = settings.gestureBindings;
+      const gesture = (Object.keys(bindings) as GestureName[]).find(g => bindings[g] === 'talk');
+      return gesture
+          ? t('mic.pushToTalk', { gesture: GESTURE_LABELS[gesture] })
+          : t('mic.pushToTalkUnbound');
+  };
+
+  const handleSpatialCalibration = () => {
+      const mode = settings.spatialAudio;
+      if (mode === 'off') {
+          announce(t('spatial.isOff'));
+          return;
+      }
+      announce(mode === 'headphones'
+          ? t('spatial.calibrateHeadphones')
+          : t('spatial.calibrateSpeaker'));
+      // Let the announcement finish before the tones start
+      setTimeout(() => playCalibrationTones(mode), 4500);
   };
 
   // --- RENDER ---
@@ -236,8 +987,11 @@ const App: React.FC = () => {
     <div 
         className={`h-[100dvh] w-full flex flex-col overflow-hidden relative select-none ${settings.highContrast ? 'bg-black text-white' : 'bg-slate-900 text-white'}`}
         onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
+        onTouchCancel={() => gestureRecognizer.cancel()}
         onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         role="application"
         aria-label="SightGuide App. Entire screen is a touch surface."
@@ -249,7 +1003,7 @@ const App: React.FC = () => {
               <div className="flex justify-between items-center mb-8 border-b border-gray-700 pb-4">
                   <h2 className="text-4xl font-bold text-yellow-400">Settings</h2>
                   <button 
-                    onClick={() => { setShowSettings(false); announce("Closing settings."); }} 
+                    onClick={() => { setShowSettings(false); announce(t('panel.closingSettings')); }} 
                     className="p-4 bg-gray-800 rounded-xl"
                   >
                       <span className="text-4xl">✕</span>
@@ -268,6 +1022,17 @@ const App: React.FC = () => {
                       </button>
                   </div>
 
+                  <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <label htmlFor="lt-toggle" className="font-bold text-2xl">Large Text</label>
+                      <button 
+                        id="lt-toggle"
+                        onClick={() => updateSetting('largeText', !settings.largeText)}
+                        className={`w-20 h-10 rounded-full relative transition-colors ${settings.largeText ? 'bg-white' : 'bg-gray-600'}`}
+                      >
+                          <div className={`absolute top-1 w-8 h-8 rounded-full bg-black transition-all ${settings.largeText ? 'left-11' : 'left-1'}`} />
+                      </button>
+                  </div>
+
                   <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
                       <div>
                         <label htmlFor="safe-toggle" className="font-bold text-2xl">Safe Mode</label>
@@ -281,6 +1046,113 @@ const App: React.FC = () => {
                       </button>
                   </div>
 
+                  <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <label htmlFor="datasaver-toggle" className="font-bold text-2xl">Data Saver</label>
+                      <button 
+                        id="datasaver-toggle"
+                        onClick={() => updateSetting('dataSaver', !settings.dataSaver)}
+                        className={`w-20 h-10 rounded-full relative transition-colors ${settings.dataSaver ? 'bg-green-500' : 'bg-gray-600'}`}
+                      >
+                           <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.dataSaver ? 'left-11' : 'left-1'}`} />
+                      </button>
+                  </div>
+
+                  <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <label htmlFor="framing-toggle" className="font-bold text-2xl">Aiming Tones</label>
+                      <button 
+                        id="framing-toggle"
+                        onClick={() => updateSetting('framingCues', !settings.framingCues)}
+                        className={`w-20 h-10 rounded-full relative transition-colors ${settings.framingCues ? 'bg-green-500' : 'bg-gray-600'}`}
+                      >
+                           <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.framingCues ? 'left-11' : 'left-1'}`} />
+                      </button>
+                  </div>
+
+                  <div className="flex flex-col gap-4 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <div className="flex items-center justify-between">
+                          <label htmlFor="scanning-toggle" className="font-bold text-2xl">Switch Scanning</label>
+                          <button 
+                            id="scanning-toggle"
+                            onClick={() => updateSetting('switchScanning', !settings.switchScanning)}
+                            className={`w-20 h-10 rounded-full relative transition-colors ${settings.switchScanning ? 'bg-green-500' : 'bg-gray-600'}`}
+                          >
+                               <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.switchScanning ? 'left-11' : 'left-1'}`} />
+                          </button>
+                      </div>
+                      {settings.switchScanning && (
+                          <label className="flex flex-col gap-2 font-bold text-xl">
+                              Scan speed: {(settings.switchScanInterval / 1000).toFixed(1)} seconds per item
+                              <input
+                                className="w-full h-10 accent-yellow-400"
+                                type="range"
+                                min={SWITCH_SCAN_INTERVAL_RANGE.min}
+                                max={SWITCH_SCAN_INTERVAL_RANGE.max}
+                                step={SWITCH_SCAN_INTERVAL_RANGE.step}
+                                value={settings.switchScanInterval}
+                                aria-valuetext={`${(settings.switchScanInterval / 1000).toFixed(1)} seconds`}
+                                onChange={e => updateSetting('switchScanInterval', Number(e.target.value))}
+                              />
+                          </label>
+                      )}
+                  </div>
+
+                  <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <label htmlFor="stats-toggle" className="font-bold text-2xl">Show Stats</label>
+                      <button 
+                        id="stats-toggle"
+                        onClick={() => updateSetting('showStats', !settings.showStats)}
+                        className={`w-20 h-10 rounded-full relative transition-colors ${settings.showStats ? 'bg-white' : 'bg-gray-600'}`}
+                      >
+                          <div className={`absolute top-1 w-8 h-8 rounded-full bg-black transition-all ${settings.showStats ? 'left-11' : 'left-1'}`} />
+                      </button>
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">Language</label>
+                      <div className="grid grid-cols-2 gap-3">
+                          {(Object.keys(LANGUAGES) as Language[]).map(l => (
+                              <button
+                                key={l}
+                                lang={l}
+                                onClick={() => updateSetting('language', l)}
+                                aria-pressed={settings.language === l}
+                                className={`p-6 rounded-xl font-bold text-xl border-4 ${settings.language === l ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                              >
+                                  {LANGUAGES[l].label}
+                              </button>
+                          ))}
+                      </div>
+                      <div className="flex items-center justify-between">
+                          <label htmlFor="translate-toggle" className="font-bold text-2xl">Translate Foreign Text</label>
+                          <button 
+                            id="translate-toggle"
+                            onClick={() => updateSetting('translateReading', !settings.translateReading)}
+                            className={`w-20 h-10 rounded-full relative transition-colors ${settings.translateReading ? 'bg-green-500' : 'bg-gray-600'}`}
+                          >
+                               <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.translateReading ? 'left-11' : 'left-1'}`} />
+                          </button>
+                      </div>
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">Banknotes</label>
+                      <div className="grid grid-cols-2 gap-3">
+                          {(Object.keys(CURRENCIES) as Currency[]).map(c => (
+                              <button
+                                key={c}
+                                onClick={() => updateSetting('currency', c)}
+                                aria-pressed={settings.currency === c}
+                                className={`p-6 rounded-xl font-bold text-xl border-4 ${settings.currency === c ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                              >
+                                  {CURRENCIES[c].label}
+                              </button>
+                          ))}
+                      </div>
+                      {CURRENCIES[settings.currency].notes.length === 0 && (
+                          <p className="text-lg text-gray-400">These notes all share one colour, so the phone can't tell them apart. Ask the guide instead.</p>
+                      )}
+                  </div>
+
                    <div className="flex flex-col gap-4">
                       <label className="font-bold text-2xl">Assistant Voice</label>
                       <div className="grid grid-cols-2 gap-3">
@@ -296,6 +1168,217 @@ const App: React.FC = () => {
                       </div>
                   </div>
 
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">Spatial Audio</label>
+                      <div className="grid grid-cols-3 gap-3">
+                          {SPATIAL_AUDIO_MODES.map(m => (
+                              <button
+                                key={m}
+                                onClick={() => updateSetting('spatialAudio', m)}
+                                aria-pressed={settings.spatialAudio === m}
+                                className={`p-6 rounded-xl font-bold text-xl border-4 capitalize ${settings.spatialAudio === m ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                              >
+                                  {m}
+                              </button>
+                          ))}
+                      </div>
+                      <button
+                        onClick={handleSpatialCalibration}
+                        className="p-4 bg-gray-700 rounded-xl font-bold text-xl border-2 border-gray-500"
+                      >
+                          Test Direction
+                      </button>
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">How Much the Guide Says</label>
+                      <div className="grid grid-cols-2 gap-3">
+                          {(Object.keys(VERBOSITY_LEVELS) as Verbosity[]).map(v => (
+                              <button
+                                key={v}
+                                onClick={() => updateSetting('verbosity', v)}
+                                aria-pressed={settings.verbosity === v}
+                                className={`p-6 rounded-xl font-bold text-xl border-4 ${settings.verbosity === v ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                              >
+                                  {VERBOSITY_LEVELS[v].label}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+
+                  <div className="flex flex-col gap-4 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                      <label className="flex flex-col gap-2 font-bold text-xl">
+                          Guide speech speed: {settings.speechRate.toFixed(2)}×
+                          <input
+                            className="w-full h-10 accent-yellow-400"
+                            type="range"
+                            min={SPEECH_RATE_RANGE.min}
+                            max={SPEECH_RATE_RANGE.max}
+                            step={SPEECH_RATE_RANGE.step}
+                            value={settings.speechRate}
+                            aria-valuetext={`${settings.speechRate.toFixed(2)} times`}
+                            onChange={e => updateSetting('speechRate', Number(e.target.value))}
+                          />
+                      </label>
+                      <label className="flex flex-col gap-2 font-bold text-xl">
+                          Announcement speed: {settings.announceRate.toFixed(1)}×
+                          <input
+                            className="w-full h-10 accent-yellow-400"
+                            type="range"
+                            min={ANNOUNCE_RATE_RANGE.min}
+                            max={ANNOUNCE_RATE_RANGE.max}
+                            step={ANNOUNCE_RATE_RANGE.step}
+                            value={settings.announceRate}
+                            aria-valuetext={`${settings.announceRate.toFixed(1)} times`}
+                            onChange={e => updateSetting('announceRate', Number(e.target.value))}
+                          />
+                      </label>
+                      <div className="flex items-center justify-between">
+                          <label htmlFor="duck-toggle" className="font-bold text-2xl">Quieter When I Speak</label>
+                          <button 
+                            id="duck-toggle"
+                            onClick={() => updateSetting('duckOnSpeech', !settings.duckOnSpeech)}
+                            className={`w-20 h-10 rounded-full relative transition-colors ${settings.duckOnSpeech ? 'bg-green-500' : 'bg-gray-600'}`}
+                          >
+                               <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.duckOnSpeech ? 'left-11' : 'left-1'}`} />
+                          </button>
+                      </div>
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">Microphone</label>
+                      <div className="grid grid-cols-3 gap-3">
+                          {(Object.keys(MIC_MODE_LABELS) as MicMode[]).map(m => (
+                              <button
+                                key={m}
+                                onClick={() => updateSetting('micMode', m)}
+                                aria-pressed={settings.micMode === m}
+                                className={`p-6 rounded-xl font-bold text-xl border-4 ${settings.micMode === m ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                              >
+                                  {MIC_MODE_LABELS[m]}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <div className="flex items-center justify-between p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                          <label htmlFor="record-toggle" className="font-bold text-2xl">Record Sessions</label>
+                          <button 
+                            id="record-toggle"
+                            onClick={() => updateSetting('recordSessions', !settings.recordSessions)}
+                            className={`w-20 h-10 rounded-full relative transition-colors ${settings.recordSessions ? 'bg-purple-500' : 'bg-gray-600'}`}
+                          >
+                               <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${settings.recordSessions ? 'left-11' : 'left-1'}`} />
+                          </button>
+                      </div>
+                      {recordings.length > 0 && (
+                          <ul className="flex flex-col gap-3" aria-label="Saved recordings">
+                              {recordings.map(r => (
+                                  <li key={r.id} className="p-4 bg-gray-900 rounded-2xl border border-gray-700 flex flex-col gap-3">
+                                      <span className="font-bold text-xl">
+                                          {new Date(r.startedAt).toLocaleString()} · {r.mode} · {r.frameCount} frames
+                                      </span>
+                                      <div className="grid grid-cols-3 gap-2">
+                                          <button onClick={() => handleReplay(r.id)} className="p-3 bg-purple-800 rounded-xl font-bold">Replay</button>
+                                          <button onClick={() => handleExportRecording(r.id)} className="p-3 bg-gray-700 rounded-xl font-bold">Export</button>
+                                          <button onClick={() => handleDeleteRecording(r.id)} className="p-3 bg-red-900 rounded-xl font-bold">Delete</button>
+                                      </div>
+                                  </li>
+                              ))}
+                          </ul>
+                      )}
+                  </div>
+
+                  <GestureSettings
+                    bindings={settings.gestureBindings}
+                    timings={settings.gestureTimings}
+                    onBindingsChange={bindings => updateSetting('gestureBindings', bindings)}
+                    onTimingsChange={timings => updateSetting('gestureTimings', timings)}
+                  />
+
+                  <EmergencySettings
+                    contacts={settings.emergencyContacts}
+                    notifier={settings.emergencyNotifier}
+                    webhookUrl={settings.emergencyWebhookUrl}
+                    onContactsChange={contacts => updateSetting('emergencyContacts', contacts)}
+                    onNotifierChange={notifier => updateSetting('emergencyNotifier', notifier)}
+                    onWebhookUrlChange={url => updateSetting('emergencyWebhookUrl', url)}
+                  />
+
+                  <PlacesPanel
+                    places={places}
+                    routes={routes}
+                    destination={destination}
+                    recordingRoute={recordingRoute}
+                    onSavePlace={handleSavePlace}
+                    onDeletePlace={handleDeletePlace}
+                    onSetDestination={handleSetDestination}
+                    onStartRoute={handleStartRoute}
+                    onStopRoute={handleStopRoute}
+                    onDeleteRoute={handleDeleteRoute}
+                  />
+
+                  <MemoryPanel
+                    memories={memories}
+                    shareWithGuide={settings.shareMemories}
+                    canCapture={appState === 'running'}
+                    onShareChange={share => updateSetting('shareMemories', share)}
+                    onRemember={handleRemember}
+                    onRename={handleRenameMemory}
+                    onDelete={handleDeleteMemory}
+                  />
+
+                  <UsagePanel
+                    meter={usageMeter}
+                    budget={settings.usageBudget}
+                    lowBandwidth={lowBandwidth}
+                    onBudgetChange={budget => updateSetting('usageBudget', budget)}
+                  />
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">My Modes</label>
+                      {settings.customModes.map(m => (
+                          editingModeId === m.id ? (
+                              <ModeEditor key={m.id} initial={m} onSave={handleSaveMode} onCancel={() => setEditingModeId(null)} />
+                          ) : (
+                              <div key={m.id} className="flex items-center justify-between gap-3 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+                                  <span className="font-bold text-xl"><span aria-hidden="true">{m.icon}</span> {m.label}</span>
+                                  <div className="flex gap-2">
+                                      <button onClick={() => setEditingModeId(m.id)} className="p-3 bg-gray-700 rounded-xl font-bold">Edit</button>
+                                      <button onClick={() => handleDeleteMode(m.id)} className="p-3 bg-red-900 rounded-xl font-bold">Delete</button>
+                                  </div>
+                              </div>
+                          )
+                      ))}
+                      {editingModeId === 'new' ? (
+                          <ModeEditor initial={null} onSave={handleSaveMode} onCancel={() => setEditingModeId(null)} />
+                      ) : (
+                          <button onClick={() => setEditingModeId('new')} className="p-6 rounded-xl font-bold text-xl bg-gray-800 border-4 border-dashed border-gray-600">
+                              + Add Mode
+                          </button>
+                      )}
+                  </div>
+
+                  <div className="flex flex-col gap-4">
+                      <label className="font-bold text-2xl">Settings Profile</label>
+                      <div className="grid grid-cols-2 gap-3">
+                          <button onClick={handleExportSettings} className="p-6 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+                              Export
+                          </button>
+                          <button onClick={() => importInputRef.current?.click()} className="p-6 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+                              Import
+                          </button>
+                      </div>
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={handleImportSettings}
+                      />
+                  </div>
+
                   <button 
                     onClick={() => { handleStop(); setShowSettings(false); }}
                     className="mt-8 bg-red-600 text-white font-bold text-2xl p-6 rounded-2xl border-4 border-red-800"
@@ -306,6 +1389,56 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {showTranscript && (
+          <TranscriptPanel
+            current={transcripts.find(t => t.id === currentTranscriptIdRef.current) ?? null}
+            history={transcripts}
+            onClose={() => { setShowTranscript(false); announce(t('panel.closingTranscript')); }}
+            onClearHistory={handleClearTranscripts}
+          />
+      )}
+
+      {showDocuments && (
+          <DocumentPanel
+            documents={documents}
+            activeId={documentCursor.id}
+            activeIndex={documentCursor.index}
+            onSelectDocument={handleSelectDocument}
+            onSelectItem={handleSelectDocumentItem}
+            onPrevious={() => handleDocumentAction('docPrev')}
+            onNext={() => handleDocumentAction('docNext')}
+            onSpell={() => handleDocumentAction('docSpell')}
+            onClose={() => { setShowDocuments(false); announce(t('panel.closingDocuments')); }}
+            onClear={handleClearDocuments}
+          />
+      )}
+
+      {showFinder && (
+          <FinderPanel
+            onFind={handlePickFindTarget}
+            onClose={() => { setShowFinder(false); announce(t('panel.closed')); }}
+          />
+      )}
+
+      {qrContent && (
+          <QrResultPanel
+            content={qrContent}
+            onOpenLink={handleOpenLink}
+            onRead={handleReadQr}
+            onSaveContact={handleSaveContact}
+            onClose={() => { setQrContent(null); announce(t('panel.closed')); }}
+          />
+      )}
+
+      {emergency && (
+          <EmergencyOverlay
+            phase={emergency.phase}
+            secondsLeft={emergency.secondsLeft}
+            onSendNow={() => sendEmergencyAlert()}
+            onCancel={cancelEmergency}
+          />
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 relative flex flex-col p-2 gap-2 overflow-hidden">
         
@@ -322,13 +1455,14 @@ const App: React.FC = () => {
                      <p className="text-2xl text-center max-w-sm font-bold">
                         Double tap to start. <br/>
                         Tap once to speak. <br/>
-                        Triple tap to stop.
+                        Triple tap for emergency alert.
                      </p>
                  </div>
             )}
 
             <LiveAssistant 
                 mode={mode} 
+                modes={modes}
                 appState={appState}
                 settings={settings}
                 onStatusChange={setConnectionStatus}
@@ -336,16 +1470,69 @@ const App: React.FC = () => {
                 onModeChange={handleModeChange}
                 onRetryUpdate={setRetryMessage}
                 onTogglePause={handleTogglePause}
-                onOpenSettings={() => { setShowSettings(true); announce("Settings."); }}
+                onOpenSettings={() => { setShowSettings(true); announce(t('panel.settings')); }}
                 actionTrigger={actionTrigger}
+                pageCaptureTrigger={pageCaptureTrigger}
+                geolocation={geolocation}
+                destination={destination}
+                frameSnapshots={frameSnapshots}
+                replay={replayRecording}
+                onTranscript={handleTranscriptEvent}
+                onFrameStats={setFrameStats}
+                onAudioStats={setAudioStats}
+                talkOpen={talkOpen}
+                onSpeakingChange={setUserSpeaking}
+                onDocument={handleDocument}
+                findTarget={findTarget}
+                onFindTargetChange={setFindTarget}
+                memories={memories}
+                memoryCapture={memoryCapture}
+                onMemorySaved={handleMemorySaved}
+                scanning={scanning}
+                onScanResult={handleScanResult}
+                usageMeter={replayRecording ? undefined : usageMeter}
+                lowBandwidth={lowBandwidth}
             />
             <StatusOverlay status={connectionStatus} errorMessage={error} retryMessage={retryMessage} />
+            {settings.showStats && isAssistantActive && <StatsOverlay frameStats={frameStats} audioStats={audioStats} />}
+            {scanHighlight && (
+                <div className="absolute top-4 inset-x-0 z-30 flex justify-center pointer-events-none" aria-hidden="true">
+                    <span className="bg-yellow-400 text-black px-6 py-3 rounded-xl text-2xl font-black border-4 border-black">
+                        ▶ {t(`action.${scanHighlight as GestureAction}`)}
+                    </span>
+                </div>
+            )}
             
             {/* Mode Indicator Overlay (Visual only, helps orientation) */}
             <div className="absolute top-4 left-4 z-20 pointer-events-none">
                 <span className="bg-black/70 text-white px-4 py-2 rounded-lg text-xl font-bold border border-white/50">
-                    {mode}
+                    {modeLabel(findMode(modes, mode))}
                 </span>
+                {destination && mode === AppMode.NAVIGATION && (
+                    <span className="block mt-2 bg-black/70 text-white px-4 py-2 rounded-lg text-lg font-bold border border-white/50">
+                        → {destination.name}
+                    </span>
+                )}
+                {scanning && isAssistantActive && (
+                    <span className="block mt-2 bg-yellow-400 text-black px-4 py-2 rounded-lg text-lg font-bold border border-black">
+                        ▦ Scanning
+                    </span>
+                )}
+                {findTarget && isAssistantActive && (
+                    <span className="block mt-2 bg-yellow-400 text-black px-4 py-2 rounded-lg text-lg font-bold border border-black">
+                        🔍 {findTarget}
+                    </span>
+                )}
+                {appState === 'running' && (talkOpen || settings.micMode === 'pushToTalk') && (
+                    <span className={`block mt-2 px-4 py-2 rounded-lg text-lg font-bold border border-white/50 ${talkOpen ? 'bg-green-700/90 text-white' : 'bg-black/70 text-gray-300'}`}>
+                        {talkOpen ? '🎙️ Mic open' : '🔇 Mic closed'}
+                    </span>
+                )}
+                {appState === 'running' && !talkOpen && settings.micMode !== 'pushToTalk' && userSpeaking && (
+                    <span className="block mt-2 bg-green-700/90 text-white px-4 py-2 rounded-lg text-lg font-bold border border-white/50">
+                        🎙️ Speaking
+                    </span>
+                )}
             </div>
         </div>
 
@@ -358,6 +1545,7 @@ const App: React.FC = () => {
                 onTouchEnd={(e) => e.stopPropagation()}
             >
                 <ControlPanel 
+                    modes={modes}
                     currentMode={mode} 
                     onModeChange={handleModeChange} 
                     disabled={!isAssistantActive || connectionStatus !== 'connected'}
@@ -377,9 +1565,48 @@ const App: React.FC = () => {
                 >
                     <span className="text-4xl">🛑</span> STOP
                 </button>
+
+                {findMode(modes, mode).framing === 'text' && isAssistantActive && !replayRecording && (
+                    <button 
+                        onClick={() => setPageCaptureTrigger(Date.now())}
+                        aria-label="Capture Page"
+                        className="w-24 bg-green-700 active:bg-green-600 text-white rounded-2xl border-2 border-green-400 flex items-center justify-center shadow-lg"
+                    >
+                        <span className="text-4xl">📄</span>
+                    </button>
+                )}
                 
+                {mode === AppMode.OBJECT && isAssistantActive && !replayRecording && (
+                    <button 
+                        onClick={handleFind}
+                        aria-label={t('action.find')}
+                        aria-pressed={findTarget !== null}
+                        className={`w-24 text-white rounded-2xl border-2 flex items-center justify-center shadow-lg ${findTarget ? 'bg-yellow-600 active:bg-yellow-500 border-yellow-300' : 'bg-gray-700 active:bg-gray-600 border-gray-500'}`}
+                    >
+                        <span className="text-4xl">🔍</span>
+                    </button>
+                )}
+
+                {documents.length > 0 && (
+                    <button 
+                        onClick={openDocuments}
+                        aria-label="Documents"
+                        className="w-24 bg-gray-700 active:bg-gray-600 text-white rounded-2xl border-2 border-gray-500 flex items-center justify-center shadow-lg"
+                    >
+                        <span className="text-4xl">📑</span>
+                    </button>
+                )}
+
+                <button 
+                    onClick={openTranscript}
+                    aria-label="Transcript"
+                    className="w-24 bg-gray-700 active:bg-gray-600 text-white rounded-2xl border-2 border-gray-500 flex items-center justify-center shadow-lg"
+                >
+                    <span className="text-4xl">📝</span>
+                </button>
+
                 <button 
-                    onClick={() => { setShowSettings(true); announce("Settings."); }}
+                    onClick={() => { setShowSettings(true); announce(t('panel.settings')); }}
                     className="w-24 bg-gray-700 active:bg-gray-600 text-white rounded-2xl border-2 border-gray-500 flex items-center justify-center shadow-lg"
                 >
                     <span className="text-4xl">⚙️</span>
@@ -1,28 +1,35 @@
 import React from 'react';
-import { AppMode } from '../types';
+import { ModeDefinition, ModeId } from '../types';
+import { modeLabel, t } from '../utils/i18n';
 
 interface ControlPanelProps {
-  currentMode: AppMode;
-  onModeChange: (mode: AppMode) => void;
+  modes: ModeDefinition[];
+  currentMode: ModeId;
+  onModeChange: (mode: ModeId) => void;
   disabled: boolean;
   highContrast: boolean;
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ currentMode, onModeChange, disabled, highContrast }) => {
-  const modes = [
-    { id: AppMode.NAVIGATION, label: 'Navigation', icon: '🚶', color: 'bg-blue-600', activeColor: 'bg-blue-500' },
-    { id: AppMode.READING, label: 'Reading', icon: '📖', color: 'bg-green-600', activeColor: 'bg-green-500' },
-    { id: AppMode.OBJECT, label: 'Objects', icon: '🔍', color: 'bg-orange-600', activeColor: 'bg-orange-500' },
-  ];
+// Colors cycle for modes beyond the built-in three
+const MODE_COLORS = [
+  { color: 'bg-blue-600', activeColor: 'bg-blue-500' },
+  { color: 'bg-green-600', activeColor: 'bg-green-500' },
+  { color: 'bg-orange-600', activeColor: 'bg-orange-500' },
+  { color: 'bg-purple-600', activeColor: 'bg-purple-500' },
+  { color: 'bg-teal-600', activeColor: 'bg-teal-500' },
+  { color: 'bg-pink-600', activeColor: 'bg-pink-500' },
+];
 
+const ControlPanel: React.FC<ControlPanelProps> = ({ modes, currentMode, onModeChange, disabled, highContrast }) => {
   return (
     <div 
-        className={`grid grid-cols-3 gap-3 w-full p-3 h-40 md:h-48 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
+        className={`grid grid-flow-col auto-cols-[minmax(30%,1fr)] gap-3 w-full p-3 h-40 md:h-48 overflow-x-auto ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
         role="group"
-        aria-label="Mode Selection"
+        aria-label={t('controls.modeSelection')}
     >
-      {modes.map((mode) => {
+      {modes.map((mode, index) => {
         const isActive = mode.id === currentMode;
+        const palette = MODE_COLORS[index % MODE_COLORS.length];
         
         // Dynamic class generation for accessibility
         let containerClass = "relative flex flex-col items-center justify-center rounded-2xl transition-all duration-200 shadow-lg ";
@@ -33,8 +40,8 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ currentMode, onModeChange,
                 : "bg-black text-white border-4 border-white ";
         } else {
             containerClass += isActive
-                ? `${mode.activeColor} border-4 border-white scale-105 z-10 `
-                : `${mode.color} border-2 border-transparent opacity-90 `;
+                ? `${palette.activeColor} border-4 border-white scale-105 z-10 `
+                : `${palette.color} border-2 border-transparent opacity-90 `;
         }
 
         return (
@@ -47,14 +54,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ currentMode, onModeChange,
             }}
             disabled={disabled}
             aria-pressed={isActive}
-            aria-label={`${mode.label} Mode ${isActive ? '(Active)' : ''}`}
+            aria-label={`${t('controls.modeButton', { mode: modeLabel(mode) })} ${isActive ? t('controls.active') : ''}`}
             className={containerClass}
             >
                 <span className={`text-4xl md:text-5xl mb-2 ${highContrast && isActive ? 'text-black' : 'text-white drop-shadow-md'}`} aria-hidden="true">
                     {mode.icon}
                 </span>
-                <span className={`font-bold text-lg md:text-xl tracking-wider uppercase ${highContrast && isActive ? 'text-black' : 'text-white'}`}>
-                    {mode.label}
+                <span className={`font-bold text-lg md:text-xl tracking-wider uppercase text-center leading-tight ${highContrast && isActive ? 'text-black' : 'text-white'}`}>
+                    {modeLabel(mode)}
                 </span>
                 
                 {/* Active Indicator Dot for non-high-contrast users */}
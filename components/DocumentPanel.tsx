@@ -0,0 +1,101 @@
+import React from 'react';
+import { ReadDocument } from '../types';
+import { getDocumentItems } from '../utils/documents';
+
+interface DocumentPanelProps {
+  documents: ReadDocument[];
+  activeId: string | null;
+  activeIndex: number;  // -1 before the first section
+  onSelectDocument: (id: string) => void;
+  onSelectItem: (index: number) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSpell: () => void;
+  onClose: () => void;
+  onClear: () => void;
+}
+
+const DocumentPanel: React.FC<DocumentPanelProps> = ({
+  documents, activeId, activeIndex, onSelectDocument, onSelectItem, onPrevious, onNext, onSpell, onClose, onClear,
+}) => {
+  const active = documents.find(d => d.id === activeId) ?? null;
+  const items = active ? getDocumentItems(active) : [];
+  const others = documents.filter(d => d.id !== activeId);
+
+  return (
+    <div
+      className="absolute inset-0 z-[90] bg-black flex flex-col p-6"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-4">
+        <h2 className="text-4xl font-bold text-yellow-400">Documents</h2>
+        <button onClick={onClose} className="p-4 bg-gray-800 rounded-xl" aria-label="Close documents">
+          <span className="text-4xl">✕</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-6">
+        {!active ? (
+          <p className="text-2xl text-gray-400">No documents yet. In Reading mode, the guide files each document it reads here.</p>
+        ) : (
+          <section aria-label={active.title} className="flex flex-col gap-3">
+            <h3 className="text-3xl font-bold">{active.title}</h3>
+            <p className="text-lg text-gray-300">{new Date(active.createdAt).toLocaleString()} · {active.type}</p>
+            <ol className="flex flex-col gap-3">
+              {items.map((item, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => onSelectItem(index)}
+                    aria-current={index === activeIndex ? 'true' : undefined}
+                    className={`w-full text-left p-4 rounded-2xl border-2 ${index === activeIndex ? 'bg-blue-950 border-white' : item.kind === 'field' ? 'bg-yellow-950 border-yellow-700' : 'bg-gray-900 border-gray-600'}`}
+                  >
+                    <span className="block text-lg font-bold text-gray-300">
+                      {item.kind === 'section' ? item.section.heading : item.field.label}
+                    </span>
+                    <span className="block text-2xl leading-snug whitespace-pre-wrap">
+                      {item.kind === 'section' ? item.section.text : item.field.value}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {others.length > 0 && (
+          <section aria-label="Earlier documents" className="flex flex-col gap-3">
+            <h3 className="text-2xl font-bold text-gray-300">Earlier documents</h3>
+            {others.map(document => (
+              <button
+                key={document.id}
+                onClick={() => onSelectDocument(document.id)}
+                className="text-left p-4 bg-gray-900 rounded-2xl border border-gray-700 text-xl font-bold"
+              >
+                {document.title} · {new Date(document.createdAt).toLocaleString()}
+              </button>
+            ))}
+          </section>
+        )}
+      </div>
+
+      {active && (
+        <div className="grid grid-cols-3 gap-3 mt-4">
+          <button onClick={onPrevious} className="p-4 bg-gray-700 rounded-2xl font-bold text-xl border-2 border-gray-500">◀ Previous</button>
+          <button onClick={onSpell} className="p-4 bg-gray-700 rounded-2xl font-bold text-xl border-2 border-gray-500">Spell</button>
+          <button onClick={onNext} className="p-4 bg-gray-700 rounded-2xl font-bold text-xl border-2 border-gray-500">Next ▶</button>
+        </div>
+      )}
+
+      <button
+        onClick={onClear}
+        className="mt-4 bg-gray-800 text-white font-bold text-xl p-4 rounded-2xl border-2 border-gray-600"
+      >
+        Clear Documents
+      </button>
+    </div>
+  );
+};
+
+export default DocumentPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+
+export type EmergencyPhase = 'countdown' | 'confirm' | 'sending' | 'failed';
+
+interface EmergencyOverlayProps {
+  phase: EmergencyPhase;
+  secondsLeft: number;
+  onSendNow: () => void;
+  onCancel: () => void;
+}
+
+// Full-screen confirm-or-cancel view for the triple-tap emergency alert. Gestures keep working
+// underneath (triple tap sends now, double tap cancels); only the buttons stop propagation.
+const EmergencyOverlay: React.FC<EmergencyOverlayProps> = ({ phase, secondsLeft, onSendNow, onCancel }) => {
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <div className="absolute inset-0 z-[110] bg-red-900/95 flex flex-col items-center justify-center gap-8 p-6 text-center" role="alertdialog" aria-live="assertive" aria-label="Emergency alert">
+      {phase === 'countdown' && (
+        <>
+          <h2 className="text-4xl font-black text-white">Emergency Alert</h2>
+          <p className="text-8xl font-black text-white" aria-hidden="true">{secondsLeft}</p>
+          <p className="text-2xl font-bold text-white">Sending in {secondsLeft} seconds. Triple tap to send now, double tap to cancel.</p>
+        </>
+      )}
+      {phase === 'confirm' && (
+        <>
+          <h2 className="text-4xl font-black text-white">Tap to Send Alert</h2>
+          <p className="text-2xl font-bold text-white">Your phone needs a tap to open the share sheet. Tap anywhere to send, double tap to cancel.</p>
+        </>
+      )}
+      {phase === 'sending' && (
+        <>
+          <div className="w-16 h-16 border-4 border-white border-t-transparent rounded-full animate-spin" />
+          <h2 className="text-4xl font-black text-white">Sending Alert…</h2>
+        </>
+      )}
+      {phase === 'failed' && (
+        <>
+          <h2 className="text-4xl font-black text-white">Alert Not Sent</h2>
+          <p className="text-2xl font-bold text-white">Tap Send Now to try again.</p>
+        </>
+      )}
+
+      {phase !== 'sending' && (
+        <div className="grid grid-cols-2 gap-4 w-full max-w-md" onMouseDown={stop} onTouchStart={stop} onTouchEnd={stop}>
+          <button onClick={onCancel} className="p-6 rounded-2xl font-black text-2xl bg-gray-800 text-white border-4 border-white">
+            Cancel
+          </button>
+          <button onClick={onSendNow} className="p-6 rounded-2xl font-black text-2xl bg-white text-red-800 border-4 border-red-950">
+            Send Now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyOverlay;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { EmergencyContact, EmergencyNotifierKind } from '../types';
+import { EMERGENCY_NOTIFIERS } from '../constants';
+
+interface EmergencySettingsProps {
+  contacts: EmergencyContact[];
+  notifier: EmergencyNotifierKind;
+  webhookUrl: string;
+  onContactsChange: (contacts: EmergencyContact[]) => void;
+  onNotifierChange: (notifier: EmergencyNotifierKind) => void;
+  onWebhookUrlChange: (url: string) => void;
+}
+
+const NOTIFIER_LABELS: Record<EmergencyNotifierKind, string> = {
+  share: 'Share',
+  sms: 'Text Message',
+  webhook: 'Webhook',
+};
+
+const fieldClass = "w-full p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none";
+
+const EmergencySettings: React.FC<EmergencySettingsProps> = ({
+  contacts,
+  notifier,
+  webhookUrl,
+  onContactsChange,
+  onNotifierChange,
+  onWebhookUrlChange,
+}) => {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const canAdd = name.trim().length > 0 && /\d/.test(phone);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="font-bold text-2xl">Emergency</label>
+
+      {contacts.length > 0 && (
+        <ul className="flex flex-col gap-3" aria-label="Emergency contacts">
+          {contacts.map(c => (
+            <li key={c.id} className="flex items-center justify-between gap-3 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+              <span className="font-bold text-xl">{c.name} · {c.phone}</span>
+              <button onClick={() => onContactsChange(contacts.filter(x => x.id !== c.id))} className="p-3 bg-red-900 rounded-xl font-bold">
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="flex flex-col gap-2"
+        aria-label="Add emergency contact"
+        onSubmit={e => {
+          e.preventDefault();
+          if (!canAdd) return;
+          onContactsChange([...contacts, { id: `contact-${Date.now()}`, name: name.trim(), phone: phone.trim() }]);
+          setName('');
+          setPhone('');
+        }}
+      >
+        <input className={fieldClass} value={name} onChange={e => setName(e.target.value)} placeholder="Contact name" aria-label="Contact name" />
+        <input className={fieldClass} value={phone} onChange={e => setPhone(e.target.value)} placeholder="Phone number" aria-label="Phone number" type="tel" />
+        <button type="submit" disabled={!canAdd} className={`p-4 rounded-xl font-bold text-xl border-2 ${canAdd ? 'bg-blue-900 border-white' : 'bg-gray-800 border-gray-700 opacity-50'}`}>
+          + Add Contact
+        </button>
+      </form>
+
+      <span className="font-bold text-xl">Send alerts by</span>
+      <div className="grid grid-cols-3 gap-2" role="group" aria-label="Send alerts by">
+        {EMERGENCY_NOTIFIERS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => onNotifierChange(kind)}
+            aria-pressed={notifier === kind}
+            className={`p-4 rounded-xl font-bold text-lg border-4 ${notifier === kind ? 'bg-blue-900 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+          >
+            {NOTIFIER_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+      {notifier === 'webhook' && (
+        <label className="flex flex-col gap-2 font-bold text-xl">
+          Webhook URL
+          <input className={fieldClass} type="url" value={webhookUrl} onChange={e => onWebhookUrlChange(e.target.value.trim())} placeholder="https://..." />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default EmergencySettings;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { FINDER_SUGGESTIONS } from '../constants';
+import { MessageKey, t } from '../utils/i18n';
+
+interface FinderPanelProps {
+  onFind: (target: string) => void;
+  onClose: () => void;
+}
+
+const FinderPanel: React.FC<FinderPanelProps> = ({ onFind, onClose }) => {
+  const [custom, setCustom] = useState('');
+
+  const submitCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = custom.trim();
+    if (target) onFind(target);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-[90] bg-black flex flex-col p-6"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-4">
+        <h2 className="text-4xl font-bold text-yellow-400">Find an Item</h2>
+        <button onClick={onClose} className="p-4 bg-gray-800 rounded-xl" aria-label="Close finder">
+          <span className="text-4xl">✕</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-6">
+        <p className="text-2xl text-gray-300">{t('finder.pick')}</p>
+        <div className="grid grid-cols-2 gap-3">
+          {FINDER_SUGGESTIONS.map(item => {
+            const label = t(`finder.item.${item}` as MessageKey);
+            return (
+              <button
+                key={item}
+                onClick={() => onFind(label)}
+                className="p-6 bg-gray-900 rounded-2xl border-2 border-gray-600 text-3xl font-bold capitalize"
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+
+        <form onSubmit={submitCustom} className="flex flex-col gap-3">
+          <label htmlFor="finder-custom" className="text-xl font-bold text-gray-300">Something else</label>
+          <input
+            id="finder-custom"
+            type="text"
+            value={custom}
+            onChange={e => setCustom(e.target.value)}
+            className="p-4 bg-gray-900 text-white text-2xl rounded-2xl border-2 border-gray-600"
+          />
+          <button
+            type="submit"
+            disabled={!custom.trim()}
+            className="p-4 bg-yellow-400 text-black rounded-2xl font-black text-2xl border-4 border-black disabled:opacity-50"
+          >
+            Find It
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default FinderPanel;
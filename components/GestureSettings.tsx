@@ -0,0 +1,85 @@
+import React from 'react';
+import { GestureAction, GestureBindings, GestureName, GestureTimings } from '../types';
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  DEFAULT_GESTURE_TIMINGS,
+  GESTURE_ACTION_LABELS,
+  GESTURE_LABELS,
+  RELAXED_GESTURE_TIMINGS,
+} from '../constants';
+import { bindingFor } from '../utils/gestureRecognizer';
+
+interface GestureSettingsProps {
+  bindings: GestureBindings;
+  timings: GestureTimings;
+  onBindingsChange: (bindings: GestureBindings) => void;
+  onTimingsChange: (timings: GestureTimings) => void;
+}
+
+const TIMING_FIELDS: { key: keyof GestureTimings; label: string; unit: 'ms' | 'px'; min: number; max: number; step: number }[] = [
+  { key: 'tapMaxDuration', label: 'Longest tap', unit: 'ms', min: 100, max: 1500, step: 50 },
+  { key: 'multiTapWindow', label: 'Gap between taps', unit: 'ms', min: 150, max: 1500, step: 50 },
+  { key: 'tapMaxMovement', label: 'Finger drift allowed in a tap', unit: 'px', min: 5, max: 80, step: 5 },
+  { key: 'longPressDuration', label: 'Long press', unit: 'ms', min: 400, max: 3000, step: 100 },
+  { key: 'swipeMinDistance', label: 'Shortest swipe', unit: 'px', min: 40, max: 300, step: 10 },
+  { key: 'swipeMaxDuration', label: 'Slowest swipe', unit: 'ms', min: 200, max: 2000, step: 50 },
+  { key: 'holdDuration', label: 'Hold after swipe', unit: 'ms', min: 300, max: 3000, step: 100 },
+  { key: 'edgeWidth', label: 'Edge area', unit: 'px', min: 10, max: 80, step: 2 },
+];
+
+const fieldClass = "w-full p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none";
+
+const GestureSettings: React.FC<GestureSettingsProps> = ({ bindings, timings, onBindingsChange, onTimingsChange }) => {
+  const gestures = Object.keys(GESTURE_LABELS) as GestureName[];
+  const actions = Object.keys(GESTURE_ACTION_LABELS) as GestureAction[];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="font-bold text-2xl">Gestures</label>
+      {gestures.map(gesture => (
+        <label key={gesture} className="flex flex-col gap-2 font-bold text-xl">
+          {GESTURE_LABELS[gesture]}
+          <select
+            className={fieldClass}
+            value={bindingFor(bindings, gesture)}
+            onChange={e => onBindingsChange({ ...DEFAULT_GESTURE_BINDINGS, ...bindings, [gesture]: e.target.value as GestureAction })}
+          >
+            {actions.map(action => (
+              <option key={action} value={action}>{GESTURE_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      <button onClick={() => onBindingsChange(DEFAULT_GESTURE_BINDINGS)} className="p-4 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+        Restore Default Gestures
+      </button>
+
+      <label className="font-bold text-2xl">Gesture Timing</label>
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={() => onTimingsChange(DEFAULT_GESTURE_TIMINGS)} className="p-4 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+          Standard
+        </button>
+        <button onClick={() => onTimingsChange(RELAXED_GESTURE_TIMINGS)} className="p-4 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+          Relaxed
+        </button>
+      </div>
+      {TIMING_FIELDS.map(field => (
+        <label key={field.key} className="flex flex-col gap-2 font-bold text-xl">
+          {field.label}: {timings[field.key]} {field.unit}
+          <input
+            className="w-full h-10 accent-yellow-400"
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={timings[field.key]}
+            aria-valuetext={`${timings[field.key]} ${field.unit === 'ms' ? 'milliseconds' : 'pixels'}`}
+            onChange={e => onTimingsChange({ ...timings, [field.key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default GestureSettings;
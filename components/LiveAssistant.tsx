@@ -1,24 +1,73 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { AppMode, AppSettings, AppState } from '../types';
-import { MODEL_NAME, SYSTEM_INSTRUCTIONS, AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT, TOOLS } from '../constants';
-import { createPcmBlob, base64ToUint8Array, decodeAudioData, blobToBase64, playBeep, announce, vibrate } from '../utils/audioUtils';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { AppMode, AppSettings, AppState, AudioStats, ConnectionStatus, FrameStats, GeoPosition, HazardSeverity, LabeledMemory, MemoryCaptureRequest, MemoryKind, ModeDefinition, ModeId, NavigationDestination, ReadDocument, ScanResult, TranscriptEvent } from '../types';
+import { MODEL_NAME, AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT, AUDIO_CAPTURE_FRAME_MS, HAZARD_ALERTS, VERBOSITY_LEVELS, FINDER_HEARTBEAT_MS, FINDER_REPORT_TIMEOUT_MS, MEMORY_IMAGE_WIDTH, MEMORY_REFERENCE_LIMIT, LOW_BANDWIDTH_HEARTBEAT_SCALE } from '../constants';
+import { createPcmBlob, base64ToUint8Array, blobToBase64, playBeep, playEarcons, announce, vibrate } from '../utils/audioUtils';
+import { LiveSession, LiveTransport, createDefaultTransport, createReplayTransport } from '../utils/liveTransport';
+import { SessionRecorder, SessionRecording, createSessionRecorder } from '../utils/sessionRecorder';
+import { startOfflineGuidance } from '../utils/offlineGuidance';
+import { createTools, findMode } from '../utils/modeRegistry';
+import { languageInstruction, t } from '../utils/i18n';
+import { createFrameStreamController, resolveFramePolicy } from '../utils/framePolicy';
+import { runGuidedPageCapture } from '../utils/pageCapture';
+import { parseSubmittedDocument } from '../utils/documents';
+import { startFramingAssistant } from '../utils/framingAssistant';
+import { ObjectFinder, parseTargetReport, startObjectFinder } from '../utils/objectFinder';
+import { computeEmbedding, describeMemory, saveMemory, selectReferenceMemories } from '../utils/memories';
+import { Scanner, createScanner, describeScanForModel } from '../utils/scanner';
+import { UsageMeter } from '../utils/usageMeter';
+import { createSessionContext } from '../utils/sessionContext';
+import { GeolocationProvider, distanceMeters } from '../utils/geolocation';
+import { describeNavigationContext } from '../utils/places';
+import { FrameSnapshotBuffer } from '../utils/emergency';
+import { SpatialOutput, createDirectionParser, createSpatialOutput } from '../utils/spatialAudio';
+import { MicGate, createMicGate } from '../utils/voiceActivity';
+import { CaptureNode, PlaybackNode, createCaptureNode, createLatencyMeter, createPlaybackNode, loadAudioPipeline } from '../utils/audioPipeline';
 
 interface LiveAssistantProps {
-  mode: AppMode;
+  mode: ModeId;
+  modes: ModeDefinition[];
   appState: AppState;
   settings: AppSettings;
-  onStatusChange: (status: 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error') => void;
+  onStatusChange: (status: ConnectionStatus) => void;
   onError: (error: string) => void;
-  onModeChange: (mode: AppMode) => void;
+  onModeChange: (mode: ModeId) => void;
   onRetryUpdate: (msg: string) => void;
   onTogglePause: () => void;
   onOpenSettings: () => void;
   actionTrigger: number;
+  pageCaptureTrigger?: number;
+  geolocation?: GeolocationProvider;
+  destination?: NavigationDestination | null;
+  // Receives every frame sent so an emergency alert can include recent camera snapshots
+  frameSnapshots?: FrameSnapshotBuffer;
+  transport?: LiveTransport;
+  replay?: SessionRecording | null;
+  onTranscript?: (event: TranscriptEvent) => void;
+  onFrameStats?: (stats: FrameStats) => void;
+  onAudioStats?: (stats: AudioStats) => void;
+  // Push-to-talk: the mic is open while this is true, whatever the mic mode
+  talkOpen?: boolean;
+  onSpeakingChange?: (speaking: boolean) => void;
+  onDocument?: (document: ReadDocument) => void;
+  // The item being searched for; the guide may also start, switch or end a search itself
+  findTarget?: string | null;
+  onFindTargetChange?: (target: string | null) => void;
+  // Remembered things and people; a capture request saves the current picture under a label
+  memories?: LabeledMemory[];
+  memoryCapture?: MemoryCaptureRequest | null;
+  onMemorySaved?: (memory: LabeledMemory) => void;
+  // Scanning sub-mode: barcodes and banknotes are checked on every frame, not just the ones sent
+  scanning?: boolean;
+  onScanResult?: (result: ScanResult) => void;
+  // Counts what is streamed each day; low bandwidth is set once a daily budget is used up
+  usageMeter?: UsageMeter;
+  lowBandwidth?: boolean;
 }
 
 const LiveAssistant: React.FC<LiveAssistantProps> = ({ 
     mode, 
+    modes,
     appState, 
     settings, 
     onStatusChange, 
@@ -27,7 +76,28 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
     onRetryUpdate, 
     onTogglePause,
     onOpenSettings,
-    actionTrigger
+    actionTrigger,
+    pageCaptureTrigger = 0,
+    geolocation,
+    destination = null,
+    frameSnapshots,
+    transport,
+    replay,
+    onTranscript,
+    onFrameStats,
+    onAudioStats,
+    talkOpen = false,
+    onSpeakingChange,
+    onDocument,
+    findTarget = null,
+    onFindTargetChange,
+    memories = [],
+    memoryCapture = null,
+    onMemorySaved,
+    scanning = false,
+    onScanResult,
+    usageMeter,
+    lowBandwidth = false
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -36,15 +106,31 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
   // Audio Contexts
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const playbackRef = useRef<PlaybackNode | null>(null);
+  // Places the voice in the direction it is talking about
+  const spatialOutputRef = useRef<SpatialOutput | null>(null);
+  const [directionParser] = useState(createDirectionParser);
   
   // Session Management
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const transportRef = useRef<LiveTransport | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Carries the conversation across reconnects, like the recorder it spans the session lifetime
+  const [sessionContext] = useState(createSessionContext);
+  const [replayFrame, setReplayFrame] = useState<string | null>(null);
   const frameIntervalRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const captureRef = useRef<CaptureNode | null>(null);
+  // Decides which mic frames are uploaded (always / speech only / push-to-talk)
+  const micGateRef = useRef<MicGate | null>(null);
+  const talkOpenRef = useRef(talkOpen);
+  const [latencyMeter] = useState(() => createLatencyMeter(
+      () => inputAudioContextRef.current?.baseLatency ?? 0,
+      () => {
+          const ctx = outputAudioContextRef.current;
+          return ctx ? ctx.baseLatency + (ctx.outputLatency || 0) : 0;
+      },
+  ));
   
   // State Refs (Crucial for access inside closures/callbacks)
   const appStateRef = useRef(appState);
@@ -54,13 +140,54 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
 
   useEffect(() => { appStateRef.current = appState; }, [appState]);
   useEffect(() => { modeRef.current = mode; }, [mode]);
+  const modesRef = useRef(modes);
+  useEffect(() => { modesRef.current = modes; }, [modes]);
   useEffect(() => { settingsRef.current = settings; }, [settings]);
+  useEffect(() => { transportRef.current = transport ?? null; }, [transport]);
+  useEffect(() => {
+      talkOpenRef.current = talkOpen;
+      micGateRef.current?.setTalkOpen(talkOpen);
+  }, [talkOpen]);
+  const replayRef = useRef(replay);
+  useEffect(() => { replayRef.current = replay; }, [replay]);
   
   // State Guards
   const isMountingRef = useRef(false);
   const cleanupInProgressRef = useRef(false);
   const lastFrameDataRef = useRef<Uint8ClampedArray | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
+  const lastStatsAtRef = useRef<number>(0);
+  // Frame streaming holds off while a guided page capture owns the camera
+  const capturingRef = useRef(false);
+  // Set when a text prompt goes out; the first model output after it gives a round-trip sample
+  const promptSentAtRef = useRef<number | null>(null);
+  // Object finder: the beacon follows the item between reports, anchored on the thumbnail of
+  // the last frame sent, which is the one the guide's box refers to
+  const findTargetRef = useRef(findTarget);
+  const finderRef = useRef<ObjectFinder | null>(null);
+  const finderNudgeRef = useRef<number | null>(null);
+  const lastReportAtRef = useRef(0);
+  const lastSentThumbRef = useRef<ImageData | null>(null);
+  // Remembered things and people, and which of them this session has already been shown
+  const memoriesRef = useRef(memories);
+  const sentMemoryIdsRef = useRef(new Set<string>());
+  // On-device barcode, QR and banknote detectors, created on first use
+  const scannerRef = useRef<Scanner | null>(null);
+  const scanningRef = useRef(scanning);
+  const usageMeterRef = useRef(usageMeter);
+  const lowBandwidthRef = useRef(lowBandwidth);
+  useEffect(() => { usageMeterRef.current = usageMeter; }, [usageMeter]);
+  useEffect(() => { lowBandwidthRef.current = lowBandwidth; }, [lowBandwidth]);
+  const [frameController] = useState(() => createFrameStreamController(
+      () => {
+          const policy = resolveFramePolicy(findMode(modesRef.current, modeRef.current));
+          const { heartbeatScale } = VERBOSITY_LEVELS[settingsRef.current.verbosity];
+          const heartbeatInterval = Math.round(policy.heartbeatInterval * heartbeatScale * (lowBandwidthRef.current ? LOW_BANDWIDTH_HEARTBEAT_SCALE : 1));
+          // The guide needs a steady stream of pictures to keep reporting where the item is
+          return { ...policy, heartbeatInterval: findTargetRef.current ? Math.min(heartbeatInterval, FINDER_HEARTBEAT_MS) : heartbeatInterval };
+      },
+      () => settingsRef.current.dataSaver || lowBandwidthRef.current,
+  ));
 
   // Reconnection
   const retryCountRef = useRef(0);
@@ -68,20 +195,33 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Offline fallback (NAVIGATION only) once retries are exhausted
+  const offlineStopRef = useRef<(() => void) | null>(null);
+  // The fallback is announced once per outage, not on every failed way back
+  const offlineAnnouncedRef = useRef(false);
+  const OFFLINE_PROBE_INTERVAL = 15000;
+  const OFFLINE_PROBE_TIMEOUT = 10000;
+
+  // On-device aiming tones for modes with a framing target
+  const framingStopRef = useRef<(() => void) | null>(null);
+
+  // Location context (NAVIGATION only): at most every MIN interval, and only after real movement
+  // unless MAX interval has passed
+  const destinationRef = useRef(destination);
+  useEffect(() => { destinationRef.current = destination; }, [destination]);
+  const LOCATION_MIN_INTERVAL = 10000;
+  const LOCATION_MAX_INTERVAL = 60000;
+  const LOCATION_MIN_MOVE_M = 15;
+
   const isActive = appState === 'running' || appState === 'starting' || appState === 'paused';
   const isPaused = appState === 'paused';
 
   // Helper to stop all audio
   const stopAudioOutput = useCallback(() => {
-    audioSourcesRef.current.forEach(source => {
-      try { 
-          source.stop(); 
-          source.disconnect();
-      } catch (e) {}
-    });
-    audioSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-  }, []);
+    playbackRef.current?.clear();
+    spatialOutputRef.current?.setDirection(null);
+    directionParser.reset();
+  }, [directionParser]);
 
   // Comprehensive Cleanup function
   const cleanup = useCallback(async () => {
@@ -90,23 +230,34 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
     console.log("Stopping LiveAssistant...");
 
     if (frameIntervalRef.current) {
-      window.clearInterval(frameIntervalRef.current);
+      window.clearTimeout(frameIntervalRef.current);
       frameIntervalRef.current = null;
     }
     
     if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
     if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
+    if (offlineStopRef.current) {
+        offlineStopRef.current();
+        offlineStopRef.current = null;
+    }
+    if (framingStopRef.current) {
+        framingStopRef.current();
+        framingStopRef.current = null;
+    }
+    stopFinder();
 
     // Stop Audio Output Immediately
     stopAudioOutput();
 
-    if (processorRef.current) {
-        try { processorRef.current.disconnect(); } catch(e) {}
-        processorRef.current = null;
+    if (captureRef.current) {
+        captureRef.current.disconnect();
+        captureRef.current = null;
     }
-    if (sourceRef.current) {
-        try { sourceRef.current.disconnect(); } catch(e) {}
-        sourceRef.current = null;
+    micGateRef.current?.close();
+    micGateRef.current = null;
+    if (playbackRef.current) {
+        playbackRef.current.disconnect();
+        playbackRef.current = null;
     }
 
     if (streamRef.current) {
@@ -131,45 +282,303 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
       await inputAudioContextRef.current.close().catch(() => {});
       inputAudioContextRef.current = null;
     }
+    spatialOutputRef.current = null;
     if (outputAudioContextRef.current) {
       await outputAudioContextRef.current.close().catch(() => {});
       outputAudioContextRef.current = null;
     }
     
     lastFrameDataRef.current = null;
+    lastSentThumbRef.current = null;
+    sentMemoryIdsRef.current.clear();
     cleanupInProgressRef.current = false;
   }, [stopAudioOutput]);
 
+  // Takes a picture of what the camera sees now and files it on the device under the label.
+  // The session has just seen this view, so it counts as already shown.
+  const captureMemory = useCallback(async (label: string, kind: MemoryKind): Promise<LabeledMemory | null> => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!video || !canvas || !ctx || video.readyState < 2 || appStateRef.current !== 'running') return null;
+        const width = Math.min(MEMORY_IMAGE_WIDTH, video.videoWidth || MEMORY_IMAGE_WIDTH);
+        canvas.width = width;
+        canvas.height = Math.round(width * (video.videoHeight / video.videoWidth || 0.75));
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+        if (!blob) return null;
+        const image = await blobToBase64(blob);
+
+        const diffCtx = ensureDiffCanvas().getContext('2d', { willReadFrequently: true });
+        let embedding: number[] | undefined;
+        if (diffCtx) {
+            diffCtx.drawImage(video, 0, 0, 64, 64);
+            embedding = computeEmbedding(diffCtx.getImageData(0, 0, 64, 64));
+        }
+        const memory = await saveMemory(label, kind, image, embedding);
+        sentMemoryIdsRef.current.add(memory.id);
+        onMemorySaved?.(memory);
+        return memory;
+  }, [onMemorySaved]);
+
+  const sendReferences = useCallback((references: LabeledMemory[], intro: string) => {
+        references.forEach(m => {
+            sentMemoryIdsRef.current.add(m.id);
+            usageMeterRef.current?.recordFrame(m.image.length);
+        });
+        sessionPromiseRef.current?.then(session => {
+            if (!isMountedRef.current) return;
+            session.sendClientContent({
+                turns: [{
+                    role: 'user',
+                    parts: [
+                        { text: intro },
+                        ...references.flatMap(m => [{ text: describeMemory(m) }, { inlineData: { mimeType: 'image/jpeg', data: m.image } }]),
+                    ],
+                }],
+                turnComplete: false,
+            });
+        }).catch(() => {});
+  }, []);
+
+  // The best-matching remembered things and people for this mode that the session has not seen yet
+  const sendMemoryReferences = useCallback((definition: ModeDefinition) => {
+        if (!settingsRef.current.shareMemories || replayRef.current) return;
+        const thumbnail = lastSentThumbRef.current;
+        const view = thumbnail ? computeEmbedding(thumbnail) : null;
+        const fresh = selectReferenceMemories(memoriesRef.current, definition, view, MEMORY_REFERENCE_LIMIT)
+            .filter(m => !sentMemoryIdsRef.current.has(m.id));
+        if (fresh.length === 0) return;
+        sendReferences(fresh, 'REFERENCE PICTURES: These show the user\'s own things and people they know, taken on their phone. Do not describe them now; recognise them in the camera view from here on and call them by these names.');
+  }, [sendReferences]);
+
   // Handle Mode Switching dynamically
   useEffect(() => {
     if (!sessionPromiseRef.current || !isActive || cleanupInProgressRef.current || isPaused) return;
     
     sessionPromiseRef.current.then(session => {
-        let instruction = SYSTEM_INSTRUCTIONS[mode];
+        const definition = findMode(modesRef.current, mode);
+        let instruction = definition.systemPrompt;
         if (settings.safeMode) {
              instruction += " WARNING: SAFE MODE ACTIVE. BE EXTRA CAUTIOUS AND SUPPORTIVE.";
         }
+        const verbosity = VERBOSITY_LEVELS[settingsRef.current.verbosity].instruction;
+        if (verbosity) instruction += ` ${verbosity}`;
+        const language = languageInstruction(settingsRef.current.language, definition, settingsRef.current.translateReading);
+        if (language) instruction += ` ${language}`;
         
+        promptSentAtRef.current = performance.now();
+        session.sendRealtimeInput({
+            text: `CONTEXT UPDATE: The user has switched to ${definition.label} mode (${definition.id}). Please adopt your caring, warm ${definition.label} persona immediately. ${instruction}`
+        });
+        sendMemoryReferences(definition);
+    }).catch(() => {});
+  }, [mode, isActive, isPaused, settings.safeMode, sendMemoryReferences]);
+
+  // Verbosity changes apply to the running session without a reconnect
+  const verbosityRef = useRef(settings.verbosity);
+  useEffect(() => {
+    if (verbosityRef.current === settings.verbosity) return;
+    verbosityRef.current = settings.verbosity;
+    if (!sessionPromiseRef.current || !isActive || isPaused) return;
+
+    const level = VERBOSITY_LEVELS[settings.verbosity];
+    sessionPromiseRef.current.then(session => {
         session.sendRealtimeInput({
-            text: `CONTEXT UPDATE: The user has switched to ${mode}. Please adopt your caring, warm ${mode} persona immediately. ${instruction}`
+            text: `CONTEXT UPDATE: The user changed how much you speak to ${level.label}. ${level.instruction || 'Return to the persona and pacing of your mode instructions.'}`
         });
     }).catch(() => {});
-  }, [mode, isActive, isPaused, settings.safeMode]);
+  }, [settings.verbosity, isActive, isPaused]);
+
+  // Likewise for the language and the Reading-mode translation toggle
+  const languageRef = useRef(`${settings.language}:${settings.translateReading}`);
+  useEffect(() => {
+    const key = `${settings.language}:${settings.translateReading}`;
+    if (languageRef.current === key) return;
+    languageRef.current = key;
+    if (!sessionPromiseRef.current || !isActive || isPaused) return;
+
+    const instruction = languageInstruction(settings.language, findMode(modesRef.current, modeRef.current), settings.translateReading);
+    sessionPromiseRef.current.then(session => {
+        session.sendRealtimeInput({
+            text: `CONTEXT UPDATE: The user changed their language settings. ${instruction || 'Speak English and read text in the language it is written in.'}`
+        });
+    }).catch(() => {});
+  }, [settings.language, settings.translateReading, isActive, isPaused]);
 
   // Handle Explicit Trigger (Tap on active mode)
   useEffect(() => {
     if (actionTrigger === 0 || !sessionPromiseRef.current || !isActive || isPaused) return;
 
     sessionPromiseRef.current.then(session => {
-        let prompt = `INTERACTION: The user performed a SINGLE TAP gesture.`;
-        if (mode === AppMode.NAVIGATION) prompt += " Tell them exactly what is immediately in front of them or update them on the path.";
-        if (mode === AppMode.READING) prompt += " Read any visible text immediately.";
-        if (mode === AppMode.OBJECT) prompt += " Describe the scene or objects in detail.";
-        
+        const prompt = `INTERACTION: The user performed a SINGLE TAP gesture. ${findMode(modesRef.current, mode).tapPrompt}`;
+        promptSentAtRef.current = performance.now();
         session.sendRealtimeInput({ text: prompt });
     }).catch(() => {});
   }, [actionTrigger, isActive, isPaused, mode]);
 
+  // Sends position, heading and the way to the destination while navigating. Changing the
+  // destination restarts the watch, so the new target goes out with the next fix.
+  useEffect(() => {
+    if (!geolocation || !isActive || isPaused || mode !== AppMode.NAVIGATION || replay) return;
+    let lastSent: { position: GeoPosition; at: number } | null = null;
+    let reportedError = false;
+
+    return geolocation.watch(position => {
+        const now = Date.now();
+        if (lastSent) {
+            const elapsed = now - lastSent.at;
+            if (elapsed < LOCATION_MIN_INTERVAL) return;
+            if (elapsed < LOCATION_MAX_INTERVAL && distanceMeters(lastSent.position, position) < LOCATION_MIN_MOVE_M) return;
+        }
+        if (!sessionPromiseRef.current) return;
+        lastSent = { position, at: now };
+        sessionPromiseRef.current.then(session => {
+            if (isMountedRef.current && appStateRef.current === 'running') {
+                session.sendRealtimeInput({ text: describeNavigationContext(position, destinationRef.current) });
+            }
+        }).catch(() => {});
+    }, message => {
+        console.warn("Location unavailable:", message);
+        // Only worth interrupting for when the user is relying on a destination
+        if (!reportedError && destinationRef.current) announce(message);
+        reportedError = true;
+    });
+  }, [geolocation, isActive, isPaused, mode, destination, replay]);
+
+  // Why a page capture can't run right now, as told to the guide; null when it can
+  const pageCaptureBlocker = (): string | null => {
+      if (capturingRef.current) return 'A page capture is already in progress.';
+      if (appStateRef.current !== 'running') return 'Could not start: the camera is paused.';
+      if (!videoRef.current || !sessionPromiseRef.current) return 'Could not start: the camera is not available.';
+      return null;
+  };
+
+  const runPageCapture = useCallback(async () => {
+      const video = videoRef.current;
+      if (!video || pageCaptureBlocker()) return;
+      capturingRef.current = true;
+      stopAudioOutput();
+      // A capture that ends without images must say so, or the guide keeps waiting for them
+      const sendNoImages = (reason: string) => sessionPromiseRef.current?.then(session => {
+          if (isMountedRef.current) session.sendRealtimeInput({ text: `PAGE CAPTURE: ${reason} No images are coming. Carry on as before.` });
+      }).catch(() => {});
+      try {
+          const track = streamRef.current?.getVideoTracks()[0];
+          const result = await runGuidedPageCapture(video, track, () => !isMountedRef.current || appStateRef.current !== 'running');
+          if (!result) {
+              sendNoImages('The capture was cancelled.');
+              return;
+          }
+          if (!sessionPromiseRef.current) return;
+
+          const order = result.direction === 'down' ? 'top to bottom' : 'left to right';
+          const description = result.stitched
+              ? `one image stitched from ${result.shotCount} overlapping shots`
+              : result.shotCount > 1
+                  ? `${result.shotCount} overlapping shots in order, ${order}`
+                  : 'one high-resolution photo';
+          result.images.forEach(image => {
+              recorderRef.current?.recordFrame(image);
+              usageMeterRef.current?.recordFrame(image.length);
+          });
+
+          const session = await sessionPromiseRef.current;
+          if (!isMountedRef.current) return;
+          promptSentAtRef.current = performance.now();
+          session.sendClientContent({
+              turns: [{
+                  role: 'user',
+                  parts: [
+                      { text: `PAGE CAPTURE: This is ${description} of a single document. Identify what it is, then read it completely and naturally. Mention anything that is still unreadable.` },
+                      ...result.images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })),
+                  ],
+              }],
+              turnComplete: true,
+          });
+          onTranscript?.({ type: 'tool', text: `Captured page (${result.shotCount} ${result.shotCount === 1 ? 'shot' : 'shots'}${result.stitched ? ', stitched' : ''}).` });
+      } catch (err) {
+          console.warn("Page capture failed", err);
+          announce(t('capture.failed'));
+          sendNoImages('The capture failed.');
+      } finally {
+          capturingRef.current = false;
+      }
+  }, [stopAudioOutput, onTranscript]);
+
+  // Handle "Capture Page" requests from the UI. Each press is handled once, when it arrives.
+  const handledCaptureTriggerRef = useRef(pageCaptureTrigger);
+  useEffect(() => {
+    if (pageCaptureTrigger === handledCaptureTriggerRef.current) return;
+    handledCaptureTriggerRef.current = pageCaptureTrigger;
+    if (!isActive || isPaused) return;
+    runPageCapture();
+  }, [pageCaptureTrigger, isActive, isPaused, runPageCapture]);
+
+  // Renamed or deleted memories the session has already seen are corrected; new ones wait for
+  // the next mode change, or are sent straight away when captured here
+  useEffect(() => {
+    const previous = memoriesRef.current;
+    memoriesRef.current = memories;
+    if (!sessionPromiseRef.current || !isActive) return;
+    const changes: string[] = [];
+    previous.forEach(old => {
+        if (!sentMemoryIdsRef.current.has(old.id)) return;
+        const current = memories.find(m => m.id === old.id);
+        if (!current) {
+            sentMemoryIdsRef.current.delete(old.id);
+            changes.push(`Forget the reference picture of "${old.label}".`);
+        } else if (current.label !== old.label) {
+            changes.push(`"${old.label}" is now called "${current.label}".`);
+        }
+    });
+    if (changes.length === 0) return;
+    sessionPromiseRef.current.then(session => {
+        session.sendRealtimeInput({ text: `CONTEXT UPDATE: The user changed what you remember for them. ${changes.join(' ')}` });
+    }).catch(() => {});
+  }, [memories, isActive]);
+
+  // Each capture request is handled once, when it arrives
+  const handledMemoryCaptureRef = useRef(memoryCapture);
+  useEffect(() => {
+    if (memoryCapture === handledMemoryCaptureRef.current) return;
+    handledMemoryCaptureRef.current = memoryCapture;
+    if (!memoryCapture || !isActive) return;
+    captureMemory(memoryCapture.label, memoryCapture.kind).then(memory => {
+        if (!memory) {
+            announce(t('memory.failed'));
+            return;
+        }
+        announce(t('memory.saved', { label: memory.label }));
+        if (settingsRef.current.shareMemories) {
+            sendReferences([memory], 'REFERENCE PICTURE: The user just taught you this on their phone. Do not describe it now; recognise it from here on.');
+        }
+    }).catch(err => {
+        console.warn("Failed to remember picture", err);
+        announce(t('memory.failed'));
+    });
+  }, [memoryCapture, isActive, captureMemory, sendReferences]);
+
+  // The guide is asked to leave scan results to the phone, which reads them out itself
+  useEffect(() => {
+    if (scanningRef.current === scanning) return;
+    scanningRef.current = scanning;
+    if (scanning) {
+        ensureScanner().ready().then(available => {
+            if (!available && scanningRef.current) announce(t('scan.unsupported'));
+        });
+    }
+    if (!sessionPromiseRef.current || !isActive) return;
+    lastFrameTimeRef.current = 0;
+    sessionPromiseRef.current.then(session => {
+        session.sendRealtimeInput({
+            text: scanning
+                ? 'SCAN MODE: The phone is now reading barcodes, QR codes and banknotes itself and speaks the results. Stay quiet unless the user asks you something.'
+                : 'SCAN MODE OFF: The phone has stopped scanning. Carry on as before.'
+        });
+    }).catch(() => {});
+  }, [scanning, isActive]);
+
   const connect = async (isRetry = false) => {
       // WAIT FOR CLEANUP TO FINISH if it's running. This prevents race conditions when restarting quickly.
       if (cleanupInProgressRef.current) {
@@ -191,22 +600,40 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
       if (!isStillActive || !isMountedRef.current) return;
       
       isMountingRef.current = true;
+      if (!isRetry) offlineAnnouncedRef.current = false;
       if (isRetry) onStatusChange('reconnecting');
       else onStatusChange('connecting');
 
       try {
-        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: AUDIO_SAMPLE_RATE_INPUT });
-        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT });
+        // Both contexts run at the device rate; the worklets resample to and from the model's rates
+        const inputCtx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const outputCtx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+        inputAudioContextRef.current = inputCtx;
+        outputAudioContextRef.current = outputCtx;
+        await Promise.all([loadAudioPipeline(inputCtx), loadAudioPipeline(outputCtx)]);
+        spatialOutputRef.current = createSpatialOutput(outputCtx, settingsRef.current.spatialAudio);
+        const playback = createPlaybackNode(outputCtx, {
+            onStart: () => latencyMeter.playbackStarted(),
+            onStats: stats => onAudioStats?.({
+                inputRate: inputCtx.sampleRate,
+                outputRate: outputCtx.sampleRate,
+                frameMs: AUDIO_CAPTURE_FRAME_MS,
+                ...stats,
+                latencyMs: latencyMeter.latencyMs(),
+            }),
+        });
+        playback.output.connect(spatialOutputRef.current.input);
+        playback.setRate(settingsRef.current.speechRate);
+        playbackRef.current = playback;
         
         const mediaStream = await navigator.mediaDevices.getUserMedia({ 
             audio: {
                 echoCancellation: true,
-                noiseSuppression: true,
-                sampleRate: AUDIO_SAMPLE_RATE_INPUT
+                noiseSuppression: true
             }, 
             video: { 
-                width: { ideal: 640 },
-                height: { ideal: 480 },
+                width: { ideal: 1280 },
+                height: { ideal: 720 },
                 facingMode: "environment"
             } 
         });
@@ -225,22 +652,34 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
           await videoRef.current.play();
         }
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        let systemPrompt = SYSTEM_INSTRUCTIONS[mode];
+        if (!transportRef.current) transportRef.current = createDefaultTransport();
+        const activeTransport = replayRef.current
+            ? createReplayTransport(replayRef.current, setReplayFrame)
+            : transportRef.current;
+        const definition = findMode(modesRef.current, modeRef.current);
+        let systemPrompt = definition.systemPrompt;
         if (settings.safeMode) {
             systemPrompt += " SAFETY PRIORITY: You are in SAFE MODE. Be extra cautious, gentle, and supportive in your warnings.";
         }
+        const verbosity = VERBOSITY_LEVELS[settingsRef.current.verbosity].instruction;
+        if (verbosity) systemPrompt += `\n\n${verbosity}`;
+        const language = languageInstruction(settingsRef.current.language, definition, settingsRef.current.translateReading);
+        if (language) systemPrompt += `\n\n${language}`;
+        // Reconnects resume the server-side session where they can; otherwise the summary is replayed on open
+        const resumeHandle = isRetry && !replayRef.current ? sessionContext.takeHandle() : null;
         
-        sessionPromiseRef.current = ai.live.connect({
+        sessionPromiseRef.current = activeTransport.connect({
           model: MODEL_NAME,
           config: {
             responseModalities: [Modality.AUDIO],
-            tools: [{ functionDeclarations: TOOLS }],
+            tools: [{ functionDeclarations: createTools(modesRef.current) }],
             speechConfig: {
               voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } },
             },
             systemInstruction: systemPrompt,
             outputAudioTranscription: {},
+            inputAudioTranscription: {},
+            sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
           },
           callbacks: {
             onopen: () => {
@@ -252,73 +691,236 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
 
               onStatusChange('connected');
               retryCountRef.current = 0;
+              offlineAnnouncedRef.current = false;
               if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
               onRetryUpdate("");
               playBeep(880, 'sine', 0.1); 
-              announce(`Connected. Let's walk together.`);
+              announce(t(isRetry ? 'session.reconnected' : 'session.connected'));
               
               if (!inputAudioContextRef.current || !streamRef.current) return;
               
-              const audioSource = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-              sourceRef.current = audioSource;
-              const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-              processorRef.current = processor;
-              
-              processor.onaudioprocess = (e) => {
-                const current = appStateRef.current;
+              const gate = createMicGate({
+                sampleRate: AUDIO_SAMPLE_RATE_INPUT,
+                frameMs: AUDIO_CAPTURE_FRAME_MS,
+                // Over budget, silence is no longer streamed; push-to-talk stays as it is
+                getMode: () => (lowBandwidthRef.current && settingsRef.current.micMode === 'always' ? 'vad' : settingsRef.current.micMode),
+                onSpeakingChange: speaking => {
+                    playbackRef.current?.duck(speaking && settingsRef.current.duckOnSpeech);
+                    onSpeakingChange?.(speaking);
+                },
+              });
+              gate.setTalkOpen(talkOpenRef.current);
+              micGateRef.current = gate;
+
+              captureRef.current = createCaptureNode(inputAudioContextRef.current, streamRef.current, AUDIO_SAMPLE_RATE_INPUT, AUDIO_CAPTURE_FRAME_MS, frame => {
                 if (!isMountedRef.current) return;
-                if (current !== 'running' && current !== 'starting' && current !== 'paused') return;
-                
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
+                // Nothing leaves the device while paused
+                const { send, ended } = appStateRef.current === 'running' ? gate.frame(frame.samples) : gate.close();
+
+                latencyMeter.frame(frame, AUDIO_CAPTURE_FRAME_MS);
+                if (send.length === 0 && !ended) return;
+                const blobs = send.map(samples => createPcmBlob(samples, AUDIO_SAMPLE_RATE_INPUT));
+                blobs.forEach(blob => recorderRef.current?.recordAudio(blob.data));
+                send.forEach((samples, i) => usageMeterRef.current?.recordAudioUp(samples.length / AUDIO_SAMPLE_RATE_INPUT, blobs[i].data.length));
                 sessionPromiseRef.current?.then(session => {
-                    if (isMountedRef.current) {
-                        session.sendRealtimeInput({ media: pcmBlob });
-                    }
+                    if (!isMountedRef.current) return;
+                    blobs.forEach(blob => session.sendRealtimeInput({ media: blob }));
+                    // Lets the model respond without waiting for silence that will never arrive
+                    if (ended) session.sendRealtimeInput({ audioStreamEnd: true });
                 });
-              };
-              
-              audioSource.connect(processor);
-              processor.connect(inputAudioContextRef.current.destination);
+              });
+
+              const restore = isRetry && !resumeHandle ? sessionContext.summary({
+                  mode: findMode(modesRef.current, modeRef.current).label,
+                  findTarget: findTargetRef.current,
+                  scanning: scanningRef.current,
+                  destination: modeRef.current === AppMode.NAVIGATION ? destinationRef.current?.name : null,
+              }) : null;
+              if (restore) {
+                  sessionPromiseRef.current?.then(session => {
+                      if (isMountedRef.current) session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: restore }] }], turnComplete: false });
+                  }).catch(() => {});
+              }
 
               startFrameStreaming();
+              startFramingCues();
+              // A search survives reconnects; a new session (but not a resumed one) has to be told about it again
+              if (findTargetRef.current) startFinder(findTargetRef.current, !resumeHandle);
+              if (!resumeHandle) sendMemoryReferences(findMode(modesRef.current, modeRef.current));
             },
             onmessage: async (message: LiveServerMessage) => {
                 if (!isMountedRef.current) return;
                 const currentAppState = appStateRef.current;
                 if (currentAppState !== 'running' && currentAppState !== 'starting' && currentAppState !== 'paused') return;
 
+                if (promptSentAtRef.current !== null && (message.serverContent?.modelTurn || message.toolCall)) {
+                    frameController.recordRoundTrip(performance.now() - promptSentAtRef.current);
+                    promptSentAtRef.current = null;
+                }
+
+                const outputTranscript = message.serverContent?.outputTranscription?.text;
+                const inputTranscript = message.serverContent?.inputTranscription?.text;
+
+                const recorder = recorderRef.current;
+                if (recorder) {
+                    recorder.recordMessage(message);
+                    if (outputTranscript) recorder.recordTranscript(outputTranscript);
+                }
+
+                if (inputTranscript) onTranscript?.({ type: 'text', role: 'user', text: inputTranscript });
+                if (outputTranscript) onTranscript?.({ type: 'text', role: 'guide', text: outputTranscript });
+                if (inputTranscript) sessionContext.addTranscript('user', inputTranscript);
+                if (outputTranscript) sessionContext.addTranscript('guide', outputTranscript);
+
+                const resumption = message.sessionResumptionUpdate;
+                if (resumption) sessionContext.updateHandle(resumption.newHandle, resumption.resumable);
+                if (message.serverContent?.turnComplete) onTranscript?.({ type: 'turnComplete' });
+
+                // Transcription runs roughly in step with the audio, so a direction heard in it
+                // applies from the next chunk onwards; the voice recentres when the turn ends.
+                if (outputTranscript) {
+                    const clock = directionParser.push(outputTranscript);
+                    if (clock !== null) spatialOutputRef.current?.setDirection(clock, playbackRef.current?.queuedUntil());
+                }
+                if (message.serverContent?.turnComplete) {
+                    spatialOutputRef.current?.setDirection(null, playbackRef.current?.queuedUntil());
+                    directionParser.reset();
+                }
+
                 const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                if (base64Audio && outputAudioContextRef.current) {
-                    if (currentAppState !== 'paused') {
-                        const ctx = outputAudioContextRef.current;
-                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                        const audioBytes = base64ToUint8Array(base64Audio);
-                        const audioBuffer = await decodeAudioData(audioBytes, ctx, AUDIO_SAMPLE_RATE_OUTPUT);
-                        const source = ctx.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(ctx.destination);
-                        source.addEventListener('ended', () => {
-                            try { source.disconnect(); audioSourcesRef.current.delete(source); } catch(e) {}
-                        });
-                        source.start(nextStartTimeRef.current);
-                        audioSourcesRef.current.add(source);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                    }
+                if (base64Audio && playbackRef.current && currentAppState !== 'paused') {
+                    const audioBytes = base64ToUint8Array(base64Audio);
+                    usageMeterRef.current?.recordAudioDown((audioBytes.byteLength >> 1) / AUDIO_SAMPLE_RATE_OUTPUT, base64Audio.length);
+                    playbackRef.current.push(new Int16Array(audioBytes.buffer, 0, audioBytes.byteLength >> 1), AUDIO_SAMPLE_RATE_OUTPUT);
                 }
+                if (message.serverContent?.turnComplete) playbackRef.current?.endOfTurn();
+                // Reported per response, where the server reports it at all
+                const tokens = message.usageMetadata?.totalTokenCount;
+                if (tokens) usageMeterRef.current?.recordTokens(tokens);
 
                 if (message.toolCall) {
                     for (const fc of message.toolCall.functionCalls) {
                         if (fc.name === 'changeMode') {
-                            const newMode = fc.args.mode as AppMode;
-                            onModeChange(newMode);
+                            const target = modesRef.current.find(m => m.id === fc.args.mode);
+                            let resultText = `Unknown mode ${fc.args.mode}. Available: ${modesRef.current.map(m => m.id).join(', ')}.`;
+                            if (target) {
+                                onModeChange(target.id);
+                                onTranscript?.({ type: 'tool', text: `Switched to ${target.label} mode.` });
+                                resultText = `Switched to ${target.label}. Speak warmly.`;
+                            }
                             sessionPromiseRef.current?.then(session => {
                                 if(isMountedRef.current) {
                                     session.sendToolResponse({
-                                        functionResponses: { id: fc.id, name: fc.name, response: { result: `Switched to ${newMode}. Speak warmly.` } }
+                                        functionResponses: { id: fc.id, name: fc.name, response: { result: resultText } }
                                     });
                                 }
                             });
+                        } else if (fc.name === 'reportHazard') {
+                            // Safety signals jump the queue: drop pending speech and alert right away
+                            const severity = fc.args.severity as HazardSeverity;
+                            const alert = HAZARD_ALERTS[severity] ?? HAZARD_ALERTS.warning;
+                            const clock = Number(fc.args.direction);
+                            const hasDirection = Number.isInteger(clock) && clock >= 1 && clock <= 12;
+                            stopAudioOutput();
+                            vibrate(alert.vibration);
+                            const spatial = spatialOutputRef.current;
+                            if (spatial) {
+                                spatial.playEarcons(alert.earcons, hasDirection ? clock : null);
+                                // The spoken description that follows comes from the same side
+                                if (hasDirection) spatial.setDirection(clock);
+                            } else {
+                                playEarcons(alert.earcons);
+                            }
+                            onTranscript?.({ type: 'tool', text: `Hazard (${severity}): ${fc.args.type} at ${fc.args.direction} o'clock.` });
+                            sessionContext.addHazard(`${severity} ${fc.args.type} at ${fc.args.direction} o'clock`);
+                            sessionPromiseRef.current?.then(session => {
+                                if(isMountedRef.current) {
+                                    session.sendToolResponse({
+                                        functionResponses: { id: fc.id, name: fc.name, response: { result: 'Alert delivered. Now tell them calmly and briefly what it is and where.' } }
+                                    });
+                                }
+                            });
+                        } else if (fc.name === 'capturePage') {
+                            // Checked before replying, so the guide never waits for images that won't come
+                            const blocker = pageCaptureBlocker();
+                            sessionPromiseRef.current?.then(session => {
+                                if(isMountedRef.current) {
+                                    session.sendToolResponse({
+                                        functionResponses: { id: fc.id, name: fc.name, response: { result: blocker
+                                            ?? 'Guided capture started. Stay quiet while the user is coached; the images will arrive in the next turn.' } }
+                                    });
+                                }
+                            });
+                            if (!blocker) runPageCapture();
+                        } else if (fc.name === 'submitDocument') {
+                            const document = parseSubmittedDocument(fc.args);
+                            let resultText = 'Nothing was saved: the document had no sections or fields with text.';
+                            if (document) {
+                                onDocument?.(document);
+                                sessionContext.setDocument(document.title);
+                                onTranscript?.({ type: 'tool', text: `Saved document: ${document.title} (${document.sections.length} sections, ${document.fields.length} key values).` });
+                                resultText = 'Saved. The user can now step through it on their phone. Finish what you were saying without reading it all again.';
+                            }
+                            sessionPromiseRef.current?.then(session => {
+                                if(isMountedRef.current) {
+                                    session.sendToolResponse({
+                                        functionResponses: { id: fc.id, name: fc.name, response: { result: resultText } }
+                                    });
+                                }
+                            });
+                        } else if (fc.name === 'reportTargetLocation') {
+                            const report = parseTargetReport(fc.args);
+                            let resultText = '';
+                            if (fc.args?.stopSearch === true) {
+                                endFinding();
+                                resultText = 'Search stopped.';
+                            } else if (!report.target && !findTargetRef.current) {
+                                resultText = 'No search is running. Include the target to start one.';
+                            } else {
+                                if (report.target && report.target !== findTargetRef.current) {
+                                    findTargetRef.current = report.target;
+                                    startFinder(report.target, false);
+                                    onFindTargetChange?.(report.target);
+                                }
+                                const target = findTargetRef.current;
+                                lastReportAtRef.current = Date.now();
+                                finderRef.current?.report(report, lastSentThumbRef.current);
+                                if (report.reached) {
+                                    onTranscript?.({ type: 'tool', text: `Found: ${target}.` });
+                                    endFinding();
+                                    resultText = 'The user has reached the item and the search is over. Confirm it in a few words.';
+                                } else {
+                                    resultText = report.found
+                                        ? 'Beacon updated. Keep reporting with each new picture.'
+                                        : 'Beacon is searching. Suggest where to point the phone next, then keep reporting.';
+                                }
+                            }
+                            sessionPromiseRef.current?.then(session => {
+                                if(isMountedRef.current) {
+                                    session.sendToolResponse({
+                                        functionResponses: { id: fc.id, name: fc.name, response: { result: resultText } }
+                                    });
+                                }
+                            });
+                        } else if (fc.name === 'rememberThis') {
+                            const label = typeof fc.args?.label === 'string' ? fc.args.label.trim() : '';
+                            const kind: MemoryKind = fc.args?.kind === 'person' ? 'person' : 'object';
+                            const saved = label ? captureMemory(label, kind).catch(err => {
+                                console.warn("Failed to remember picture", err);
+                                return null;
+                            }) : Promise.resolve(null);
+                            saved.then(memory => {
+                                if (memory) onTranscript?.({ type: 'tool', text: `Remembered: ${memory.label} (${memory.kind}).` });
+                                sessionPromiseRef.current?.then(session => {
+                                    if(isMountedRef.current) {
+                                        session.sendToolResponse({
+                                            functionResponses: { id: fc.id, name: fc.name, response: { result: memory
+                                                ? `Saved on the phone as "${memory.label}". Confirm it in a few words.`
+                                                : 'The picture could not be saved. Ask the user to point the camera at it and try again.' } }
+                                        });
+                                    }
+                                });
+                            });
                         } else if (fc.name === 'toggleCamera') {
                             const action = fc.args.action;
                             const isCurrentlyPaused = currentAppState === 'paused';
@@ -334,6 +936,7 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
                                     resultText = 'Camera resumed.';
                                 } else resultText = 'Camera is already active.';
                             }
+                            if (resultText) onTranscript?.({ type: 'tool', text: resultText });
                             sessionPromiseRef.current?.then(session => {
                                 if(isMountedRef.current) {
                                     session.sendToolResponse({
@@ -363,7 +966,7 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
         });
       } catch (err: any) {
         if (isMountedRef.current) {
-            onError(err.message || "Failed to start camera or connection");
+            onError(err.message || t('session.startFailed'));
             const current = appStateRef.current;
             const isStillActive = current === 'running' || current === 'starting' || current === 'paused';
             if (isStillActive) handleDisconnect();
@@ -391,41 +994,247 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
             onStatusChange('reconnecting');
             playBeep(200, 'sawtooth', 0.3);
             let secondsLeft = Math.ceil(delay / 1000);
-            const updateCountdown = () => onRetryUpdate(`I'm reconnecting in ${secondsLeft}s...`);
+            const updateCountdown = () => onRetryUpdate(t('session.reconnectingIn', { seconds: secondsLeft }));
             updateCountdown();
             countdownIntervalRef.current = setInterval(() => {
                 secondsLeft--;
                 if (secondsLeft <= 0) {
                     if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
-                    onRetryUpdate("Connecting...");
+                    onRetryUpdate(t('status.connecting'));
                 } else { updateCountdown(); }
             }, 1000);
             retryTimeoutRef.current = setTimeout(() => { 
                 if (appStateRef.current !== 'idle' && isMountedRef.current) connect(true); 
             }, delay);
+        } else if (modeRef.current === AppMode.NAVIGATION) {
+            startOfflineFallback();
         } else {
             onStatusChange('error');
-            onError("I'm having trouble connecting to the network.");
-            announce("I can't reach the internet right now. Please check your connection.");
+            onError(t('session.noNetwork'));
+            announce(t('session.noInternet'));
         }
       });
   };
 
-  const startFrameStreaming = () => {
-        if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
+  const ensureDiffCanvas = () => {
         if (!diffCanvasRef.current) {
             diffCanvasRef.current = document.createElement('canvas');
             diffCanvasRef.current.width = 64; 
             diffCanvasRef.current.height = 64;
         }
+        return diffCanvasRef.current;
+  };
 
-        const TICK_RATE = 500; 
-        const HEARTBEAT_INTERVAL = 2000; 
-        
-        frameIntervalRef.current = window.setInterval(() => {
+  // Keeps the camera running on-device with proximity beeps until the network comes back.
+  const startOfflineFallback = async () => {
+      onStatusChange('degraded');
+      onRetryUpdate('');
+      if (!offlineAnnouncedRef.current) {
+          offlineAnnouncedRef.current = true;
+          vibrate([300, 100, 300]);
+          announce(t('session.offlineGuidance'));
+      }
+
+      try {
+          const videoStream = await navigator.mediaDevices.getUserMedia({
+              video: { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: "environment" }
+          });
+          const current = appStateRef.current;
+          if (!isMountedRef.current || (current !== 'running' && current !== 'starting' && current !== 'paused')) {
+              videoStream.getTracks().forEach(t => t.stop());
+              return;
+          }
+          streamRef.current = videoStream;
+          if (videoRef.current) {
+              videoRef.current.srcObject = videoStream;
+              await videoRef.current.play();
+          }
+      } catch (err) {
+          onStatusChange('error');
+          onError(t('session.offlineUnavailable'));
+          return;
+      }
+
+      const diffCanvas = ensureDiffCanvas();
+      const stopGuidance = startOfflineGuidance(() => {
+          const video = videoRef.current;
+          const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true });
+          if (!video || !diffCtx || appStateRef.current !== 'running') return null;
+          diffCtx.drawImage(video, 0, 0, 64, 64);
+          return diffCtx.getImageData(0, 0, 64, 64);
+      });
+
+      // Being online is not enough (a captive portal, or the guide's server down), so each probe
+      // opens a throwaway session beside the beeps, which keep running. Only once one actually
+      // opens is the fallback torn down for a real reconnect.
+      let probing = false;
+      const probeSession = () => new Promise<LiveSession | null>(resolve => {
+          const transport = transportRef.current ?? createDefaultTransport();
+          let settled = false;
+          const timer = setTimeout(() => {
+              settled = true;
+              resolve(null);
+          }, OFFLINE_PROBE_TIMEOUT);
+          transport.connect({
+              model: MODEL_NAME,
+              config: { responseModalities: [Modality.AUDIO] },
+              callbacks: { onmessage: () => {} },
+          }).then(session => {
+              if (settled) {
+                  session.close();
+                  return;
+              }
+              settled = true;
+              clearTimeout(timer);
+              resolve(session);
+          }, () => {
+              if (settled) return;
+              settled = true;
+              clearTimeout(timer);
+              resolve(null);
+          });
+      });
+      const tryResume = async () => {
+          if (probing || !navigator.onLine || !isMountedRef.current) return;
+          probing = true;
+          const session = await probeSession();
+          probing = false;
+          if (!session) return;
+          session.close();
+          // Stopped, or already handed over, while the probe was out
+          if (offlineStopRef.current !== stopFallback || !isMountedRef.current) return;
+          retryCountRef.current = MAX_RETRIES;
+          cleanup().then(() => {
+              if (appStateRef.current !== 'idle' && isMountedRef.current) connect(true);
+          });
+      };
+      const probe = setInterval(tryResume, OFFLINE_PROBE_INTERVAL);
+      window.addEventListener('online', tryResume);
+
+      const stopFallback = () => {
+          stopGuidance();
+          clearInterval(probe);
+          window.removeEventListener('online', tryResume);
+      };
+      offlineStopRef.current = stopFallback;
+  };
+
+  // Aiming tones run locally at their own rate; a lock forces a fresh frame out to the model.
+  const startFramingCues = () => {
+        if (framingStopRef.current || replayRef.current) return;
+        const diffCanvas = ensureDiffCanvas();
+        framingStopRef.current = startFramingAssistant(
+            () => {
+                const video = videoRef.current;
+                const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true });
+                if (!video || !diffCtx || video.readyState < 2) return null;
+                if (appStateRef.current !== 'running' || capturingRef.current || !settingsRef.current.framingCues) return null;
+                diffCtx.drawImage(video, 0, 0, 64, 64);
+                return diffCtx.getImageData(0, 0, 64, 64);
+            },
+            // The finder beacon owns the audio while a search is on
+            () => (findTargetRef.current ? null : findMode(modesRef.current, modeRef.current).framing ?? null),
+            () => { lastFrameTimeRef.current = 0; },
+        );
+  };
+
+  const ensureScanner = () => {
+        if (!scannerRef.current) scannerRef.current = createScanner();
+        return scannerRef.current;
+  };
+
+  const runScan = (video: HTMLVideoElement) => {
+        const scanner = ensureScanner();
+        scanner.scan(video, { banknotes: scanningRef.current, currency: settingsRef.current.currency }).then(results => {
+            if (!isMountedRef.current || appStateRef.current !== 'running') return;
+            results.forEach(result => {
+                onScanResult?.(result);
+                onTranscript?.({ type: 'tool', text: result.kind === 'banknote' ? `Possible banknote: ${result.value} ${result.currency}.` : `Scanned ${result.kind}: ${result.text}` });
+                sessionPromiseRef.current?.then(session => {
+                    if (isMountedRef.current) session.sendRealtimeInput({ text: describeScanForModel(result) });
+                });
+            });
+        });
+  };
+
+  const stopFinder = () => {
+        if (finderNudgeRef.current) {
+            window.clearInterval(finderNudgeRef.current);
+            finderNudgeRef.current = null;
+        }
+        finderRef.current?.stop();
+        finderRef.current = null;
+  };
+
+  // Ends a search from inside the session (item reached, or the guide was told to stop)
+  const endFinding = () => {
+        stopFinder();
+        findTargetRef.current = null;
+        onFindTargetChange?.(null);
+  };
+
+  // Starts the beacon; `prompt` tells the guide what to look for when the search began on the phone.
+  const startFinder = useCallback((target: string, prompt: boolean) => {
+        stopFinder();
+        const diffCanvas = ensureDiffCanvas();
+        finderRef.current = startObjectFinder(() => {
+            const video = videoRef.current;
+            const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true });
+            if (!video || !diffCtx || video.readyState < 2) return null;
+            if (appStateRef.current !== 'running' || capturingRef.current) return null;
+            diffCtx.drawImage(video, 0, 0, 64, 64);
+            return diffCtx.getImageData(0, 0, 64, 64);
+        });
+        lastReportAtRef.current = Date.now();
+        lastFrameTimeRef.current = 0;
+
+        const send = (text: string) => sessionPromiseRef.current?.then(session => {
+            if (isMountedRef.current) session.sendRealtimeInput({ text });
+        }).catch(() => {});
+        if (prompt) {
+            promptSentAtRef.current = performance.now();
+            send(`FIND: The user wants to find "${target}". Call reportTargetLocation with target "${target}" for the latest picture, and again for every new picture until they reach it.`);
+        }
+        // A guide that has gone quiet gets a fresh picture and a reminder
+        finderNudgeRef.current = window.setInterval(() => {
+            if (appStateRef.current !== 'running' || Date.now() - lastReportAtRef.current < FINDER_REPORT_TIMEOUT_MS) return;
+            lastReportAtRef.current = Date.now();
+            lastFrameTimeRef.current = 0;
+            send(`FIND: Still looking for "${target}". Call reportTargetLocation for the latest picture.`);
+        }, 1000);
+  }, []);
+
+  // Searches picked on the phone. Ones the guide started itself are already running by the time
+  // the prop catches up, so only real changes reach the session.
+  useEffect(() => {
+    const previous = findTargetRef.current;
+    findTargetRef.current = findTarget;
+    if (findTarget === previous || !sessionPromiseRef.current || !isActive) return;
+    if (findTarget) {
+        startFinder(findTarget, true);
+    } else {
+        stopFinder();
+        sessionPromiseRef.current.then(session => {
+            session.sendRealtimeInput({
+                text: `FIND: The user stopped looking for "${previous}". Do not call reportTargetLocation again until they ask you to find something.`
+            });
+        }).catch(() => {});
+    }
+  }, [findTarget, isActive, startFinder]);
+
+  const startFrameStreaming = () => {
+        if (frameIntervalRef.current) clearTimeout(frameIntervalRef.current);
+        ensureDiffCanvas();
+        const controller = frameController;
+
+        // Self-scheduling so every tick picks up the current (possibly adapted) tick rate
+        const tick = () => {
             if (!isMountedRef.current) return;
+            const policy = controller.policy();
+            frameIntervalRef.current = window.setTimeout(tick, policy.tickRate);
+
             const currentAppState = appStateRef.current;
-            if (currentAppState === 'paused' || currentAppState !== 'running') return; 
+            if (currentAppState === 'paused' || currentAppState !== 'running' || capturingRef.current) return; 
 
             const video = videoRef.current;
             const canvas = canvasRef.current;
@@ -435,6 +1244,16 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
             const now = Date.now();
             const timeSinceLastSend = now - lastFrameTimeRef.current;
             const diffCtx = diffCanvas.getContext('2d');
+
+            sessionPromiseRef.current.then(session => {
+                const backlog = session.bufferedAmount?.();
+                if (backlog !== undefined) controller.recordBacklog(backlog);
+            }).catch(() => {});
+
+            if (now - lastStatsAtRef.current > 1000) {
+                lastStatsAtRef.current = now;
+                onFrameStats?.(controller.stats());
+            }
             
             if (diffCtx) {
                 diffCtx.drawImage(video, 0, 0, 64, 64);
@@ -448,18 +1267,25 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
                     for (let i = 0; i < data.length; i += 4) {
                         totalDiff += Math.abs(data[i] - prevData[i]) + Math.abs(data[i+1] - prevData[i+1]) + Math.abs(data[i+2] - prevData[i+2]);
                     }
-                    if ((totalDiff / (64 * 64)) > 15) hasSignificantChange = true;
+                    if ((totalDiff / (64 * 64)) > policy.changeThreshold) hasSignificantChange = true;
                 } else {
                     hasSignificantChange = true;
                 }
 
                 lastFrameDataRef.current = currentFrame.data;
+                const sending = hasSignificantChange || timeSinceLastSend > policy.heartbeatInterval;
+
+                // Codes are looked for on the pictures that go out in modes that look at things up close;
+                // while scanning, on every tick
+                if (scanningRef.current || (sending && findMode(modesRef.current, modeRef.current).framing)) runScan(video);
 
-                if (hasSignificantChange || timeSinceLastSend > HEARTBEAT_INTERVAL) {
+                if (sending) {
                      lastFrameTimeRef.current = now;
+                     lastSentThumbRef.current = currentFrame;
                      const ctx = canvas.getContext('2d');
                      if (ctx) {
-                        const targetWidth = 480;
+                        // Never upscale beyond what the camera delivers
+                        const targetWidth = Math.min(policy.width, video.videoWidth || policy.width);
                         const aspect = video.videoHeight / video.videoWidth;
                         canvas.width = targetWidth;
                         canvas.height = targetWidth * aspect;
@@ -467,19 +1293,43 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
                         canvas.toBlob(async (blob) => {
                             if (blob && appStateRef.current === 'running' && isMountedRef.current) {
                                 const base64Data = await blobToBase64(blob);
+                                recorderRef.current?.recordFrame(base64Data);
+                                usageMeterRef.current?.recordFrame(base64Data.length);
+                                frameSnapshots?.push(base64Data);
+                                controller.recordSent(blob.size);
                                 sessionPromiseRef.current?.then(session => {
                                     if(isMountedRef.current) {
                                         session.sendRealtimeInput({ media: { mimeType: 'image/jpeg', data: base64Data } });
                                     }
                                 });
                             }
-                        }, 'image/jpeg', 0.5);
+                        }, 'image/jpeg', policy.quality);
                      }
+                } else {
+                    controller.recordSkipped();
                 }
             }
-        }, TICK_RATE); 
+        };
+        tick();
   };
 
+  // Switching output mode mid-session rebuilds the output stage and drops queued speech
+  useEffect(() => {
+      const ctx = outputAudioContextRef.current;
+      if (!ctx || !spatialOutputRef.current) return;
+      stopAudioOutput();
+      spatialOutputRef.current.disconnect();
+      spatialOutputRef.current = createSpatialOutput(ctx, settings.spatialAudio);
+      if (playbackRef.current) {
+          playbackRef.current.output.disconnect();
+          playbackRef.current.output.connect(spatialOutputRef.current.input);
+      }
+  }, [settings.spatialAudio, stopAudioOutput]);
+
+  useEffect(() => {
+      playbackRef.current?.setRate(settings.speechRate);
+  }, [settings.speechRate]);
+
   // Pause Effect
   useEffect(() => {
       if (isPaused) {
@@ -487,15 +1337,30 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
       }
   }, [isPaused, stopAudioOutput]);
 
+  // Recordings span reconnects, so they follow the session lifetime rather than cleanup()
+  const finishRecording = useCallback(() => {
+      recorderRef.current?.finish();
+      recorderRef.current = null;
+  }, []);
+
   // Mount/Unmount Logic
   useEffect(() => {
     isMountedRef.current = true;
-    if (isActive) connect();
-    else { cleanup(); onStatusChange('disconnected'); }
+    if (isActive) {
+        if (settings.recordSessions && !replay) recorderRef.current = createSessionRecorder(mode);
+        sessionContext.reset();
+        connect();
+    } else {
+        cleanup();
+        finishRecording();
+        setReplayFrame(null);
+        onStatusChange('disconnected');
+    }
     
     return () => { 
         isMountedRef.current = false;
         cleanup(); 
+        finishRecording();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isActive]); 
@@ -504,7 +1369,7 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
     <div 
         className={`relative w-full h-full bg-black flex items-center justify-center overflow-hidden rounded-xl border-4 ${isPaused ? 'border-yellow-500' : 'border-slate-700'}`}
         role="img"
-        aria-label={`Camera View. Current mode: ${mode}.`}
+        aria-label={`Camera View. Current mode: ${findMode(modes, mode).label}.`}
     >
       <video
         ref={videoRef}
@@ -521,6 +1386,18 @@ const LiveAssistant: React.FC<LiveAssistantProps> = ({
               </div>
           </div>
       )}
+      {replayFrame && (
+          <img
+            src={`data:image/jpeg;base64,${replayFrame}`}
+            className="absolute inset-0 w-full h-full object-cover"
+            alt="Recorded camera frame"
+          />
+      )}
+      {replay && (
+          <div className="absolute bottom-4 left-4 bg-purple-700 text-white font-bold px-3 py-1 rounded-lg pointer-events-none">
+              REPLAY
+          </div>
+      )}
       <canvas ref={canvasRef} className="hidden" />
     </div>
   );
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { LabeledMemory, MemoryKind } from '../types';
+
+interface MemoryPanelProps {
+  memories: LabeledMemory[];
+  shareWithGuide: boolean;
+  // A picture can only be taken while the camera is running
+  canCapture: boolean;
+  onShareChange: (share: boolean) => void;
+  onRemember: (label: string, kind: MemoryKind) => void;
+  onRename: (memory: LabeledMemory, label: string) => void;
+  onDelete: (memory: LabeledMemory) => void;
+}
+
+const fieldClass = "flex-1 min-w-0 p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none";
+
+const KIND_LABELS: Record<MemoryKind, string> = { object: 'Thing', person: 'Person' };
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  memories,
+  shareWithGuide,
+  canCapture,
+  onShareChange,
+  onRemember,
+  onRename,
+  onDelete,
+}) => {
+  const [label, setLabel] = useState('');
+  const [kind, setKind] = useState<MemoryKind>('object');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState('');
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="font-bold text-2xl">Things & People I Know</label>
+      <p className="text-lg text-gray-300">
+        Point the camera at something of yours or someone you know and give it a name, or just tell the guide "this is my blue mug".
+        Pictures are kept on this phone only.
+      </p>
+
+      <div className="flex items-center justify-between">
+          <label htmlFor="share-memories-toggle" className="font-bold text-xl">Show Them to the Guide</label>
+          <button
+            id="share-memories-toggle"
+            onClick={() => onShareChange(!shareWithGuide)}
+            aria-pressed={shareWithGuide}
+            className={`w-20 h-10 rounded-full relative transition-colors ${shareWithGuide ? 'bg-green-500' : 'bg-gray-600'}`}
+          >
+               <div className={`absolute top-1 w-8 h-8 rounded-full bg-white transition-all ${shareWithGuide ? 'left-11' : 'left-1'}`} />
+          </button>
+      </div>
+
+      <form
+        className="flex flex-col gap-2"
+        onSubmit={e => {
+          e.preventDefault();
+          if (!label.trim() || !canCapture) return;
+          onRemember(label, kind);
+          setLabel('');
+        }}
+      >
+        <div className="flex gap-2" role="radiogroup" aria-label="Thing or person">
+          {(Object.keys(KIND_LABELS) as MemoryKind[]).map(k => (
+            <button
+              key={k}
+              type="button"
+              role="radio"
+              aria-checked={kind === k}
+              onClick={() => setKind(k)}
+              className={`flex-1 p-4 rounded-xl font-bold text-xl border-4 ${kind === k ? 'bg-blue-900 border-white' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            className={fieldClass}
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder={kind === 'person' ? 'Name, e.g. Priya, my daughter' : 'Name, e.g. blue mug'}
+            aria-label="Name for what the camera sees"
+          />
+          <button
+            type="submit"
+            disabled={!canCapture}
+            className={`p-4 bg-blue-900 rounded-xl font-bold text-xl border-2 border-white ${canCapture ? '' : 'opacity-50'}`}
+          >
+            Remember
+          </button>
+        </div>
+        {!canCapture && <p className="text-lg text-gray-400">Start a session to take a picture.</p>}
+      </form>
+
+      {memories.length > 0 && (
+        <ul className="flex flex-col gap-3" aria-label="Remembered things and people">
+          {memories.map(m => (
+            <li key={m.id} className="flex items-center gap-3 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+              <img src={`data:image/jpeg;base64,${m.image}`} alt="" className="w-20 h-20 object-cover rounded-xl flex-none" />
+              {editingId === m.id ? (
+                <form
+                  className="flex-1 flex gap-2"
+                  onSubmit={e => {
+                    e.preventDefault();
+                    if (editLabel.trim()) onRename(m, editLabel);
+                    setEditingId(null);
+                  }}
+                >
+                  <input
+                    className={fieldClass}
+                    value={editLabel}
+                    onChange={e => setEditLabel(e.target.value)}
+                    aria-label={`New name for ${m.label}`}
+                    autoFocus
+                  />
+                  <button type="submit" className="p-3 bg-blue-800 rounded-xl font-bold">Save</button>
+                </form>
+              ) : (
+                <>
+                  <span className="flex-1 font-bold text-xl">{m.label} · {KIND_LABELS[m.kind]}</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => { setEditingId(m.id); setEditLabel(m.label); }}
+                      aria-label={`Rename ${m.label}`}
+                      className="p-3 bg-gray-700 rounded-xl font-bold"
+                    >
+                      Rename
+                    </button>
+                    <button onClick={() => onDelete(m)} aria-label={`Delete ${m.label}`} className="p-3 bg-red-900 rounded-xl font-bold">Delete</button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MemoryPanel;
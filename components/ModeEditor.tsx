@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { FramingTarget, ModeDefinition } from '../types';
+import { MODE_TEMPLATES } from '../constants';
+
+interface ModeEditorProps {
+  // Null when creating a new mode
+  initial: ModeDefinition | null;
+  onSave: (mode: Omit<ModeDefinition, 'id'>) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_MODE: Omit<ModeDefinition, 'id'> = {
+  label: '',
+  icon: '⭐',
+  systemPrompt: '',
+  tapPrompt: 'Describe what is in front of them right now.',
+  heartbeatInterval: 3000,
+};
+
+const fieldClass = "w-full p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none";
+
+const ModeEditor: React.FC<ModeEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Omit<ModeDefinition, 'id'>>(() => {
+    if (!initial) return EMPTY_MODE;
+    const { id, builtIn, ...rest } = initial;
+    return rest;
+  });
+
+  const update = <K extends keyof typeof draft>(key: K, value: (typeof draft)[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const canSave = draft.label.trim().length > 0 && draft.systemPrompt.trim().length > 0;
+
+  return (
+    <form
+      className="flex flex-col gap-4 p-4 bg-gray-950 rounded-2xl border-2 border-yellow-400"
+      aria-label={initial ? `Edit ${initial.label} mode` : 'New mode'}
+      onSubmit={e => {
+        e.preventDefault();
+        if (canSave) onSave({ ...draft, label: draft.label.trim(), icon: draft.icon.trim() || '⭐' });
+      }}
+    >
+      {!initial && (
+        <div className="flex flex-col gap-2">
+          <span className="font-bold text-xl">Start from a template</span>
+          <div className="grid grid-cols-2 gap-2">
+            {MODE_TEMPLATES.map(t => (
+              <button
+                type="button"
+                key={t.label}
+                onClick={() => setDraft(t)}
+                className="p-3 rounded-xl bg-gray-800 border-2 border-gray-700 font-bold text-lg"
+              >
+                <span aria-hidden="true">{t.icon}</span> {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        Name
+        <input className={fieldClass} value={draft.label} onChange={e => update('label', e.target.value)} required />
+      </label>
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        Icon
+        <input className={fieldClass} value={draft.icon} maxLength={4} onChange={e => update('icon', e.target.value)} />
+      </label>
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        Instructions for the guide
+        <textarea className={`${fieldClass} h-40`} value={draft.systemPrompt} onChange={e => update('systemPrompt', e.target.value)} required />
+      </label>
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        What a single tap asks for
+        <textarea className={`${fieldClass} h-24`} value={draft.tapPrompt} onChange={e => update('tapPrompt', e.target.value)} />
+      </label>
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        Camera update every (seconds, when nothing changes)
+        <input
+          className={fieldClass}
+          type="number"
+          min={1}
+          max={30}
+          step={0.5}
+          value={draft.heartbeatInterval / 1000}
+          onChange={e => update('heartbeatInterval', Math.max(1000, Math.round(Number(e.target.value) * 1000) || 1000))}
+        />
+      </label>
+
+      <label className="flex flex-col gap-2 font-bold text-xl">
+        Aiming tones
+        <select
+          className={fieldClass}
+          value={draft.framing ?? ''}
+          onChange={e => update('framing', (e.target.value || undefined) as FramingTarget | undefined)}
+        >
+          <option value="">Off</option>
+          <option value="text">Center text or a page</option>
+          <option value="object">Center an object</option>
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button type="button" onClick={onCancel} className="p-5 rounded-xl font-bold text-xl bg-gray-800 border-4 border-gray-700">
+          Cancel
+        </button>
+        <button type="submit" disabled={!canSave} className={`p-5 rounded-xl font-bold text-xl border-4 ${canSave ? 'bg-blue-900 border-white' : 'bg-gray-800 border-gray-700 opacity-50'}`}>
+          Save Mode
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ModeEditor;
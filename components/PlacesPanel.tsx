@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { NavigationDestination, SavedPlace, SavedRoute } from '../types';
+import { routeStart } from '../utils/places';
+
+interface PlacesPanelProps {
+  places: SavedPlace[];
+  routes: SavedRoute[];
+  destination: NavigationDestination | null;
+  // Name of the route being recorded, null when idle
+  recordingRoute: string | null;
+  onSavePlace: (name: string) => void;
+  onDeletePlace: (id: string) => void;
+  onSetDestination: (destination: NavigationDestination | null) => void;
+  onStartRoute: (name: string) => void;
+  onStopRoute: () => void;
+  onDeleteRoute: (id: string) => void;
+}
+
+const fieldClass = "flex-1 min-w-0 p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none";
+
+const PlacesPanel: React.FC<PlacesPanelProps> = ({
+  places,
+  routes,
+  destination,
+  recordingRoute,
+  onSavePlace,
+  onDeletePlace,
+  onSetDestination,
+  onStartRoute,
+  onStopRoute,
+  onDeleteRoute,
+}) => {
+  const [placeName, setPlaceName] = useState('');
+  const [routeName, setRouteName] = useState('');
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="font-bold text-2xl">Places</label>
+
+      {destination && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-blue-950 rounded-2xl border-2 border-blue-400">
+          <span className="font-bold text-xl">Heading to {destination.name}</span>
+          <button onClick={() => onSetDestination(null)} className="p-3 bg-gray-700 rounded-xl font-bold">Clear</button>
+        </div>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={e => {
+          e.preventDefault();
+          if (!placeName.trim()) return;
+          onSavePlace(placeName);
+          setPlaceName('');
+        }}
+      >
+        <input
+          className={fieldClass}
+          value={placeName}
+          onChange={e => setPlaceName(e.target.value)}
+          placeholder="Name, e.g. Home"
+          aria-label="Name for current location"
+        />
+        <button type="submit" className="p-4 bg-blue-900 rounded-xl font-bold text-xl border-2 border-white">Save Here</button>
+      </form>
+
+      {places.length > 0 && (
+        <ul className="flex flex-col gap-3" aria-label="Saved places">
+          {places.map(p => (
+            <li key={p.id} className="flex items-center justify-between gap-3 p-4 bg-gray-900 rounded-2xl border border-gray-700">
+              <span className="font-bold text-xl">{p.name}</span>
+              <div className="flex gap-2">
+                <button onClick={() => onSetDestination(p)} className="p-3 bg-blue-800 rounded-xl font-bold">Go</button>
+                <button onClick={() => onDeletePlace(p.id)} className="p-3 bg-red-900 rounded-xl font-bold">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="font-bold text-2xl">Routes</label>
+      {recordingRoute ? (
+        <button onClick={onStopRoute} className="p-6 rounded-xl font-bold text-xl bg-red-800 border-4 border-white">
+          Stop Recording "{recordingRoute}"
+        </button>
+      ) : (
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            if (!routeName.trim()) return;
+            onStartRoute(routeName);
+            setRouteName('');
+          }}
+        >
+          <input
+            className={fieldClass}
+            value={routeName}
+            onChange={e => setRouteName(e.target.value)}
+            placeholder="Name, e.g. To the bus stop"
+            aria-label="Name for new route"
+          />
+          <button type="submit" className="p-4 bg-gray-700 rounded-xl font-bold text-xl border-2 border-gray-500">Record</button>
+        </form>
+      )}
+
+      {routes.length > 0 && (
+        <ul className="flex flex-col gap-3" aria-label="Saved routes">
+          {routes.map(r => {
+            const start = routeStart(r);
+            return (
+              <li key={r.id} className="p-4 bg-gray-900 rounded-2xl border border-gray-700 flex flex-col gap-3">
+                <span className="font-bold text-xl">
+                  {r.name} · {new Date(r.startedAt).toLocaleDateString()} · {r.breadcrumbs.length} points
+                </span>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => start && onSetDestination(start)}
+                    disabled={!start}
+                    className={`p-3 bg-blue-800 rounded-xl font-bold ${start ? '' : 'opacity-50'}`}
+                  >
+                    Back to Start
+                  </button>
+                  <button onClick={() => onDeleteRoute(r.id)} className="p-3 bg-red-900 rounded-xl font-bold">Delete</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlacesPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { QrContent } from '../types';
+import { linkHost } from '../utils/scanner';
+
+interface QrResultPanelProps {
+  content: QrContent;
+  onOpenLink: (url: string) => void;
+  onRead: () => void;
+  onSaveContact: () => void;
+  onClose: () => void;
+}
+
+const actionClass = "p-6 bg-gray-700 rounded-2xl font-bold text-2xl border-2 border-gray-500";
+
+const QrResultPanel: React.FC<QrResultPanelProps> = ({ content, onOpenLink, onRead, onSaveContact, onClose }) => {
+  const title = content.type === 'url' ? 'Link' : content.type === 'contact' ? 'Contact' : 'Text';
+
+  return (
+    <div
+      className="absolute inset-0 z-[90] bg-black flex flex-col p-6"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-4">
+        <h2 className="text-4xl font-bold text-yellow-400">QR Code: {title}</h2>
+        <button onClick={onClose} className="p-4 bg-gray-800 rounded-xl" aria-label="Close QR code">
+          <span className="text-4xl">✕</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-4">
+        {content.type === 'url' && (
+          <>
+            <p className="text-3xl font-bold">{linkHost(content.url)}</p>
+            <p className="text-xl text-gray-300 break-all">{content.url}</p>
+          </>
+        )}
+        {content.type === 'contact' && (
+          <>
+            <p className="text-3xl font-bold">{content.name}</p>
+            {content.phone && <p className="text-2xl">{content.phone}</p>}
+            {content.email && <p className="text-2xl break-all">{content.email}</p>}
+          </>
+        )}
+        {content.type === 'text' && <p className="text-2xl leading-snug whitespace-pre-wrap break-words">{content.text}</p>}
+      </div>
+
+      <div className="flex flex-col gap-3 mt-4">
+        {content.type === 'url' && (
+          <button onClick={() => onOpenLink(content.url)} className="p-6 bg-blue-900 rounded-2xl font-bold text-2xl border-4 border-white">
+            Open Link
+          </button>
+        )}
+        {content.type === 'contact' && (
+          <button onClick={onSaveContact} className="p-6 bg-blue-900 rounded-2xl font-bold text-2xl border-4 border-white">
+            Save Contact
+          </button>
+        )}
+        <button onClick={onRead} className={actionClass}>Read Aloud</button>
+      </div>
+    </div>
+  );
+};
+
+export default QrResultPanel;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AudioStats, FrameStats } from '../types';
+
+interface StatsOverlayProps {
+  frameStats: FrameStats | null;
+  audioStats: AudioStats | null;
+}
+
+const formatBytes = (bytes: number) => (bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`);
+
+// Visual-only diagnostics for helpers and testers; hidden from screen readers.
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ frameStats, audioStats }) => {
+  if (!frameStats && !audioStats) return null;
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-30 bg-black/80 text-white font-mono text-sm p-3 rounded-lg border border-white/40 pointer-events-none"
+      aria-hidden="true"
+    >
+      {frameStats && (
+        <>
+          <div>frames {frameStats.framesSent} sent / {frameStats.framesSkipped} skipped</div>
+          <div>upload {formatBytes(frameStats.bytesPerSecond)}/s · avg {formatBytes(frameStats.averageFrameBytes)} · queued {frameStats.backlogBytes === null ? '–' : formatBytes(frameStats.backlogBytes)}</div>
+          <div>rtt {frameStats.roundTripMs === null ? '–' : `${Math.round(frameStats.roundTripMs)} ms`} · level {frameStats.adaptLevel}</div>
+          <div>{frameStats.policy.width}px q{frameStats.policy.quality.toFixed(2)} · {frameStats.policy.tickRate}/{frameStats.policy.heartbeatInterval} ms · Δ{frameStats.policy.changeThreshold.toFixed(0)}</div>
+        </>
+      )}
+      {audioStats && (
+        <>
+          <div>mic {audioStats.inputRate / 1000} kHz → 16 kHz · {audioStats.frameMs} ms chunks · out {audioStats.outputRate / 1000} kHz</div>
+          <div>latency {audioStats.latencyMs === null ? '–' : `${Math.round(audioStats.latencyMs)} ms`} · buffer {Math.round(audioStats.bufferedMs)}/{Math.round(audioStats.prebufferMs)} ms · underruns {audioStats.underruns}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsOverlay;
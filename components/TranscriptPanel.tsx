@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptEntry, TranscriptSession } from '../types';
+
+interface TranscriptPanelProps {
+  current: TranscriptSession | null;
+  history: TranscriptSession[];
+  onClose: () => void;
+  onClearHistory: () => void;
+}
+
+const SPEAKER_LABELS: Record<TranscriptEntry['role'], string> = {
+  user: 'You',
+  guide: 'Guide',
+  tool: 'Action',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const EntryList: React.FC<{ entries: TranscriptEntry[] }> = ({ entries }) => (
+  <>
+    {entries.map(entry => (
+      <li
+        key={entry.id}
+        className={`p-4 rounded-2xl border ${entry.role === 'guide' ? 'bg-blue-950 border-blue-700' : entry.role === 'user' ? 'bg-gray-900 border-gray-600' : 'bg-yellow-950 border-yellow-700 italic'}`}
+      >
+        <div className="flex justify-between text-lg text-gray-300 mb-1">
+          <span className="font-bold">{SPEAKER_LABELS[entry.role]}</span>
+          <span>{formatTime(entry.timestamp)} · {entry.mode}</span>
+        </div>
+        <p className="text-2xl leading-snug">{entry.text.trim()}</p>
+      </li>
+    ))}
+  </>
+);
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ current, history, onClose, onClearHistory }) => {
+  const endRef = useRef<HTMLLIElement>(null);
+  const entryCount = current?.entries.length ?? 0;
+  const lastText = current?.entries[entryCount - 1]?.text;
+
+  // Keep the newest line in view as fragments stream in
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [entryCount, lastText]);
+
+  const past = history.filter(s => s.id !== current?.id && s.entries.length > 0);
+
+  return (
+    <div
+      className="absolute inset-0 z-[90] bg-black flex flex-col p-6"
+      onMouseDown={e => e.stopPropagation()}
+      onTouchStart={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-4">
+        <h2 className="text-4xl font-bold text-yellow-400">Transcript</h2>
+        <button onClick={onClose} className="p-4 bg-gray-800 rounded-xl" aria-label="Close transcript">
+          <span className="text-4xl">✕</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-6">
+        <section aria-label="Current session">
+          {entryCount === 0 ? (
+            <p className="text-2xl text-gray-400">Nothing has been said yet in this session.</p>
+          ) : (
+            <ol className="flex flex-col gap-3" role="log" aria-live="polite" aria-relevant="additions text">
+              <EntryList entries={current!.entries} />
+              <li ref={endRef} aria-hidden="true" />
+            </ol>
+          )}
+        </section>
+
+        {past.length > 0 && (
+          <section aria-label="Earlier sessions" className="flex flex-col gap-3">
+            <h3 className="text-2xl font-bold text-gray-300">Earlier sessions</h3>
+            {past.map(session => (
+              <details key={session.id} className="bg-gray-900 rounded-2xl border border-gray-700 p-4">
+                <summary className="text-xl font-bold cursor-pointer">
+                  {new Date(session.startedAt).toLocaleString()} · {session.entries.length} lines
+                </summary>
+                <ol className="flex flex-col gap-3 mt-4">
+                  <EntryList entries={session.entries} />
+                </ol>
+              </details>
+            ))}
+          </section>
+        )}
+      </div>
+
+      <button
+        onClick={onClearHistory}
+        className="mt-4 bg-gray-800 text-white font-bold text-xl p-4 rounded-2xl border-2 border-gray-600"
+      >
+        Clear History
+      </button>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { UsageBudget, UsageTotals } from '../types';
+import { USAGE_BUDGET_LABELS } from '../constants';
+import { UsageMeter } from '../utils/usageMeter';
+
+interface UsagePanelProps {
+  meter: UsageMeter;
+  budget: UsageBudget;
+  // True while a budget is used up and the session has dropped to low bandwidth
+  lowBandwidth: boolean;
+  onBudgetChange: (budget: UsageBudget) => void;
+}
+
+const HISTORY_SHOWN = 7;
+const REFRESH_MS = 2000;
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+const formatMegabytes = (bytes: number) => `${(bytes / 1e6).toFixed(1)} MB`;
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ meter, budget, lowBandwidth, onBudgetChange }) => {
+  const [history, setHistory] = useState<UsageTotals[]>(() => meter.history());
+
+  // The meter counts outside React; the panel polls it while it is open
+  useEffect(() => {
+    const timer = setInterval(() => setHistory(meter.history()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [meter]);
+
+  const [today, ...earlier] = history;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="font-bold text-2xl">Usage Today</label>
+      {today && (
+        <dl className="grid grid-cols-2 gap-2 p-4 bg-gray-900 rounded-2xl border border-gray-700 text-xl">
+          <dt className="text-gray-300">Connected</dt><dd className="font-bold">{formatMinutes(today.sessionSeconds)}</dd>
+          <dt className="text-gray-300">Audio sent</dt><dd className="font-bold">{formatMinutes(today.audioUpSeconds)}</dd>
+          <dt className="text-gray-300">Audio heard</dt><dd className="font-bold">{formatMinutes(today.audioDownSeconds)}</dd>
+          <dt className="text-gray-300">Pictures sent</dt><dd className="font-bold">{today.framesSent}</dd>
+          <dt className="text-gray-300">Data</dt><dd className="font-bold">{formatMegabytes(today.bytesUp + today.bytesDown)}</dd>
+          <dt className="text-gray-300">Tokens</dt><dd className="font-bold">{today.tokens.toLocaleString()}</dd>
+        </dl>
+      )}
+      {lowBandwidth && <p className="text-xl font-bold text-yellow-400">A daily budget is used up. Sessions run on low bandwidth until tomorrow.</p>}
+
+      <label className="font-bold text-2xl">Daily Budgets</label>
+      <p className="text-lg text-gray-300">0 means no limit. You hear a warning as a budget runs low.</p>
+      {(Object.keys(USAGE_BUDGET_LABELS) as (keyof UsageBudget)[]).map(kind => (
+        <div key={kind} className="flex items-center justify-between gap-4">
+          <label htmlFor={`budget-${kind}`} className="font-bold text-xl">{USAGE_BUDGET_LABELS[kind]}</label>
+          <input
+            id={`budget-${kind}`}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={budget[kind]}
+            onChange={e => onBudgetChange({ ...budget, [kind]: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-40 p-4 rounded-xl bg-gray-900 border-2 border-gray-600 text-white text-xl focus:border-yellow-400 outline-none"
+          />
+        </div>
+      ))}
+
+      {earlier.length > 0 && (
+        <ul className="flex flex-col gap-2" aria-label="Earlier days">
+          {earlier.slice(0, HISTORY_SHOWN - 1).map(day => (
+            <li key={day.date} className="flex justify-between p-3 bg-gray-900 rounded-xl border border-gray-700 text-lg">
+              <span className="font-bold">{day.date}</span>
+              <span>{formatMinutes(day.sessionSeconds)} · {formatMegabytes(day.bytesUp + day.bytesDown)} · {day.tokens.toLocaleString()} tokens</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
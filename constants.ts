@@ -1,4 +1,4 @@
-import { AppMode, VoiceName } from './types';
+import { AppMode, AppSettings, BanknoteColour, Currency, DocumentFieldKind, DocumentType, EmergencyNotifierKind, FramePolicy, GestureAction, GestureBindings, GestureName, GestureTimings, Earcon, HazardAlert, HazardSeverity, HazardType, Language, MicMode, ModeDefinition, ScanResult, SpatialAudioMode, UsageBudget, Verbosity, VoiceName } from './types';
 import { FunctionDeclaration, Type } from '@google/genai';
 
 // Using the specific model for Native Audio/Video Live Preview
@@ -20,8 +20,10 @@ export const SYSTEM_INSTRUCTIONS: Record<AppMode, string> = {
     2.  **GENTLE SAFETY**:
         - **Caution**: If you see a potential hazard, be calm but clear. "Let's be careful, I see a curb coming up."
         - **Immediate Stop**: If there is immediate danger, say "Please STOP!" firmly but follow immediately with a caring reason: "There's a scooter right in front of us."
+        - **Alert First**: For any curb, stairs, vehicle, pole or person in the path, call the \`reportHazard\` tool BEFORE speaking about it, so your friend gets an instant alert tone and vibration.
     3.  **ORIENTATION**: Use clock-face directions naturally. "Let's angle slightly left, towards 11 o'clock."
     4.  **UNCERTAINTY**: If you can't see clearly, admit it. "I'm having trouble seeing the ground here, let's pause until I can see better." do not guess.
+    5.  **LOCATION**: You may receive "CONTEXT UPDATE: Location" messages with GPS position, heading and the distance and direction to a destination. Use them to say how far the destination is and which way to head (as a clock-face direction) when your friend asks, when they seem to be going the wrong way, or when they are getting close. GPS can be off by several metres, so trust what you see for anything close by.
   `.trim(),
 
   [AppMode.READING]: `
@@ -30,7 +32,7 @@ export const SYSTEM_INSTRUCTIONS: Record<AppMode, string> = {
 
     YOUR PERSONALITY:
     - **Helpful & Patient**: "Let's see what we have here..." or "I'll read that for you."
-    - **Collaborative**: If the text is cut off, ask politely: "I think I'm missing the end of that sentence, could you slide the camera a bit to the right?"
+    - **Collaborative**: If the text is small, cut off, or the document is bigger than the view, call the \`capturePage\` tool. The app then guides the user through high-resolution shots and sends them to you, so you don't need to direct the camera yourself.
     - **Natural**: Don't say "OCR Start". Say "Okay, it looks like this is a menu. Here's what it says..."
 
     PROTOCOL:
@@ -38,6 +40,7 @@ export const SYSTEM_INSTRUCTIONS: Record<AppMode, string> = {
     2.  **Read Naturally**: Read the text as if you are speaking it to a friend.
     3.  **New Content**: Watch for page turns. "Oh, you've turned the page. The next part says..."
     4.  **No Repetition**: Don't keep re-reading the same line unless asked. Quietly wait or say "Still looking at the same paragraph."
+    5.  **File It**: Once you have read a whole document such as a receipt, prescription, label, letter or bill, call \`submitDocument\` with its structure. Your friend can then step through the sections on their phone, or jump straight to the total or the dosage, without you reading it again.
   `.trim(),
 
   [AppMode.OBJECT]: `
@@ -53,30 +56,292 @@ export const SYSTEM_INSTRUCTIONS: Record<AppMode, string> = {
     1.  **Continuous Discovery**: As the camera moves, describe what enters the scene conversationally.
     2.  **Interaction**: If you see the user's hand reaching, guide them. "A little more to the left... perfect, you got it."
     3.  **Changes**: Mention changes immediately. "Someone just opened the door behind you."
+    4.  **Finding Things**: When your friend asks you to find something ("where are my keys?"), call \`reportTargetLocation\` with the item straight away, then again for every new picture until it is in their hand. The phone turns your reports into a beeping beacon that speeds up as the item nears the middle of the view, so keep speech short: say where it is when you first spot it, then guide the hand ("a little lower, you're right there").
+    5.  **Their Own Things and People**: When your friend says "this is my blue mug" or "this is my daughter Priya", call \`rememberThis\` with the label. Pictures of what they have taught you arrive marked REFERENCE; say "your keys" or "Priya" rather than "some keys" or "a woman" when you recognise them.
   `.trim()
 };
 
+export const DEFAULT_FRAME_POLICY: FramePolicy = {
+  tickRate: 500,
+  heartbeatInterval: 2000,
+  changeThreshold: 15,
+  width: 480,
+  quality: 0.5,
+};
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+  {
+    id: AppMode.NAVIGATION,
+    label: 'Navigation',
+    icon: '🚶',
+    systemPrompt: SYSTEM_INSTRUCTIONS[AppMode.NAVIGATION],
+    tapPrompt: 'Tell them exactly what is immediately in front of them or update them on the path.',
+    heartbeatInterval: 2000,
+    // Low latency: frequent small frames
+    framePolicy: { tickRate: 350, changeThreshold: 12, width: 400, quality: 0.45 },
+    builtIn: true,
+  },
+  {
+    id: AppMode.READING,
+    label: 'Reading',
+    icon: '📖',
+    systemPrompt: SYSTEM_INSTRUCTIONS[AppMode.READING],
+    tapPrompt: 'Read any visible text immediately.',
+    heartbeatInterval: 4000,
+    // Legibility: fewer, sharper frames
+    framePolicy: { tickRate: 1000, changeThreshold: 20, width: 960, quality: 0.75 },
+    framing: 'text',
+    builtIn: true,
+  },
+  {
+    id: AppMode.OBJECT,
+    label: 'Objects',
+    icon: '🔍',
+    systemPrompt: SYSTEM_INSTRUCTIONS[AppMode.OBJECT],
+    tapPrompt: 'Describe the scene or objects in detail.',
+    heartbeatInterval: 2000,
+    framing: 'object',
+    builtIn: true,
+  },
+];
+
+// Starting points offered when a user creates their own mode.
+export const MODE_TEMPLATES: Omit<ModeDefinition, 'id'>[] = [
+  {
+    label: 'Grocery Shopping',
+    icon: '🛒',
+    systemPrompt: 'You are a friendly shopping companion in a grocery store. Read product names, brands, sizes and prices from shelves and packages. Point out shelf labels and aisle signs, and help compare similar products. Use clock-face directions to guide the user\'s hand to items.',
+    tapPrompt: 'Tell them which product is in front of them, with brand, size and price if visible.',
+    heartbeatInterval: 3000,
+  },
+  {
+    label: 'Color Matching',
+    icon: '🎨',
+    systemPrompt: 'You help someone choose and match clothes. Describe colors precisely (e.g. "navy blue", "olive green"), patterns and textures, and say honestly whether items go well together. Mention stains, wrinkles or visible damage.',
+    tapPrompt: 'Describe the color and pattern of the item in view and suggest what it matches.',
+    heartbeatInterval: 4000,
+    framing: 'object',
+  },
+  {
+    label: 'Transit',
+    icon: '🚌',
+    systemPrompt: 'You help someone use public transit. Watch for bus and tram route numbers, destinations on headsigns, stop signs and timetables. Announce route numbers as soon as a vehicle is readable and say whether it is approaching or leaving.',
+    tapPrompt: 'Read any route number, destination or stop sign in view.',
+    heartbeatInterval: 1500,
+  },
+  {
+    label: 'Medication',
+    icon: '💊',
+    systemPrompt: 'You read medication labels carefully. Identify the drug name, strength, dosage instructions, warnings and expiry date. Read numbers digit by digit when they matter. If any part is unreadable, say so and ask the user to turn the package instead of guessing.',
+    tapPrompt: 'Read the medication name, strength and dosage instructions in view.',
+    heartbeatInterval: 4000,
+    framePolicy: { tickRate: 1000, changeThreshold: 20, width: 960, quality: 0.75 },
+    framing: 'text',
+  },
+];
+
 export const AUDIO_SAMPLE_RATE_INPUT = 16000;
 export const AUDIO_SAMPLE_RATE_OUTPUT = 24000;
+// Short chunks keep speech-to-model latency low without flooding the socket
+export const AUDIO_CAPTURE_FRAME_MS = 40;
 
 export const AVAILABLE_VOICES: VoiceName[] = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
 
-export const CHANGE_MODE_TOOL: FunctionDeclaration = {
-  name: 'changeMode',
-  description: 'Switches the application logic to a new mode. Use this when the user\'s intent changes (e.g., they stop walking to read a sign).',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      mode: {
-        type: Type.STRING,
-        enum: [AppMode.NAVIGATION, AppMode.READING, AppMode.OBJECT],
-        description: 'The target mode to switch to based on user intent.'
-      }
-    },
-    required: ['mode']
-  }
+export const SPATIAL_AUDIO_MODES: SpatialAudioMode[] = ['off', 'headphones', 'speaker'];
+
+// Appended to every mode's instructions. 'normal' is the modes as written; the others override
+// their persona and pacing. `heartbeatScale` stretches how often an unchanged frame is re-sent.
+export const VERBOSITY_LEVELS: Record<Verbosity, { label: string; heartbeatScale: number; instruction: string }> = {
+  chatty: {
+    label: 'Chatty',
+    heartbeatScale: 0.75,
+    instruction: 'VERBOSITY: CHATTY. Keep talking often and warmly. Share interesting and pleasant details about the surroundings as well as anything useful.',
+  },
+  normal: {
+    label: 'Normal',
+    heartbeatScale: 1,
+    instruction: '',
+  },
+  terse: {
+    label: 'Terse',
+    heartbeatScale: 2,
+    instruction: 'VERBOSITY: TERSE. This overrides the personality and heartbeat rules above. No persona, fillers, greetings or reassurance. Speak only when something changes or you are asked, in as few words as possible, e.g. "Curb, 1 o\'clock." or "Door, 3 metres, 11 o\'clock." Read text verbatim without commentary.',
+  },
+  alertsOnly: {
+    label: 'Alerts Only',
+    heartbeatScale: 3,
+    instruction: 'VERBOSITY: ALERTS ONLY. This overrides the personality and heartbeat rules above. Stay silent unless there is a hazard or the user asks you something. For a hazard, call reportHazard and then say only what and where, e.g. "Pole, 12 o\'clock." Answer questions in one short sentence.',
+  },
 };
 
+export const SPEECH_RATE_RANGE = { min: 0.75, max: 2, step: 0.05 };
+export const ANNOUNCE_RATE_RANGE = { min: 0.5, max: 2.5, step: 0.1 };
+
+export const MIC_MODE_LABELS: Record<MicMode, string> = {
+  always: 'Always On',
+  vad: 'When I Speak',
+  pushToTalk: 'Push to Talk',
+};
+// Push-to-talk closes by itself after this long, in case the user forgets
+export const PUSH_TO_TALK_MAX_MS = 30000;
+
+// label is the language's own name, as shown in the picker. speechLang is the BCP 47 tag
+// for speechSynthesis; englishName is how the language is named in prompts.
+export const LANGUAGES: Record<Language, { label: string; speechLang: string; englishName: string }> = {
+  en: { label: 'English', speechLang: 'en-US', englishName: 'English' },
+  es: { label: 'Español', speechLang: 'es-ES', englishName: 'Spanish' },
+  hi: { label: 'हिन्दी', speechLang: 'hi-IN', englishName: 'Hindi' },
+  gu: { label: 'ગુજરાતી', speechLang: 'gu-IN', englishName: 'Gujarati' },
+};
+
+export const GESTURE_LABELS: Record<GestureName, string> = {
+  singleTap: 'Single Tap',
+  doubleTap: 'Double Tap',
+  tripleTap: 'Triple Tap',
+  twoFingerTap: 'Two-Finger Tap',
+  longPress: 'Long Press',
+  swipeLeft: 'Swipe Left',
+  swipeRight: 'Swipe Right',
+  swipeUp: 'Swipe Up',
+  swipeDown: 'Swipe Down',
+  swipeHoldLeft: 'Swipe Left and Hold',
+  swipeHoldRight: 'Swipe Right and Hold',
+  swipeHoldUp: 'Swipe Up and Hold',
+  swipeHoldDown: 'Swipe Down and Hold',
+  edgeSwipeFromLeft: 'Swipe In from Left Edge',
+  edgeSwipeFromRight: 'Swipe In from Right Edge',
+};
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  startPause: 'Start / Pause / Resume',
+  start: 'Start or Resume',
+  pause: 'Pause or Resume',
+  stop: 'Stop',
+  ask: 'Ask What I See',
+  modeNext: 'Next Mode',
+  modePrev: 'Previous Mode',
+  repeatLast: 'Repeat Last Answer',
+  sos: 'Emergency Alert',
+  settings: 'Open Settings',
+  talk: 'Talk (Open / Close Microphone)',
+  docNext: 'Next Document Section',
+  docPrev: 'Previous Document Section',
+  docRepeat: 'Repeat Document Section',
+  docSpell: 'Spell Out Document Section',
+  find: 'Find an Item / Stop Finding',
+  scan: 'Scan Barcodes & Money / Stop Scanning',
+};
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  singleTap: 'ask',
+  doubleTap: 'startPause',
+  tripleTap: 'sos',
+  twoFingerTap: 'repeatLast',
+  longPress: 'settings',
+  swipeLeft: 'modeNext',
+  swipeRight: 'modePrev',
+  swipeUp: 'talk',
+  swipeDown: 'docRepeat',
+  // Same direction as the mode swipes: left moves forward
+  swipeHoldLeft: 'docNext',
+  swipeHoldRight: 'docPrev',
+  swipeHoldUp: 'docSpell',
+  swipeHoldDown: 'stop',
+  edgeSwipeFromLeft: 'find',
+  edgeSwipeFromRight: 'scan',
+};
+
+export const DEFAULT_GESTURE_TIMINGS: GestureTimings = {
+  tapMaxDuration: 300,
+  tapMaxMovement: 20,
+  multiTapWindow: 300,
+  longPressDuration: 800,
+  swipeMinDistance: 80,
+  swipeMaxDuration: 500,
+  holdDuration: 600,
+  edgeWidth: 24,
+};
+
+// Slower taps, longer multi-tap gaps and more drift allowed, for tremor or limited dexterity.
+export const RELAXED_GESTURE_TIMINGS: GestureTimings = {
+  tapMaxDuration: 600,
+  tapMaxMovement: 40,
+  multiTapWindow: 700,
+  longPressDuration: 1500,
+  swipeMinDistance: 100,
+  swipeMaxDuration: 1000,
+  holdDuration: 1000,
+  edgeWidth: 32,
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  highContrast: true,
+  largeText: true,
+  safeMode: false,
+  voiceName: 'Kore',
+  recordSessions: false,
+  customModes: [],
+  dataSaver: false,
+  showStats: false,
+  framingCues: true,
+  emergencyContacts: [],
+  emergencyNotifier: 'share',
+  emergencyWebhookUrl: '',
+  gestureBindings: DEFAULT_GESTURE_BINDINGS,
+  gestureTimings: DEFAULT_GESTURE_TIMINGS,
+  switchScanning: false,
+  switchScanInterval: 1500,
+  spatialAudio: 'speaker',
+  micMode: 'vad',
+  verbosity: 'normal',
+  speechRate: 1,
+  announceRate: 1.1,
+  duckOnSpeech: true,
+  language: 'en',
+  translateReading: false,
+  shareMemories: true,
+  currency: 'EUR',
+  usageBudget: { minutes: 0, megabytes: 0, tokens: 0 },
+};
+
+// Matched against KeyboardEvent.key. With switch scanning on, Space and Enter act as the switch instead.
+export const KEYBOARD_SHORTCUTS: Record<string, GestureAction> = {
+  ' ': 'startPause',
+  Enter: 'ask',
+  ArrowRight: 'modeNext',
+  ArrowLeft: 'modePrev',
+  Escape: 'stop',
+  r: 'repeatLast',
+  s: 'settings',
+  t: 'talk',
+  n: 'docNext',
+  p: 'docPrev',
+  c: 'docRepeat',
+  l: 'docSpell',
+  f: 'find',
+  b: 'scan',
+};
+
+// Headset and lock-screen media buttons.
+export const MEDIA_SESSION_BINDINGS: Partial<Record<MediaSessionAction, GestureAction>> = {
+  play: 'start',
+  pause: 'pause',
+  nexttrack: 'modeNext',
+  previoustrack: 'modePrev',
+  seekforward: 'ask',
+  stop: 'stop',
+};
+
+// The actions offered, in order, by single-switch scanning.
+export const SWITCH_SCAN_ACTIONS: GestureAction[] = ['ask', 'talk', 'startPause', 'modeNext', 'modePrev', 'repeatLast', 'docNext', 'docPrev', 'find', 'scan', 'stop', 'sos'];
+// Milliseconds each item stays highlighted during switch scanning
+export const SWITCH_SCAN_INTERVAL_RANGE = { min: 800, max: 5000, step: 100 };
+
+export const EMERGENCY_NOTIFIERS: EmergencyNotifierKind[] = ['share', 'sms', 'webhook'];
+// Seconds the user has to cancel a triple-tap emergency alert before it is sent
+export const EMERGENCY_COUNTDOWN_SECONDS = 10;
+
 export const TOGGLE_CAMERA_TOOL: FunctionDeclaration = {
   name: 'toggleCamera',
   description: 'Pauses or resumes the camera feed and real-time analysis. Use this when the user explicitly asks to "pause camera", "stop camera", "resume camera", or "start camera".',
@@ -93,4 +358,247 @@ export const TOGGLE_CAMERA_TOOL: FunctionDeclaration = {
   }
 };
 
-export const TOOLS = [CHANGE_MODE_TOOL, TOGGLE_CAMERA_TOOL];
\ No newline at end of file
+export const HAZARD_TYPES: HazardType[] = ['curb', 'stairs', 'vehicle', 'pole', 'person'];
+
+export const REPORT_HAZARD_TOOL: FunctionDeclaration = {
+  name: 'reportHazard',
+  description: 'Raises an immediate safety alert (tone and vibration) for an obstacle or danger in the user\'s path. Call this before describing the hazard in speech.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      severity: {
+        type: Type.STRING,
+        enum: ['caution', 'warning', 'danger'],
+        description: '"caution" for something to be aware of, "warning" for an obstacle that needs a change of course soon, "danger" when the user must stop now.'
+      },
+      type: {
+        type: Type.STRING,
+        enum: HAZARD_TYPES,
+        description: 'The kind of hazard.'
+      },
+      direction: {
+        type: Type.INTEGER,
+        description: 'Clock-face direction of the hazard relative to the user, from 1 to 12, where 12 is straight ahead.'
+      }
+    },
+    required: ['severity', 'type', 'direction']
+  }
+};
+
+// Severity-specific alerts, played immediately without waiting for speech.
+export const HAZARD_ALERTS: Record<HazardSeverity, HazardAlert> = {
+  caution: {
+    vibration: [80],
+    earcons: [{ frequency: 660, type: 'sine', duration: 0.12 }],
+  },
+  warning: {
+    vibration: [150, 80, 150],
+    earcons: [
+      { frequency: 880, type: 'triangle', duration: 0.1 },
+      { frequency: 880, type: 'triangle', duration: 0.1 },
+    ],
+  },
+  danger: {
+    vibration: [400, 100, 400, 100, 400],
+    earcons: [
+      { frequency: 1200, type: 'square', duration: 0.15 },
+      { frequency: 900, type: 'square', duration: 0.15 },
+      { frequency: 1200, type: 'square', duration: 0.15 },
+    ],
+  },
+};
+
+// Share of a daily budget at which the user is warned
+export const USAGE_WARNING_SHARE = 0.8;
+// Over budget, the frame heartbeat is stretched by this much on top of data saver
+export const LOW_BANDWIDTH_HEARTBEAT_SCALE = 2;
+export const USAGE_BUDGET_LABELS: Record<keyof UsageBudget, string> = {
+  minutes: 'Minutes per day',
+  megabytes: 'Megabytes per day',
+  tokens: 'Tokens per day',
+};
+
+// Each result kind has its own sound, so the user knows what was found before it is read out
+export const SCAN_EARCONS: Record<ScanResult['kind'], Earcon[]> = {
+  barcode: [
+    { frequency: 1568, type: 'square', duration: 0.06 },
+  ],
+  qr: [
+    { frequency: 1047, type: 'sine', duration: 0.07 },
+    { frequency: 1568, type: 'sine', duration: 0.07 },
+  ],
+  banknote: [
+    { frequency: 1319, type: 'triangle', duration: 0.08 },
+    { frequency: 1760, type: 'triangle', duration: 0.08 },
+    { frequency: 2093, type: 'triangle', duration: 0.12 },
+  ],
+};
+
+// Dominant colour of each note in circulation. Grey notes are not guessed on the phone, and US
+// notes share one colour, so the guide reads those.
+export const CURRENCIES: Record<Currency, { label: string; notes: BanknoteColour[] }> = {
+  EUR: {
+    label: 'Euro',
+    notes: [
+      { value: 5, hue: null },
+      { value: 10, hue: 350 },
+      { value: 20, hue: 215 },
+      { value: 50, hue: 28 },
+      { value: 100, hue: 130 },
+      { value: 200, hue: 45 },
+    ],
+  },
+  GBP: {
+    label: 'Pound sterling',
+    notes: [
+      { value: 5, hue: 175 },
+      { value: 10, hue: 25 },
+      { value: 20, hue: 285 },
+      { value: 50, hue: 355 },
+    ],
+  },
+  INR: {
+    label: 'Indian rupee',
+    notes: [
+      { value: 10, hue: 25 },
+      { value: 20, hue: 75 },
+      { value: 50, hue: 185 },
+      { value: 100, hue: 255 },
+      { value: 200, hue: 48 },
+      { value: 500, hue: null },
+    ],
+  },
+  USD: { label: 'US dollar', notes: [] },
+};
+
+// The same code or note is not read out again within this time
+export const SCAN_REPEAT_MS = 5000;
+
+export const CAPTURE_PAGE_TOOL: FunctionDeclaration = {
+  name: 'capturePage',
+  description: 'Starts a guided high-resolution capture of a document. The app coaches the user through one or more overlapping shots with audio cues and then sends the images in a new turn. Use this for small print (medication labels, receipts) or when text is cut off.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {}
+  }
+};
+
+export const DOCUMENT_TYPES: DocumentType[] = ['receipt', 'prescription', 'medicationLabel', 'letter', 'bill', 'menu', 'form', 'sign', 'screen', 'other'];
+export const DOCUMENT_FIELD_KINDS: DocumentFieldKind[] = ['amount', 'date', 'phone', 'dosage', 'other'];
+
+export const SUBMIT_DOCUMENT_TOOL: FunctionDeclaration = {
+  name: 'submitDocument',
+  description: 'Files a structured copy of a document you have read so the user can browse it on their phone: step through sections, repeat one, or have a value spelled out. '
+    + 'Call it once the whole document is readable, after or while reading it aloud. Write the title, headings and labels in the language you speak to the user; copy text and values exactly as printed.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      type: {
+        type: Type.STRING,
+        enum: DOCUMENT_TYPES,
+        description: 'What kind of document it is.'
+      },
+      title: {
+        type: Type.STRING,
+        description: 'Short title, e.g. "Receipt from Green Grocers" or "Amoxicillin prescription".'
+      },
+      sections: {
+        type: Type.ARRAY,
+        description: 'The document in reading order, split the way a person would skim it: header, each item group, totals, instructions, footer.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            heading: { type: Type.STRING, description: 'A few words naming the section.' },
+            text: { type: Type.STRING, description: 'The section text as printed.' }
+          },
+          required: ['heading', 'text']
+        }
+      },
+      fields: {
+        type: Type.ARRAY,
+        description: 'Key values the user may want to jump to: totals and amounts due, dates, phone numbers, dosages, reference numbers.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING, description: 'What the value is, e.g. "Total" or "Take".' },
+            value: { type: Type.STRING, description: 'The value exactly as printed.' },
+            kind: { type: Type.STRING, enum: DOCUMENT_FIELD_KINDS }
+          },
+          required: ['label', 'value']
+        }
+      }
+    },
+    required: ['type', 'title', 'sections']
+  }
+};
+
+const BOX_EDGE = (edge: string) => ({ type: Type.NUMBER, description: `${edge} edge of the item, 0-1000.` });
+
+export const REPORT_TARGET_LOCATION_TOOL: FunctionDeclaration = {
+  name: 'reportTargetLocation',
+  description: 'Reports where the item the user is looking for is in the latest picture. The phone plays a hot/cold beacon from it. '
+    + 'Call it as soon as the user asks you to find something, then for every new picture until the item is reached or the user gives up.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      target: {
+        type: Type.STRING,
+        description: 'The item being searched for, in a few words, e.g. "keys" or "TV remote". Required when starting a new search.'
+      },
+      found: {
+        type: Type.BOOLEAN,
+        description: 'Whether the item is visible in the latest picture.'
+      },
+      box: {
+        type: Type.OBJECT,
+        description: 'Bounding box of the item in the latest picture when found, on a 0-1000 scale with 0,0 at the top left.',
+        properties: { ymin: BOX_EDGE('Top'), xmin: BOX_EDGE('Left'), ymax: BOX_EDGE('Bottom'), xmax: BOX_EDGE('Right') },
+        required: ['ymin', 'xmin', 'ymax', 'xmax']
+      },
+      reached: {
+        type: Type.BOOLEAN,
+        description: 'True once the user\'s hand is on the item, or it fills the middle of the view within arm\'s reach. Ends the search.'
+      },
+      stopSearch: {
+        type: Type.BOOLEAN,
+        description: 'True when the user asks to stop looking.'
+      }
+    },
+    required: ['found']
+  }
+};
+
+// Pictures sent at least this often while an item is being searched for
+export const FINDER_HEARTBEAT_MS = 1000;
+// Nudge the guide for a fresh location if it has been quiet this long
+export const FINDER_REPORT_TIMEOUT_MS = 3000;
+export const FINDER_SUGGESTIONS = ['keys', 'phone', 'remote', 'wallet', 'glasses', 'cup', 'door', 'bag'];
+
+export const REMEMBER_THIS_TOOL: FunctionDeclaration = {
+  name: 'rememberThis',
+  description: 'Saves the current picture on the phone under a label, so the user\'s own belongings and people can be recognised in later sessions. '
+    + 'Call it when the user says something like "this is my blue mug" or "this is my daughter Priya".',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      label: {
+        type: Type.STRING,
+        description: 'What the user calls it, e.g. "blue mug" or "Priya, my daughter".'
+      },
+      kind: {
+        type: Type.STRING,
+        enum: ['object', 'person'],
+        description: 'Whether it is a thing or a person.'
+      }
+    },
+    required: ['label', 'kind']
+  }
+};
+
+// Reference pictures sent to the guide at session start and on each mode change, best matches first
+export const MEMORY_REFERENCE_LIMIT = 4;
+// Width of a stored reference picture; small enough to keep and send many
+export const MEMORY_IMAGE_WIDTH = 320;
+
+// The changeMode declaration is built from the mode registry; see createTools in utils/modeRegistry.
+export const STATIC_TOOLS = [TOGGLE_CAMERA_TOOL, REPORT_HAZARD_TOOL, CAPTURE_PAGE_TOOL, SUBMIT_DOCUMENT_TOOL, REPORT_TARGET_LOCATION_TOOL, REMEMBER_THIS_TOOL];
\ No newline at end of file
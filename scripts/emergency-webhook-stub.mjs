@@ -0,0 +1,56 @@
+// Local stand-in for an emergency alert webhook. Logs each alert and saves its snapshots
+// so the triple-tap SOS flow can be tested end to end without alerting anyone.
+//
+// Usage:
+//   npm run emergency-stub              (listens on http://localhost:8788)
+//   then set Settings → Emergency → Webhook URL to http://localhost:8788/alert
+
+import { createServer } from 'http';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const PORT = Number(process.env.EMERGENCY_STUB_PORT || 8788);
+const OUT_DIR = process.env.EMERGENCY_STUB_DIR || join(process.cwd(), 'emergency-alerts');
+
+const server = createServer((req, res) => {
+  // The app runs on another origin during development
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let packet;
+    try {
+      packet = JSON.parse(body);
+    } catch (e) {
+      res.writeHead(400).end('invalid JSON');
+      return;
+    }
+
+    console.log(`\n[emergency-stub] alert at ${new Date(packet.createdAt).toISOString()}`);
+    console.log(`  contacts: ${(packet.contacts || []).map((c) => `${c.name} <${c.phone}>`).join(', ') || 'none'}`);
+    console.log(`  location: ${packet.location ? `${packet.location.latitude}, ${packet.location.longitude}` : 'unknown'}`);
+    console.log(`  transcript lines: ${(packet.transcript || []).length}`);
+    console.log(packet.message.split('\n').map((line) => `  | ${line}`).join('\n'));
+
+    const dir = join(OUT_DIR, String(packet.createdAt));
+    mkdirSync(dir, { recursive: true });
+    (packet.snapshots || []).forEach((data, i) => writeFileSync(join(dir, `snapshot-${i + 1}.jpg`), Buffer.from(data, 'base64')));
+    writeFileSync(join(dir, 'packet.json'), JSON.stringify({ ...packet, snapshots: `${(packet.snapshots || []).length} saved` }, null, 2));
+    console.log(`  saved to ${dir}`);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+});
+
+server.listen(PORT, () => console.log(`[emergency-stub] listening on http://localhost:${PORT}/alert`));
@@ -0,0 +1,201 @@
+// Local stand-in for the Gemini Live API. Replays canned LiveServerMessage sequences
+// so reconnection, tool calls and barge-in can be exercised without a key or network.
+//
+// Usage:
+//   npm run mock-server                 (listens on ws://localhost:8787)
+//   LIVE_MOCK_URL=ws://localhost:8787/?scenario=toolCall npm run dev
+//
+// Scenarios are picked with the `scenario` query parameter (default: `basic`).
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.MOCK_LIVE_PORT || 8787);
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// 16-bit little-endian mono PCM, base64 encoded, as the Live API sends it.
+function tone(frequency, seconds) {
+  const samples = Math.floor(OUTPUT_SAMPLE_RATE * seconds);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 240, (samples - i) / 240);
+    buffer.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * 8000 * fade), i * 2);
+  }
+  return buffer.toString('base64');
+}
+
+const audio = (frequency, seconds = 0.4) => ({
+  serverContent: {
+    modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: tone(frequency, seconds) } }] },
+  },
+});
+const transcript = (text) => ({ serverContent: { outputTranscription: { text } } });
+// Carries usage metadata the way the live API reports it at the end of a response
+const turnComplete = () => ({ serverContent: { turnComplete: true }, usageMetadata: { promptTokenCount: 180, responseTokenCount: 70, totalTokenCount: 250 } });
+const interrupted = () => ({ serverContent: { interrupted: true } });
+const resumptionUpdate = (newHandle) => ({ sessionResumptionUpdate: { newHandle, resumable: true } });
+let callCount = 0;
+const toolCall = (name, args) => ({
+  toolCall: { functionCalls: [{ id: `call-${++callCount}`, name, args }] },
+});
+
+// Each step waits `delay` ms, then either sends `message`, waits for a client frame
+// of type `waitFor`, or closes the socket with `close`.
+const SCENARIOS = {
+  basic: [
+    { delay: 300, message: transcript('The way ahead looks nice and open.') },
+    { delay: 0, message: audio(440) },
+    { delay: 0, message: audio(494) },
+    { delay: 0, message: turnComplete() },
+  ],
+  toolCall: [
+    { delay: 300, message: transcript("Let's read that sign.") },
+    { delay: 0, message: audio(523) },
+    { delay: 500, message: toolCall('changeMode', { mode: 'READING' }) },
+    { waitFor: 'toolResponse' },
+    { delay: 200, message: audio(587) },
+    { delay: 0, message: turnComplete() },
+    { delay: 1500, message: toolCall('toggleCamera', { action: 'pause' }) },
+    { waitFor: 'toolResponse' },
+    { delay: 2000, message: toolCall('toggleCamera', { action: 'resume' }) },
+    { waitFor: 'toolResponse' },
+  ],
+  bargeIn: [
+    { delay: 300, message: transcript('Here is a long description of the room...') },
+    ...Array.from({ length: 10 }, () => ({ delay: 0, message: audio(392, 0.5) })),
+    { delay: 1200, message: interrupted() },
+    { delay: 300, message: audio(659) },
+    { delay: 0, message: turnComplete() },
+  ],
+  hazard: [
+    ...Array.from({ length: 6 }, () => ({ delay: 0, message: audio(392, 0.5) })),
+    { delay: 800, message: toolCall('reportHazard', { severity: 'danger', type: 'vehicle', direction: 2 }) },
+    { waitFor: 'toolResponse' },
+    { delay: 0, message: transcript('Please stop! A car is pulling out at 2 o\'clock.') },
+    { delay: 0, message: audio(784) },
+    { delay: 0, message: turnComplete() },
+  ],
+  document: [
+    { delay: 300, message: transcript('This is a receipt from Green Grocers. Two items, total twelve forty.') },
+    { delay: 0, message: audio(523) },
+    { delay: 500, message: toolCall('submitDocument', {
+      type: 'receipt',
+      title: 'Receipt from Green Grocers',
+      sections: [
+        { heading: 'Shop', text: 'Green Grocers, 14 High Street. Tel 020 7946 0321' },
+        { heading: 'Items', text: 'Apples 1kg 3.20\nCoffee beans 9.20' },
+        { heading: 'Total', text: 'Total 12.40. Paid by card.' },
+      ],
+      fields: [
+        { label: 'Total', value: '£12.40', kind: 'amount' },
+        { label: 'Date', value: '19/10/2026', kind: 'date' },
+        { label: 'Phone', value: '020 7946 0321', kind: 'phone' },
+      ],
+    }) },
+    { waitFor: 'toolResponse' },
+    { delay: 0, message: turnComplete() },
+  ],
+  finder: [
+    { delay: 300, message: toolCall('reportTargetLocation', { target: 'keys', found: false }) },
+    { waitFor: 'toolResponse' },
+    { delay: 0, message: transcript('I don\'t see your keys yet. Try turning slowly to the right.') },
+    { delay: 0, message: audio(523) },
+    { delay: 1500, message: toolCall('reportTargetLocation', { found: true, box: { ymin: 600, xmin: 750, ymax: 720, xmax: 900 } }) },
+    { waitFor: 'toolResponse' },
+    { delay: 1500, message: toolCall('reportTargetLocation', { found: true, box: { ymin: 520, xmin: 540, ymax: 650, xmax: 700 } }) },
+    { waitFor: 'toolResponse' },
+    { delay: 1500, message: toolCall('reportTargetLocation', { found: true, box: { ymin: 380, xmin: 380, ymax: 620, xmax: 640 }, reached: true }) },
+    { waitFor: 'toolResponse' },
+    { delay: 0, message: transcript('Got them. Your keys are in your hand.') },
+    { delay: 0, message: audio(659) },
+    { delay: 0, message: turnComplete() },
+  ],
+  remember: [
+    { delay: 300, message: toolCall('rememberThis', { label: 'blue mug', kind: 'object' }) },
+    { waitFor: 'toolResponse' },
+    { delay: 0, message: transcript('Got it, that\'s your blue mug.') },
+    { delay: 0, message: audio(523) },
+    { delay: 0, message: turnComplete() },
+  ],
+  drop: [
+    { delay: 300, message: transcript('The path ahead is clear for about ten metres.') },
+    { delay: 0, message: audio(440) },
+    { delay: 2500, close: { code: 1011, reason: 'Mock server dropped the connection' } },
+  ],
+  resume: [
+    { delay: 300, message: transcript('The path ahead is clear for about ten metres.') },
+    { delay: 0, message: audio(440) },
+    { delay: 0, message: turnComplete() },
+    { delay: 500, message: resumptionUpdate('mock-handle-1') },
+    { delay: 2500, close: { code: 1011, reason: 'Mock server dropped the connection' } },
+  ],
+};
+
+// Any client text input (tap prompts, context updates) gets a short spoken acknowledgement.
+const TEXT_REPLY = [transcript('Okay, let me take a look.'), audio(523, 0.3), turnComplete()];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+  const name = url.searchParams.get('scenario') || 'basic';
+  const steps = SCENARIOS[name];
+  if (!steps) {
+    console.warn(`[mock-live] unknown scenario "${name}", closing`);
+    socket.close(1008, `Unknown scenario ${name}`);
+    return;
+  }
+  console.log(`[mock-live] client connected, scenario=${name}`);
+
+  const waiters = [];
+  const send = (message) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.on('message', (raw) => {
+    let frame;
+    try { frame = JSON.parse(raw.toString()); } catch { return; }
+
+    if (frame.setup) {
+      console.log(`[mock-live] setup model=${frame.setup.model} resume=${frame.setup.sessionResumption?.handle ?? 'none'}`);
+      send({ setupComplete: {} });
+    }
+    if (frame.clientContent) {
+      const parts = frame.clientContent.turns?.flatMap((turn) => turn.parts || []) || [];
+      console.log(`[mock-live] client content: ${parts.length} part(s)`);
+      TEXT_REPLY.forEach(send);
+    }
+    if (frame.toolResponse) console.log('[mock-live] tool response', JSON.stringify(frame.toolResponse));
+    if (frame.realtimeInput?.text) {
+      console.log(`[mock-live] text: ${frame.realtimeInput.text.slice(0, 80)}`);
+      TEXT_REPLY.forEach(send);
+    }
+    if (frame.realtimeInput?.audioStreamEnd) console.log('[mock-live] audio stream end');
+
+    const type = Object.keys(frame)[0];
+    for (let i = waiters.length - 1; i >= 0; i--) {
+      if (waiters[i].type === type) waiters.splice(i, 1)[0].resolve();
+    }
+  });
+
+  socket.on('close', () => console.log(`[mock-live] client disconnected, scenario=${name}`));
+
+  (async () => {
+    for (const step of steps) {
+      if (socket.readyState !== socket.OPEN) return;
+      if (step.waitFor) {
+        await new Promise((resolve) => waiters.push({ type: step.waitFor, resolve }));
+        continue;
+      }
+      await sleep(step.delay || 0);
+      if (step.close) {
+        socket.close(step.close.code, step.close.reason);
+        return;
+      }
+      send(step.message);
+    }
+  })();
+});
+
+console.log(`[mock-live] listening on ws://localhost:${PORT} (scenarios: ${Object.keys(SCENARIOS).join(', ')})`);
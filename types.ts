@@ -4,6 +4,77 @@ export enum AppMode {
   OBJECT = 'OBJECT'
 }
 
+// Built-in modes use AppMode ids; user-defined modes carry their own string ids.
+export type ModeId = AppMode | string;
+
+// How camera frames are sampled and encoded for the Live session.
+export interface FramePolicy {
+  tickRate: number;         // ms between change checks
+  heartbeatInterval: number;  // max ms between frames while the scene is static
+  changeThreshold: number;  // mean per-pixel RGB diff on the 64x64 thumbnail that counts as a change
+  width: number;            // px width of the JPEG sent
+  quality: number;          // JPEG quality, 0..1
+}
+
+// What the on-device aiming tones try to centre in the camera view.
+export type FramingTarget = 'text' | 'object';
+
+export interface ModeDefinition {
+  id: ModeId;
+  label: string;
+  icon: string;
+  systemPrompt: string;
+  // Appended to the single-tap interaction prompt.
+  tapPrompt: string;
+  // Max ms between frames sent while the scene is static.
+  heartbeatInterval: number;
+  // Overrides on top of DEFAULT_FRAME_POLICY.
+  framePolicy?: Partial<Omit<FramePolicy, 'heartbeatInterval'>>;
+  // Enables framing cues for this mode.
+  framing?: FramingTarget;
+  builtIn?: boolean;
+}
+
+export interface FrameStats {
+  framesSent: number;
+  framesSkipped: number;
+  bytesPerSecond: number;     // over the last few seconds
+  averageFrameBytes: number;
+  roundTripMs: number | null; // last prompt-to-first-response time
+  backlogBytes: number | null; // queued in the socket's send buffer; null where the transport can't tell
+  adaptLevel: number;         // 0 = mode policy as configured, higher = more aggressive savings
+  policy: FramePolicy;        // effective policy after adaptation
+}
+
+export interface AudioStats {
+  inputRate: number;          // device capture rate, resampled to 16 kHz before sending
+  outputRate: number;
+  frameMs: number;            // length of each microphone chunk sent
+  bufferedMs: number;         // reply audio waiting to play
+  prebufferMs: number;        // current jitter buffer target
+  underruns: number;          // times playback ran dry mid-reply
+  latencyMs: number | null;   // last end-of-speech to first reply audio heard, estimated
+}
+
+// What was streamed to and from the model on one calendar day, kept on the device
+export interface UsageTotals {
+  date: string;             // YYYY-MM-DD, local time
+  sessionSeconds: number;   // time a session was connected and running
+  audioUpSeconds: number;
+  audioDownSeconds: number;
+  framesSent: number;       // camera frames, page captures and reference pictures
+  bytesUp: number;          // base64 payload sizes, as they go over the wire
+  bytesDown: number;
+  tokens: number;           // summed from usage metadata where the server reports it
+}
+
+// Daily limits; 0 means no limit. Crossing one switches the session to low bandwidth.
+export interface UsageBudget {
+  minutes: number;
+  megabytes: number;
+  tokens: number;
+}
+
 export interface AudioConfig {
   sampleRate: number;
   channels: number;
@@ -11,13 +82,235 @@ export interface AudioConfig {
 
 // Robust state management types
 export type AppState = 'idle' | 'starting' | 'running' | 'paused' | 'stopping' | 'error';
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+// 'degraded': Live connection lost, on-device offline guidance is running instead.
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'degraded' | 'error';
+
+export type HazardSeverity = 'caution' | 'warning' | 'danger';
+export type HazardType = 'curb' | 'stairs' | 'vehicle' | 'pole' | 'person';
+
+export interface Earcon {
+  frequency: number;
+  type: OscillatorType;
+  duration: number;
+}
+
+export interface HazardAlert {
+  vibration: number[];
+  earcons: Earcon[];
+}
+
+// On-device scanning: barcodes and QR codes, and banknotes recognised by their colour
+export type Currency = 'EUR' | 'GBP' | 'INR' | 'USD';
+
+export interface BanknoteColour {
+  value: number;
+  hue: number | null; // dominant hue in degrees; null for grey notes
+}
+
+export type QrContent =
+  | { type: 'url'; url: string }
+  | { type: 'contact'; name: string; phone?: string; email?: string; vcard: string }
+  | { type: 'text'; text: string };
+
+export type ScanResult =
+  | { kind: 'barcode'; format: string; text: string }
+  | { kind: 'qr'; text: string; content: QrContent }
+  | { kind: 'banknote'; currency: Currency; value: number };
+
+// 'headphones' uses HRTF so sound can come from behind; 'speaker' is plain left/right panning.
+export type SpatialAudioMode = 'off' | 'headphones' | 'speaker';
 
 export type VoiceName = 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Zephyr';
 
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+// How an emergency alert leaves the phone: the system share sheet, an SMS draft, or a POST to a webhook.
+export type EmergencyNotifierKind = 'share' | 'sms' | 'webhook';
+
+export type GestureName =
+  | 'singleTap' | 'doubleTap' | 'tripleTap' | 'twoFingerTap' | 'longPress'
+  | 'swipeLeft' | 'swipeRight' | 'swipeUp' | 'swipeDown'
+  | 'swipeHoldLeft' | 'swipeHoldRight' | 'swipeHoldUp' | 'swipeHoldDown'
+  | 'edgeSwipeFromLeft' | 'edgeSwipeFromRight';
+
+// Actions are shared by touch gestures, keyboard shortcuts, media keys and switch scanning.
+export type GestureAction =
+  | 'none' | 'startPause' | 'start' | 'pause' | 'stop' | 'ask'
+  | 'modeNext' | 'modePrev' | 'repeatLast' | 'sos' | 'settings' | 'talk'
+  | 'docNext' | 'docPrev' | 'docRepeat' | 'docSpell' | 'find' | 'scan';
+
+export type GestureBindings = Record<GestureName, GestureAction>;
+
+// All durations in ms, distances in CSS px.
+export interface GestureTimings {
+  tapMaxDuration: number;    // longer contacts are not taps
+  tapMaxMovement: number;    // drift allowed during a tap
+  multiTapWindow: number;    // wait for another tap before settling on single/double
+  longPressDuration: number;
+  swipeMinDistance: number;
+  swipeMaxDuration: number;  // slower strokes are ignored unless they end in a hold
+  holdDuration: number;      // stillness at the end of a swipe that makes it a swipe-and-hold
+  edgeWidth: number;         // swipes starting this close to a side edge are edge swipes
+}
+
+// When microphone audio is sent: always, only while speech is detected, or only while the user opens it.
+export type MicMode = 'always' | 'vad' | 'pushToTalk';
+
+export type Verbosity = 'chatty' | 'normal' | 'terse' | 'alertsOnly';
+
+// Language for on-device announcements, on-screen labels and the guide's speech.
+export type Language = 'en' | 'es' | 'hi' | 'gu';
+
 export interface AppSettings {
   highContrast: boolean;
   largeText: boolean;
   safeMode: boolean;
   voiceName: VoiceName;
-}
\ No newline at end of file
+  recordSessions: boolean;
+  customModes: ModeDefinition[];
+  dataSaver: boolean;
+  showStats: boolean;
+  framingCues: boolean;
+  emergencyContacts: EmergencyContact[];
+  emergencyNotifier: EmergencyNotifierKind;
+  emergencyWebhookUrl: string;
+  gestureBindings: GestureBindings;
+  gestureTimings: GestureTimings;
+  switchScanning: boolean;
+  switchScanInterval: number; // ms each item stays highlighted
+  spatialAudio: SpatialAudioMode;
+  micMode: MicMode;
+  verbosity: Verbosity;
+  speechRate: number;    // guide playback speed, 1 = as spoken by the model
+  announceRate: number;  // on-device announcements (speechSynthesis rate)
+  duckOnSpeech: boolean; // lower the guide while the user talks over it
+  language: Language;
+  translateReading: boolean; // text-reading modes translate foreign text into the chosen language
+  shareMemories: boolean;    // send remembered things and people to the guide as reference pictures
+  currency: Currency;        // banknotes the on-device classifier looks for
+  usageBudget: UsageBudget;
+}
+
+// Structured copy of a document the guide has read, filed through the submitDocument tool
+// so the user can step through it on the phone without sending more pictures.
+export type DocumentType = 'receipt' | 'prescription' | 'medicationLabel' | 'letter' | 'bill' | 'menu' | 'form' | 'sign' | 'screen' | 'other';
+export type DocumentFieldKind = 'amount' | 'date' | 'phone' | 'dosage' | 'other';
+
+export interface DocumentSection {
+  heading: string;
+  text: string;
+}
+
+// A key value worth jumping straight to, e.g. the total on a receipt or the dosage on a prescription.
+export interface DocumentField {
+  label: string;
+  value: string;  // exactly as printed
+  kind: DocumentFieldKind;
+}
+
+export interface ReadDocument {
+  id: string;
+  type: DocumentType;
+  title: string;
+  sections: DocumentSection[];  // reading order
+  fields: DocumentField[];
+  createdAt: number;
+}
+
+// Where the guide sees the item being searched for, on Gemini's 0-1000 scale with the origin top left.
+export interface TargetBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+// One reportTargetLocation call.
+export interface TargetReport {
+  target?: string;
+  found: boolean;
+  box?: TargetBox;
+  reached?: boolean;  // the user's hand is on the item, or it is right in front of the camera
+}
+
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;        // metres
+  heading: number | null;  // degrees clockwise from north; null when standing still or unknown
+  speed: number | null;    // m/s
+  timestamp: number;
+}
+
+// Anything the user can be guided towards: a saved place or the start of a recorded route.
+export interface NavigationDestination {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface SavedPlace extends NavigationDestination {
+  id: string;
+  createdAt: number;
+}
+
+// Something or someone of the user's, remembered from a labelled camera picture. Stored on the
+// device only; the pictures go to the guide as references while a session runs.
+export type MemoryKind = 'object' | 'person';
+
+export interface LabeledMemory {
+  id: string;
+  label: string;
+  kind: MemoryKind;
+  image: string;         // base64 JPEG
+  embedding?: number[];  // on-device colour signature, used to pick which references to send
+  createdAt: number;
+}
+
+export interface MemoryCaptureRequest {
+  label: string;
+  kind: MemoryKind;
+  requestedAt: number;
+}
+
+export interface RouteBreadcrumb {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export interface SavedRoute {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number;
+  breadcrumbs: RouteBreadcrumb[];
+}
+
+export type TranscriptRole = 'user' | 'guide' | 'tool';
+
+export interface TranscriptEntry {
+  id: string;
+  role: TranscriptRole;
+  text: string;
+  timestamp: number;
+  mode: ModeId;
+  // False while transcription fragments are still streaming into this entry.
+  final: boolean;
+}
+
+export interface TranscriptSession {
+  id: string;
+  startedAt: number;
+  entries: TranscriptEntry[];
+}
+
+// Emitted by LiveAssistant as the Live session produces transcriptions and tool calls.
+export type TranscriptEvent =
+  | { type: 'text'; role: 'user' | 'guide'; text: string }
+  | { type: 'tool'; text: string }
+  | { type: 'turnComplete' };
@@ -0,0 +1,399 @@
+import { TimeStretcher, createTimeStretcher } from './timeStretch';
+
+// Microphone capture and speech playback on the audio thread. Both processors run at the
+// context's own rate and resample themselves, so nothing depends on the browser honouring a
+// requested sampleRate.
+
+const CAPTURE_PROCESSOR = 'sightguide-capture';
+const PLAYBACK_PROCESSOR = 'sightguide-playback';
+
+// Playback waits for this much audio before starting so network jitter doesn't cause gaps.
+// Each underrun mid-turn raises the target; clean turns lower it again.
+const PREBUFFER_MIN_MS = 80;
+const PREBUFFER_MAX_MS = 400;
+const PREBUFFER_STEP_UP_MS = 40;
+const PREBUFFER_STEP_DOWN_MS = 10;
+const PLAYBACK_CAPACITY_SECONDS = 60;
+const STATS_INTERVAL_MS = 500;
+// Guide volume while the user is talking over it; fades down fast and back up gently
+const DUCK_GAIN = 0.25;
+const DUCK_ATTACK = 0.03;
+const DUCK_RELEASE = 0.25;
+
+// Box-filter decimation (which doubles as the anti-aliasing filter) when the device rate is
+// above the target, linear interpolation when it is below.
+const CAPTURE_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSamples } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    this.frameSamples = frameSamples;
+    this.frame = new Int16Array(frameSamples);
+    this.filled = 0;
+    this.energy = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.phase = 0;
+    this.previous = 0;
+  }
+
+  emit(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.frame[this.filled++] = clamped * 32767;
+    this.energy += clamped * clamped;
+    if (this.filled < this.frameSamples) return;
+    const level = Math.sqrt(this.energy / this.frameSamples);
+    this.port.postMessage({ samples: this.frame, level }, [this.frame.buffer]);
+    this.frame = new Int16Array(this.frameSamples);
+    this.filled = 0;
+    this.energy = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    if (this.step >= 1) {
+      for (let i = 0; i < input.length; i++) {
+        this.sum += input[i];
+        this.count++;
+        this.phase += 1;
+        if (this.phase >= this.step) {
+          this.phase -= this.step;
+          this.emit(this.sum / this.count);
+          this.sum = 0;
+          this.count = 0;
+        }
+      }
+    } else {
+      for (let i = 0; i < input.length; i++) {
+        const sample = input[i];
+        while (this.phase < 1) {
+          this.emit(this.previous + (sample - this.previous) * this.phase);
+          this.phase += this.step;
+        }
+        this.phase -= 1;
+        this.previous = sample;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', CaptureProcessor);
+`;
+
+const PLAYBACK_SOURCE = `
+class PlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions;
+    this.ring = new Float32Array(Math.ceil(sampleRate * o.capacitySeconds));
+    this.readIndex = 0;
+    this.size = 0;
+    this.minPrebuffer = Math.round(sampleRate * o.prebufferMinMs / 1000);
+    this.maxPrebuffer = Math.round(sampleRate * o.prebufferMaxMs / 1000);
+    this.stepUp = Math.round(sampleRate * o.stepUpMs / 1000);
+    this.stepDown = Math.round(sampleRate * o.stepDownMs / 1000);
+    this.prebuffer = this.minPrebuffer;
+    this.statsEvery = Math.round(sampleRate * o.statsIntervalMs / 1000);
+    this.sinceStats = 0;
+    this.playing = false;
+    this.turnEnded = false;
+    this.turnUnderran = false;
+    this.underruns = 0;
+    this.phase = 0;
+    this.previous = 0;
+    this.port.onmessage = (e) => this.handle(e.data);
+  }
+
+  handle(msg) {
+    if (msg.type === 'push') this.push(msg.samples, msg.rate);
+    else if (msg.type === 'endOfTurn') this.turnEnded = true;
+    else if (msg.type === 'clear') {
+      this.size = 0;
+      this.phase = 0;
+      this.previous = 0;
+      this.turnEnded = false;
+      this.turnUnderran = false;
+      if (this.playing) {
+        this.playing = false;
+        this.port.postMessage({ type: 'stop' });
+      }
+    }
+  }
+
+  write(value) {
+    const capacity = this.ring.length;
+    if (this.size === capacity) {
+      // Full: drop the oldest sample rather than the newest speech
+      this.readIndex = (this.readIndex + 1) % capacity;
+      this.size--;
+    }
+    this.ring[(this.readIndex + this.size) % capacity] = value;
+    this.size++;
+  }
+
+  push(samples, rate) {
+    const step = rate / sampleRate;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i] / 32768;
+      while (this.phase < 1) {
+        this.write(this.previous + (sample - this.previous) * this.phase);
+        this.phase += step;
+      }
+      this.phase -= 1;
+      this.previous = sample;
+    }
+    this.turnEnded = false;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const channel = output[0];
+    const frames = channel.length;
+
+    if (!this.playing && this.size > 0 && (this.size >= this.prebuffer || this.turnEnded)) {
+      this.playing = true;
+      this.port.postMessage({ type: 'start' });
+    }
+
+    if (this.playing) {
+      const n = Math.min(frames, this.size);
+      for (let i = 0; i < n; i++) {
+        channel[i] = this.ring[this.readIndex];
+        this.readIndex = (this.readIndex + 1) % this.ring.length;
+      }
+      this.size -= n;
+      if (this.size === 0) {
+        this.playing = false;
+        if (this.turnEnded) {
+          if (!this.turnUnderran) this.prebuffer = Math.max(this.minPrebuffer, this.prebuffer - this.stepDown);
+          this.turnUnderran = false;
+          this.turnEnded = false;
+        } else {
+          // Ran dry mid-turn: the network is jittery, so hold more audio back from now on
+          this.underruns++;
+          this.turnUnderran = true;
+          this.prebuffer = Math.min(this.maxPrebuffer, this.prebuffer + this.stepUp);
+        }
+        this.port.postMessage({ type: 'stop' });
+      }
+    }
+    for (let c = 1; c < output.length; c++) output[c].set(channel);
+
+    this.sinceStats += frames;
+    if (this.sinceStats >= this.statsEvery) {
+      this.sinceStats = 0;
+      this.port.postMessage({
+        type: 'stats',
+        bufferedMs: this.size / sampleRate * 1000,
+        prebufferMs: this.prebuffer / sampleRate * 1000,
+        underruns: this.underruns,
+      });
+    }
+    return true;
+  }
+}
+registerProcessor('${PLAYBACK_PROCESSOR}', PlaybackProcessor);
+`;
+
+async function addModuleSource(ctx: BaseAudioContext, source: string) {
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Registers the processors; must finish before creating capture or playback nodes on `ctx`. */
+export async function loadAudioPipeline(ctx: BaseAudioContext): Promise<void> {
+  if (!ctx.audioWorklet) throw new Error("This browser does not support AudioWorklet");
+  await Promise.all([addModuleSource(ctx, CAPTURE_SOURCE), addModuleSource(ctx, PLAYBACK_SOURCE)]);
+}
+
+export interface CaptureFrame {
+  samples: Int16Array; // mono PCM at the target rate
+  level: number;       // RMS, 0..1
+}
+
+export interface CaptureNode {
+  node: AudioWorkletNode;
+  // Real device rate, before resampling
+  inputRate: number;
+  frameMs: number;
+  disconnect: () => void;
+}
+
+export function createCaptureNode(
+  ctx: AudioContext,
+  stream: MediaStream,
+  targetRate: number,
+  frameMs: number,
+  onFrame: (frame: CaptureFrame) => void,
+): CaptureNode {
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate, frameSamples: Math.round(targetRate * frameMs / 1000) },
+  });
+  node.port.onmessage = (e) => onFrame(e.data as CaptureFrame);
+  source.connect(node);
+  // The processor writes nothing, but a connected output keeps it running in every browser
+  node.connect(ctx.destination);
+  return {
+    node,
+    inputRate: ctx.sampleRate,
+    frameMs,
+    disconnect: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(); } catch (e) {}
+      try { node.disconnect(); } catch (e) {}
+    },
+  };
+}
+
+export interface PlaybackStats {
+  bufferedMs: number;
+  prebufferMs: number;
+  underruns: number;
+}
+
+export interface PlaybackEvents {
+  // Audio started coming out of the speaker after silence
+  onStart?: () => void;
+  onStop?: () => void;
+  onStats?: (stats: PlaybackStats) => void;
+}
+
+export interface PlaybackNode {
+  node: AudioWorkletNode;
+  // Connect this onwards, not `node`: it carries ducking
+  output: AudioNode;
+  push: (pcm: Int16Array, sampleRate: number) => void;
+  // Speech speed, 1 = as sent; pitch is kept
+  setRate: (rate: number) => void;
+  // Lowers the guide while the user speaks over it
+  duck: (ducked: boolean) => void;
+  // Lets a short final chunk play without waiting for the jitter buffer to fill
+  endOfTurn: () => void;
+  clear: () => void;
+  // Estimated context time at which audio pushed now would start playing
+  queuedUntil: () => number;
+  disconnect: () => void;
+}
+
+export function createPlaybackNode(ctx: AudioContext, events: PlaybackEvents = {}): PlaybackNode {
+  const node = new AudioWorkletNode(ctx, PLAYBACK_PROCESSOR, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: {
+      capacitySeconds: PLAYBACK_CAPACITY_SECONDS,
+      prebufferMinMs: PREBUFFER_MIN_MS,
+      prebufferMaxMs: PREBUFFER_MAX_MS,
+      stepUpMs: PREBUFFER_STEP_UP_MS,
+      stepDownMs: PREBUFFER_STEP_DOWN_MS,
+      statsIntervalMs: STATS_INTERVAL_MS,
+    },
+  });
+
+  const output = ctx.createGain();
+  node.connect(output);
+
+  let prebufferSeconds = PREBUFFER_MIN_MS / 1000;
+  let queuedUntil = 0;
+  let rate = 1;
+  let stretcher: TimeStretcher | null = null;
+  let stretcherRate = 0;
+
+  const enqueue = (pcm: Int16Array, sampleRate: number) => {
+    if (pcm.length === 0) return;
+    // From silence, playback starts once the jitter buffer has filled
+    queuedUntil = Math.max(queuedUntil, ctx.currentTime + prebufferSeconds) + pcm.length / sampleRate;
+    node.port.postMessage({ type: 'push', samples: pcm, rate: sampleRate }, [pcm.buffer]);
+  };
+
+  const flushStretcher = () => {
+    if (stretcher) enqueue(stretcher.flush(), stretcherRate);
+  };
+  node.port.onmessage = (e) => {
+    const msg = e.data;
+    if (msg.type === 'start') events.onStart?.();
+    else if (msg.type === 'stop') events.onStop?.();
+    else if (msg.type === 'stats') {
+      prebufferSeconds = msg.prebufferMs / 1000;
+      events.onStats?.({ bufferedMs: msg.bufferedMs, prebufferMs: msg.prebufferMs, underruns: msg.underruns });
+    }
+  };
+
+  return {
+    node,
+    output,
+    push: (pcm, sampleRate) => {
+      if (rate === 1) {
+        enqueue(pcm, sampleRate);
+        return;
+      }
+      if (!stretcher || stretcherRate !== sampleRate) {
+        stretcher = createTimeStretcher(sampleRate);
+        stretcherRate = sampleRate;
+      }
+      enqueue(stretcher.process(pcm, rate), sampleRate);
+    },
+    setRate: (value) => {
+      if (value === rate) return;
+      if (value === 1) flushStretcher();
+      rate = value;
+    },
+    duck: (ducked) => {
+      output.gain.setTargetAtTime(ducked ? DUCK_GAIN : 1, ctx.currentTime, ducked ? DUCK_ATTACK : DUCK_RELEASE);
+    },
+    endOfTurn: () => {
+      flushStretcher();
+      node.port.postMessage({ type: 'endOfTurn' });
+    },
+    clear: () => {
+      queuedUntil = 0;
+      stretcher?.reset();
+      node.port.postMessage({ type: 'clear' });
+    },
+    queuedUntil: () => Math.max(queuedUntil, ctx.currentTime),
+    disconnect: () => {
+      node.port.onmessage = null;
+      try { node.disconnect(); } catch (e) {}
+      try { output.disconnect(); } catch (e) {}
+    },
+  };
+}
+
+// Speech louder than this counts as the user talking, for latency measurement
+const VOICE_LEVEL = 0.02;
+// Replies that start longer than this after the user last spoke were not answers to them
+const MAX_REPLY_GAP_MS = 8000;
+
+/**
+ * Estimates mic-to-speaker latency: from the end of the user's speech to the first reply audio
+ * leaving the speaker, including the device's reported input and output latency.
+ */
+export function createLatencyMeter(getInputLatency: () => number, getOutputLatency: () => number) {
+  let lastVoiceAt: number | null = null;
+  let lastMs: number | null = null;
+  return {
+    frame: (frame: CaptureFrame, frameMs: number) => {
+      // The frame is posted once full, so its speech ended about a frame ago
+      if (frame.level >= VOICE_LEVEL) lastVoiceAt = performance.now() - frameMs / 2 - getInputLatency() * 1000;
+    },
+    playbackStarted: () => {
+      if (lastVoiceAt === null) return;
+      const heardAt = performance.now() + getOutputLatency() * 1000;
+      const gap = heardAt - lastVoiceAt;
+      lastVoiceAt = null;
+      if (gap <= MAX_REPLY_GAP_MS) lastMs = gap;
+    },
+    latencyMs: () => lastMs,
+  };
+}
@@ -1,4 +1,6 @@
 import { Blob } from '@google/genai';
+import { Earcon } from '../types';
+import { getSpeechLang } from './i18n';
 
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -20,16 +22,10 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Convert float32 (-1.0 to 1.0) to int16
-    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32767;
-  }
+export function createPcmBlob(data: Int16Array, sampleRate: number = 16000): Blob {
   return {
-    data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    data: arrayBufferToBase64(data.buffer as ArrayBuffer),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -93,16 +89,33 @@ export function playBeep(frequency: number = 440, type: OscillatorType = 'sine',
   }
 }
 
+// Plays earcons back to back, each starting when the previous one ends.
+export function playEarcons(earcons: Earcon[]) {
+  let delay = 0;
+  earcons.forEach(({ frequency, type, duration }) => {
+    setTimeout(() => playBeep(frequency, type, duration), delay * 1000);
+    delay += duration + 0.05;
+  });
+}
+
 export function playClick() {
     playBeep(600, 'square', 0.05);
 }
 
+// Follows the user's Announcement Speed setting; see setAnnounceRate
+let announceRate = 1.1;
+
+export function setAnnounceRate(rate: number) {
+  announceRate = rate;
+}
+
 export function announce(text: string) {
   if ('speechSynthesis' in window) {
     // Cancel any current speech to ensure immediate feedback
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1.1; // Slightly faster for efficiency
+    utterance.lang = getSpeechLang();
+    utterance.rate = announceRate;
     utterance.pitch = 1.0;
     window.speechSynthesis.speak(utterance);
   }
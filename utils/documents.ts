@@ -0,0 +1,89 @@
+import { DocumentField, DocumentFieldKind, DocumentSection, ReadDocument } from '../types';
+import { DOCUMENT_FIELD_KINDS, DOCUMENT_TYPES } from '../constants';
+import { t } from './i18n';
+
+const STORAGE_KEY = 'sightguide.documents';
+const MAX_DOCUMENTS = 10;
+// Spelling longer text letter by letter is not useful; the rest is cut off
+const MAX_SPELL_CHARS = 80;
+
+export function loadDocuments(): ReadDocument[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Saved documents unreadable, starting fresh", e);
+    return [];
+  }
+}
+
+export function saveDocuments(documents: ReadDocument[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(documents.slice(0, MAX_DOCUMENTS)));
+  } catch (e) {
+    console.warn("Failed to persist documents", e);
+  }
+}
+
+const cleanText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Builds a document from submitDocument arguments, dropping empty sections and fields.
+// Returns null when nothing readable is left.
+export function parseSubmittedDocument(args: Record<string, unknown> | undefined): ReadDocument | null {
+  if (!args) return null;
+  const sections: DocumentSection[] = (Array.isArray(args.sections) ? args.sections : [])
+    .map(s => ({ heading: cleanText(s?.heading), text: cleanText(s?.text) }))
+    .filter(s => s.text);
+  const fields: DocumentField[] = (Array.isArray(args.fields) ? args.fields : [])
+    .map(f => ({
+      label: cleanText(f?.label),
+      value: cleanText(f?.value),
+      kind: DOCUMENT_FIELD_KINDS.includes(f?.kind) ? f.kind as DocumentFieldKind : 'other',
+    }))
+    .filter(f => f.label && f.value);
+  if (sections.length === 0 && fields.length === 0) return null;
+
+  const now = Date.now();
+  const type = DOCUMENT_TYPES.find(d => d === args.type) ?? 'other';
+  return {
+    id: `doc-${now}`,
+    type,
+    title: cleanText(args.title) || sections[0]?.heading || type,
+    sections,
+    fields,
+    createdAt: now,
+  };
+}
+
+// What the document gestures step through: the sections in reading order, then the key values.
+export type DocumentItem =
+  | { kind: 'section'; section: DocumentSection }
+  | { kind: 'field'; field: DocumentField };
+
+export function getDocumentItems(document: ReadDocument): DocumentItem[] {
+  return [
+    ...document.sections.map(section => ({ kind: 'section' as const, section })),
+    ...document.fields.map(field => ({ kind: 'field' as const, field })),
+  ];
+}
+
+export function describeDocumentItem(document: ReadDocument, index: number): string {
+  const items = getDocumentItems(document);
+  const item = items[index];
+  if (!item) return t('document.summary', { title: document.title, count: items.length });
+  const [label, text] = item.kind === 'section'
+    ? [item.section.heading, item.section.text]
+    : [item.field.label, item.field.value];
+  return t('document.item', { position: index + 1, count: items.length, label, text });
+}
+
+// "A1 B" -> "A, 1, space, B". Fields spell their value; sections spell their text.
+export function spellDocumentItem(document: ReadDocument, index: number): string {
+  const item = getDocumentItems(document)[index];
+  if (!item) return t('document.nothingToSpell');
+  const text = item.kind === 'field' ? item.field.value : item.section.text;
+  return Array.from(text.replace(/\s+/g, ' ').slice(0, MAX_SPELL_CHARS))
+    .map(char => (char === ' ' ? t('document.space') : char))
+    .join(', ');
+}
@@ -0,0 +1,165 @@
+import { AppSettings, EmergencyContact, GeoPosition, TranscriptEntry } from '../types';
+import { base64ToUint8Array, playBeep, vibrate } from './audioUtils';
+
+// Everything gathered for an emergency alert. Notifiers decide how much of it they can carry.
+export interface EmergencyPacket {
+  createdAt: number;
+  contacts: EmergencyContact[];
+  location: GeoPosition | null;
+  snapshots: string[];           // base64 JPEG, oldest first
+  transcript: TranscriptEntry[]; // most recent entries of the current session
+  message: string;               // plain-text summary for channels that only take text
+}
+
+export interface EmergencyNotifier {
+  name: string;
+  // Only works straight after a tap or key press, so never at the end of the countdown
+  needsUserActivation?: boolean;
+  send: (packet: EmergencyPacket) => Promise<void>;
+}
+
+const SNAPSHOT_COUNT = 3;
+const TRANSCRIPT_LINES = 12;
+
+// Keeps the last few frames sent to the model so an alert can include what the camera saw.
+export function createFrameSnapshotBuffer(size = SNAPSHOT_COUNT) {
+  let frames: string[] = [];
+  return {
+    push: (jpegBase64: string) => {
+      frames = [...frames.slice(-(size - 1)), jpegBase64];
+    },
+    snapshot: () => [...frames],
+  };
+}
+
+export type FrameSnapshotBuffer = ReturnType<typeof createFrameSnapshotBuffer>;
+
+export function buildEmergencyMessage(location: GeoPosition | null, transcript: TranscriptEntry[]): string {
+  const lines = ['EMERGENCY: I need help. This alert was sent from SightGuide, my visual assistance app.'];
+  if (location) {
+    lines.push(`My location (accurate to about ${Math.round(location.accuracy)} m): https://maps.google.com/?q=${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}`);
+  } else {
+    lines.push('My location could not be determined.');
+  }
+  const lastGuide = [...transcript].reverse().find(e => e.role === 'guide');
+  if (lastGuide) lines.push(`Last thing my guide described: "${lastGuide.text}"`);
+  lines.push(`Sent ${new Date().toLocaleString()}.`);
+  return lines.join('\n');
+}
+
+export function assembleEmergencyPacket(
+  contacts: EmergencyContact[],
+  location: GeoPosition | null,
+  snapshots: string[],
+  transcript: TranscriptEntry[],
+): EmergencyPacket {
+  const recent = transcript.slice(-TRANSCRIPT_LINES);
+  return {
+    createdAt: Date.now(),
+    contacts,
+    location,
+    snapshots,
+    transcript: recent,
+    message: buildEmergencyMessage(location, recent),
+  };
+}
+
+function snapshotFiles(packet: EmergencyPacket): File[] {
+  return packet.snapshots.map((data, i) =>
+    new File([base64ToUint8Array(data)], `sightguide-sos-${i + 1}.jpg`, { type: 'image/jpeg' }));
+}
+
+// Opens an SMS draft to all contacts; the user's phone still needs a final tap on Send.
+export function createSmsNotifier(): EmergencyNotifier {
+  return {
+    name: 'sms',
+    send: async (packet) => {
+      const recipients = packet.contacts.map(c => c.phone.replace(/[^\d+]/g, '')).filter(Boolean).join(',');
+      window.location.href = `sms:${recipients}?body=${encodeURIComponent(packet.message)}`;
+    },
+  };
+}
+
+// System share sheet with the message and camera snapshots; falls back to SMS where sharing is missing.
+export function createShareNotifier(): EmergencyNotifier {
+  return {
+    name: 'share',
+    needsUserActivation: typeof navigator.share === 'function',
+    send: async (packet) => {
+      if (!navigator.share) return createSmsNotifier().send(packet);
+      const files = snapshotFiles(packet);
+      const data: ShareData = { title: 'Emergency', text: packet.message };
+      if (files.length && navigator.canShare?.({ files })) data.files = files;
+      await navigator.share(data);
+    },
+  };
+}
+
+// POSTs the full packet as JSON, e.g. to a family alerting service or `npm run emergency-stub`.
+export function createWebhookNotifier(url: string): EmergencyNotifier {
+  return {
+    name: 'webhook',
+    send: async (packet) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(packet),
+      });
+      if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+    },
+  };
+}
+
+export function createNotifier(settings: AppSettings): EmergencyNotifier {
+  if (settings.emergencyNotifier === 'webhook' && settings.emergencyWebhookUrl) {
+    return createWebhookNotifier(settings.emergencyWebhookUrl);
+  }
+  if (settings.emergencyNotifier === 'sms' && settings.emergencyContacts.length > 0) {
+    return createSmsNotifier();
+  }
+  return createShareNotifier();
+}
+
+/**
+ * The notifier for an alert nobody tapped to send: the chosen one if it can go out on its own,
+ * else a webhook or text message when either is set up. Null means the user must tap to send.
+ */
+export function createAutomaticNotifier(settings: AppSettings): EmergencyNotifier | null {
+  const chosen = createNotifier(settings);
+  if (!chosen.needsUserActivation) return chosen;
+  if (settings.emergencyWebhookUrl) return createWebhookNotifier(settings.emergencyWebhookUrl);
+  if (settings.emergencyContacts.some(c => c.phone)) return createSmsNotifier();
+  return null;
+}
+
+/**
+ * Counts down once per second with rising beeps and ever longer vibration, then calls
+ * `onExpire`. Returns a function that cancels the countdown.
+ */
+export function startEmergencyCountdown(
+  seconds: number,
+  onTick: (secondsLeft: number) => void,
+  onExpire: () => void,
+): () => void {
+  let left = seconds;
+  const cue = () => {
+    const urgency = 1 - left / seconds;
+    playBeep(600 + urgency * 600, 'square', 0.15);
+    vibrate(Math.round(100 + urgency * 500));
+  };
+
+  onTick(left);
+  cue();
+  const timer = window.setInterval(() => {
+    left--;
+    if (left <= 0) {
+      window.clearInterval(timer);
+      onExpire();
+      return;
+    }
+    onTick(left);
+    cue();
+  }, 1000);
+
+  return () => window.clearInterval(timer);
+}
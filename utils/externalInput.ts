@@ -0,0 +1,149 @@
+import { GestureAction } from '../types';
+import { KEYBOARD_SHORTCUTS, MEDIA_SESSION_BINDINGS } from '../constants';
+
+// Non-touch input sources. Each one maps its own events onto the same actions the gestures
+// trigger, so a keyboard, headset or switch can drive the app with the phone in a pocket.
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export interface KeyboardInputOptions {
+  onAction: (action: GestureAction) => void;
+  // Called instead of onAction for Space/Enter when switch scanning is on
+  onSwitch: () => void;
+  isSwitchMode: () => boolean;
+  // Shortcuts are ignored while this returns false (e.g. a menu is open)
+  isEnabled: () => boolean;
+}
+
+export function attachKeyboardInput({ onAction, onSwitch, isSwitchMode, isEnabled }: KeyboardInputOptions): () => void {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isEditable(e.target) || !isEnabled()) return;
+    if (isSwitchMode() && (e.key === ' ' || e.key === 'Enter')) {
+      e.preventDefault();
+      onSwitch();
+      return;
+    }
+    const action = KEYBOARD_SHORTCUTS[e.key] ?? KEYBOARD_SHORTCUTS[e.key.toLowerCase()];
+    if (!action) return;
+    e.preventDefault();
+    onAction(action);
+  };
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+}
+
+// One second of silent 8 kHz mono PCM as a WAV data URL.
+function silentWavUrl(): string {
+  const samples = 8000;
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const text = (offset: number, value: string) => [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, 16000, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, samples * 2, true);
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+}
+
+export interface MediaSessionInput {
+  // Browsers only route media keys to a page that is playing media, so a silent loop
+  // runs while the session is active. Must first be called from a user gesture.
+  setActive: (active: boolean, paused?: boolean) => void;
+  detach: () => void;
+}
+
+export function attachMediaSessionInput(onAction: (action: GestureAction) => void): MediaSessionInput {
+  if (!('mediaSession' in navigator)) return { setActive: () => {}, detach: () => {} };
+  const session = navigator.mediaSession;
+  const url = silentWavUrl();
+  const anchor = new Audio(url);
+  anchor.loop = true;
+
+  session.metadata = new MediaMetadata({ title: 'SightGuide', artist: 'Visual assistant' });
+  const actions = Object.entries(MEDIA_SESSION_BINDINGS) as [MediaSessionAction, GestureAction][];
+  actions.forEach(([mediaAction, action]) => {
+    try {
+      session.setActionHandler(mediaAction, () => onAction(action));
+    } catch (e) {
+      // Not every browser supports every media action
+    }
+  });
+
+  return {
+    setActive: (active, paused = false) => {
+      session.playbackState = !active ? 'none' : paused ? 'paused' : 'playing';
+      if (active) anchor.play().catch(() => {});
+      else anchor.pause();
+    },
+    detach: () => {
+      actions.forEach(([mediaAction]) => {
+        try { session.setActionHandler(mediaAction, null); } catch (e) {}
+      });
+      anchor.pause();
+      URL.revokeObjectURL(url);
+      session.playbackState = 'none';
+    },
+  };
+}
+
+export interface SwitchScannerOptions {
+  getActions: () => GestureAction[];
+  getInterval: () => number;
+  onHighlight: (action: GestureAction | null) => void;
+  onSelect: (action: GestureAction) => void;
+}
+
+// Gives up after this many silent passes through the list
+const MAX_SCAN_CYCLES = 2;
+
+/**
+ * Single-switch scanning: the first press starts stepping through the actions, highlighting
+ * (and announcing, via onHighlight) one at a time; the next press selects the highlighted one.
+ */
+export function createSwitchScanner({ getActions, getInterval, onHighlight, onSelect }: SwitchScannerOptions) {
+  let timer: number | null = null;
+  let index = -1;
+  let steps = 0;
+
+  const stop = () => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+    index = -1;
+    onHighlight(null);
+  };
+
+  const step = () => {
+    const actions = getActions();
+    if (steps >= actions.length * MAX_SCAN_CYCLES) {
+      stop();
+      return;
+    }
+    index = (index + 1) % actions.length;
+    steps++;
+    onHighlight(actions[index]);
+    timer = window.setTimeout(step, getInterval());
+  };
+
+  const press = () => {
+    if (timer === null) {
+      steps = 0;
+      step();
+      return;
+    }
+    const action = getActions()[index];
+    stop();
+    if (action) onSelect(action);
+  };
+
+  return { press, stop };
+}
@@ -0,0 +1,145 @@
+import { FramePolicy, FrameStats, ModeDefinition } from '../types';
+import { DEFAULT_FRAME_POLICY } from '../constants';
+
+export function resolveFramePolicy(mode: ModeDefinition): FramePolicy {
+  return { ...DEFAULT_FRAME_POLICY, ...mode.framePolicy, heartbeatInterval: mode.heartbeatInterval };
+}
+
+// Savings applied per adaptation level on top of the mode's policy.
+const ADAPT_LEVELS = [
+  { width: 1, quality: 0, rate: 1, threshold: 1 },
+  { width: 0.8, quality: -0.1, rate: 1.5, threshold: 1.3 },
+  { width: 0.66, quality: -0.2, rate: 2, threshold: 1.6 },
+  { width: 0.5, quality: -0.25, rate: 3, threshold: 2 },
+];
+const MAX_LEVEL = ADAPT_LEVELS.length - 1;
+
+const MIN_WIDTH = 240;
+const MIN_QUALITY = 0.25;
+const RATE_WINDOW_MS = 10000;
+const ADAPT_INTERVAL_MS = 3000;
+// Round trips above this mean our uploads are queueing; below RELAXED we can afford more.
+const SLOW_RTT_MS = 2000;
+const RELAXED_RTT_MS = 900;
+// Round trips are only measured after prompts, so an old one says nothing about the link now.
+const RTT_MAX_AGE_MS = 30000;
+// Bytes still waiting in the socket's send buffer. A queue that does not drain means the link
+// uploads slower than we produce; an empty one means it keeps up.
+const CONGESTED_BACKLOG_BYTES = 64 * 1024;
+const RELAXED_BACKLOG_BYTES = 8 * 1024;
+// Upper bound for video upload when the user has asked to save data.
+const DATA_SAVER_BYTES_PER_SEC = 15000;
+
+// Network Information API is not in the DOM typings everywhere.
+interface NetworkInformationLike {
+  effectiveType?: string;
+  saveData?: boolean;
+}
+
+function networkFloorLevel(dataSaver: boolean): number {
+  const connection = (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+  let floor = dataSaver || connection?.saveData ? 1 : 0;
+  if (connection?.effectiveType === '3g') floor = Math.max(floor, 2);
+  if (connection?.effectiveType === '2g' || connection?.effectiveType === 'slow-2g') floor = MAX_LEVEL;
+  return floor;
+}
+
+export function applyAdaptLevel(policy: FramePolicy, level: number): FramePolicy {
+  const step = ADAPT_LEVELS[Math.min(Math.max(level, 0), MAX_LEVEL)];
+  return {
+    tickRate: Math.round(policy.tickRate * step.rate),
+    heartbeatInterval: Math.round(policy.heartbeatInterval * step.rate),
+    changeThreshold: policy.changeThreshold * step.threshold,
+    width: Math.max(MIN_WIDTH, Math.round(policy.width * step.width)),
+    quality: Math.max(MIN_QUALITY, policy.quality + step.quality),
+  };
+}
+
+/**
+ * Tracks what the frame loop sends and steps the effective policy up or down based on the
+ * send backlog, round-trip latency, the data-saver upload cap and the browser's network hints.
+ * It only relaxes on evidence: a drained backlog or a fresh fast round trip.
+ */
+export function createFrameStreamController(getBasePolicy: () => FramePolicy, getDataSaver: () => boolean) {
+  let sent: { time: number; bytes: number }[] = [];
+  let framesSent = 0;
+  let framesSkipped = 0;
+  let totalBytes = 0;
+  let roundTripMs: number | null = null;
+  let roundTripAt = 0;
+  // A slow round trip steps the level down once, not on every adapt while it is fresh
+  let roundTripUnused = false;
+  let backlogBytes: number | null = null;
+  let level = networkFloorLevel(getDataSaver());
+  let lastAdaptAt = 0;
+
+  const bytesPerSecond = () => {
+    const now = Date.now();
+    sent = sent.filter(s => now - s.time < RATE_WINDOW_MS);
+    if (sent.length === 0) return 0;
+    const span = Math.max(1000, now - sent[0].time);
+    return (sent.reduce((sum, s) => sum + s.bytes, 0) * 1000) / span;
+  };
+
+  const adapt = () => {
+    const now = Date.now();
+    if (now - lastAdaptAt < ADAPT_INTERVAL_MS) return;
+    lastAdaptAt = now;
+
+    const dataSaver = getDataSaver();
+    const floor = networkFloorLevel(dataSaver);
+    const rate = bytesPerSecond();
+    const overBudget = dataSaver && rate > DATA_SAVER_BYTES_PER_SEC;
+    const rtt = roundTripMs !== null && now - roundTripAt < RTT_MAX_AGE_MS ? roundTripMs : null;
+    const congested = backlogBytes !== null && backlogBytes > CONGESTED_BACKLOG_BYTES;
+    const slow = congested || (roundTripUnused && rtt !== null && rtt > SLOW_RTT_MS);
+    roundTripUnused = false;
+    // Without a backlog reading, only a fresh fast round trip counts as room to spare
+    const linkOk = backlogBytes !== null
+      ? backlogBytes < RELAXED_BACKLOG_BYTES && (rtt === null || rtt < RELAXED_RTT_MS)
+      : rtt !== null && rtt < RELAXED_RTT_MS;
+    const relaxed = linkOk && !overBudget;
+
+    if (slow || overBudget) level = Math.min(MAX_LEVEL, level + 1);
+    else if (relaxed) level = Math.max(floor, level - 1);
+    level = Math.max(level, floor);
+  };
+
+  const policy = () => applyAdaptLevel(getBasePolicy(), level);
+
+  return {
+    policy,
+    recordSent: (bytes: number) => {
+      framesSent++;
+      totalBytes += bytes;
+      sent.push({ time: Date.now(), bytes });
+      adapt();
+    },
+    recordSkipped: () => {
+      framesSkipped++;
+    },
+    recordRoundTrip: (ms: number) => {
+      roundTripMs = ms;
+      roundTripAt = Date.now();
+      roundTripUnused = true;
+      adapt();
+    },
+    // Sampled every tick from the transport; audio and prompts queue there too
+    recordBacklog: (bytes: number) => {
+      backlogBytes = bytes;
+      adapt();
+    },
+    stats: (): FrameStats => ({
+      framesSent,
+      framesSkipped,
+      bytesPerSecond: Math.round(bytesPerSecond()),
+      averageFrameBytes: framesSent ? Math.round(totalBytes / framesSent) : 0,
+      roundTripMs,
+      backlogBytes,
+      adaptLevel: level,
+      policy: policy(),
+    }),
+  };
+}
+
+export type FrameStreamController = ReturnType<typeof createFrameStreamController>;
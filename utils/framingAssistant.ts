@@ -0,0 +1,289 @@
+import { FramingTarget } from '../types';
+import { vibrate } from './audioUtils';
+
+// Local framing feedback so the user can aim the camera before anything reaches the model.
+// Works on the same 64x64 downsampled frames as the frame-diff pipeline.
+
+export interface FramingReading {
+  found: boolean;
+  kind: 'document' | 'text' | 'object' | null;
+  offsetX: number;  // -1 (target at the left edge) .. 1 (right edge)
+  offsetY: number;  // -1 (top) .. 1 (bottom)
+  coverage: number; // share of the frame covered by the target's bounding box
+  clipped: boolean; // target runs off at least one edge
+  centered: boolean;
+}
+
+const SIZE = 64;
+const CELL = 8;
+const CELLS = SIZE / CELL;
+const EDGE_THRESHOLD = 60;
+// Share of strong-edge pixels that makes a cell look like print
+const TEXT_CELL_DENSITY = 0.18;
+// Colour distance from the border average that counts as foreground
+const OBJECT_DISTANCE = 60;
+const CENTER_TOLERANCE = 0.18;
+const MIN_COVERAGE = 0.08;
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number; // exclusive
+  y1: number;
+  mass: number;
+  cx: number;
+  cy: number;
+}
+
+function toReading(kind: FramingReading['kind'], box: Box | null): FramingReading {
+  if (!box) return { found: false, kind: null, offsetX: 0, offsetY: 0, coverage: 0, clipped: false, centered: false };
+  const half = SIZE / 2;
+  const offsetX = (box.cx - half) / half;
+  const offsetY = (box.cy - half) / half;
+  const coverage = ((box.x1 - box.x0) * (box.y1 - box.y0)) / (SIZE * SIZE);
+  const clipped = box.x0 <= 0 || box.y0 <= 0 || box.x1 >= SIZE || box.y1 >= SIZE;
+  const centered = Math.abs(offsetX) < CENTER_TOLERANCE && Math.abs(offsetY) < CENTER_TOLERANCE && coverage >= MIN_COVERAGE;
+  return { found: true, kind, offsetX, offsetY, coverage, clipped, centered };
+}
+
+function grayscale(frame: ImageData, out: Float32Array) {
+  const data = frame.data;
+  for (let i = 0; i < SIZE * SIZE; i++) {
+    out[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+}
+
+// Bounding box of the cells dense with short strong edges, i.e. lines of print.
+function findTextBox(gray: Float32Array): Box | null {
+  const counts = new Uint16Array(CELLS * CELLS);
+  for (let y = 1; y < SIZE - 1; y++) {
+    for (let x = 1; x < SIZE - 1; x++) {
+      const i = y * SIZE + x;
+      const g = Math.abs(gray[i + 1] - gray[i - 1]) + Math.abs(gray[i + SIZE] - gray[i - SIZE]);
+      if (g > EDGE_THRESHOLD) counts[Math.floor(y / CELL) * CELLS + Math.floor(x / CELL)]++;
+    }
+  }
+
+  let box: Box | null = null;
+  for (let cy = 0; cy < CELLS; cy++) {
+    for (let cx = 0; cx < CELLS; cx++) {
+      const density = counts[cy * CELLS + cx] / (CELL * CELL);
+      if (density < TEXT_CELL_DENSITY) continue;
+      const x0 = cx * CELL, y0 = cy * CELL;
+      if (!box) box = { x0, y0, x1: x0 + CELL, y1: y0 + CELL, mass: 0, cx: 0, cy: 0 };
+      box.x0 = Math.min(box.x0, x0);
+      box.y0 = Math.min(box.y0, y0);
+      box.x1 = Math.max(box.x1, x0 + CELL);
+      box.y1 = Math.max(box.y1, y0 + CELL);
+      box.mass += density;
+      box.cx += (x0 + CELL / 2) * density;
+      box.cy += (y0 + CELL / 2) * density;
+    }
+  }
+  // Two stray cells are more likely texture than text
+  if (!box || box.mass < TEXT_CELL_DENSITY * 3) return null;
+  box.cx /= box.mass;
+  box.cy /= box.mass;
+  return box;
+}
+
+// A sheet of paper shows up as a large bright patch that fills most of its own bounding box.
+function findDocumentBox(gray: Float32Array): Box | null {
+  let mean = 0;
+  for (let i = 0; i < gray.length; i++) mean += gray[i];
+  mean /= gray.length;
+  const threshold = Math.max(140, mean + 25);
+
+  const box: Box = { x0: SIZE, y0: SIZE, x1: 0, y1: 0, mass: 0, cx: 0, cy: 0 };
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if (gray[y * SIZE + x] < threshold) continue;
+      box.x0 = Math.min(box.x0, x);
+      box.y0 = Math.min(box.y0, y);
+      box.x1 = Math.max(box.x1, x + 1);
+      box.y1 = Math.max(box.y1, y + 1);
+      box.mass++;
+      box.cx += x + 0.5;
+      box.cy += y + 0.5;
+    }
+  }
+  if (box.mass < SIZE * SIZE * 0.1) return null;
+  const fill = box.mass / ((box.x1 - box.x0) * (box.y1 - box.y0));
+  if (fill < 0.7) return null;
+  // Use the box centre rather than the pixel centroid so dark print doesn't pull it around
+  box.cx = (box.x0 + box.x1) / 2;
+  box.cy = (box.y0 + box.y1) / 2;
+  return box;
+}
+
+// Dominant object: pixels whose colour stands apart from the average colour along the frame border.
+function findObjectBox(frame: ImageData): Box | null {
+  const data = frame.data;
+  let br = 0, bg = 0, bb = 0, n = 0;
+  for (let i = 0; i < SIZE; i++) {
+    for (const p of [i, (SIZE - 1) * SIZE + i, i * SIZE, i * SIZE + SIZE - 1]) {
+      br += data[p * 4];
+      bg += data[p * 4 + 1];
+      bb += data[p * 4 + 2];
+      n++;
+    }
+  }
+  br /= n; bg /= n; bb /= n;
+
+  const box: Box = { x0: SIZE, y0: SIZE, x1: 0, y1: 0, mass: 0, cx: 0, cy: 0 };
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const p = (y * SIZE + x) * 4;
+      const distance = Math.abs(data[p] - br) + Math.abs(data[p + 1] - bg) + Math.abs(data[p + 2] - bb);
+      if (distance < OBJECT_DISTANCE) continue;
+      box.x0 = Math.min(box.x0, x);
+      box.y0 = Math.min(box.y0, y);
+      box.x1 = Math.max(box.x1, x + 1);
+      box.y1 = Math.max(box.y1, y + 1);
+      box.mass++;
+      box.cx += x + 0.5;
+      box.cy += y + 0.5;
+    }
+  }
+  if (box.mass < SIZE * SIZE * 0.04) return null;
+  box.cx /= box.mass;
+  box.cy /= box.mass;
+  return box;
+}
+
+export function createFramingAnalyzer() {
+  const gray = new Float32Array(SIZE * SIZE);
+
+  // Text targets prefer a whole document and fall back to the print itself; objects use the salient blob.
+  const analyze = (frame: ImageData, target: FramingTarget): FramingReading => {
+    if (target === 'object') return toReading('object', findObjectBox(frame));
+    grayscale(frame, gray);
+    const documentBox = findDocumentBox(gray);
+    if (documentBox) return toReading('document', documentBox);
+    return toReading('text', findTextBox(gray));
+  };
+
+  return { analyze };
+}
+
+const BASE_FREQUENCY = 520;
+const TONE_GAIN = 0.04;
+// Readings in a row that must be centred before we call it locked, and the drift that unlocks it
+const LOCK_READINGS = 3;
+const UNLOCK_TOLERANCE = 0.3;
+
+/**
+ * Continuous aiming tone: panned toward the side the target is on, pitched up when it sits
+ * above centre and down when below. Falls silent and plays a chime once the target locks.
+ */
+export function createFramingCues() {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const panner = ctx.createStereoPanner();
+  osc.type = 'triangle';
+  osc.frequency.value = BASE_FREQUENCY;
+  gain.gain.value = 0;
+  osc.connect(gain).connect(panner).connect(ctx.destination);
+  osc.start();
+
+  let centeredCount = 0;
+  let locked = false;
+
+  const setTone = (volume: number, pan: number, frequency: number) => {
+    const t = ctx.currentTime;
+    gain.gain.setTargetAtTime(volume, t, 0.05);
+    panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, pan)), t, 0.05);
+    osc.frequency.setTargetAtTime(frequency, t, 0.05);
+  };
+
+  const playChime = () => {
+    [880, 1320].forEach((frequency, i) => {
+      const chime = ctx.createOscillator();
+      const chimeGain = ctx.createGain();
+      const start = ctx.currentTime + i * 0.12;
+      chime.frequency.value = frequency;
+      chimeGain.gain.setValueAtTime(0.12, start);
+      chimeGain.gain.exponentialRampToValueAtTime(0.0001, start + 0.25);
+      chime.connect(chimeGain).connect(ctx.destination);
+      chime.start(start);
+      chime.stop(start + 0.3);
+    });
+    vibrate([30, 40, 30]);
+  };
+
+  // Returns true on the reading that achieves a lock.
+  const update = (reading: FramingReading | null): boolean => {
+    if (ctx.state === 'suspended') ctx.resume();
+    if (!reading || !reading.found) {
+      centeredCount = 0;
+      locked = false;
+      setTone(0, 0, BASE_FREQUENCY);
+      return false;
+    }
+
+    if (locked) {
+      const drifted = Math.abs(reading.offsetX) > UNLOCK_TOLERANCE || Math.abs(reading.offsetY) > UNLOCK_TOLERANCE;
+      if (!drifted) return false;
+      locked = false;
+      centeredCount = 0;
+    }
+
+    if (reading.centered) {
+      centeredCount++;
+      if (centeredCount >= LOCK_READINGS) {
+        locked = true;
+        setTone(0, 0, BASE_FREQUENCY);
+        playChime();
+        return true;
+      }
+    } else {
+      centeredCount = 0;
+    }
+
+    // Target above centre -> higher pitch (tilt up), below -> lower; an octave either way at the edge
+    const frequency = BASE_FREQUENCY * Math.pow(2, -reading.offsetY);
+    setTone(TONE_GAIN, reading.offsetX, frequency);
+    return false;
+  };
+
+  const stop = () => {
+    try {
+      osc.stop();
+    } catch (e) {
+      // Already stopped
+    }
+    ctx.close();
+  };
+
+  return { update, stop };
+}
+
+const SAMPLE_INTERVAL_MS = 150;
+
+/**
+ * Samples frames via `sampleFrame` and drives the aiming tone until the returned stop function
+ * is called. `sampleFrame` returning null silences the tone (paused, capturing, and so on);
+ * `onLock` fires each time the target becomes centred.
+ */
+export function startFramingAssistant(
+  sampleFrame: () => ImageData | null,
+  getTarget: () => FramingTarget | null,
+  onLock?: (reading: FramingReading) => void,
+): () => void {
+  const analyzer = createFramingAnalyzer();
+  const cues = createFramingCues();
+
+  const timer = window.setInterval(() => {
+    const target = getTarget();
+    const frame = target ? sampleFrame() : null;
+    const reading = frame && target ? analyzer.analyze(frame, target) : null;
+    if (cues.update(reading) && reading) onLock?.(reading);
+  }, SAMPLE_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    cues.stop();
+  };
+}
@@ -0,0 +1,148 @@
+import { GeoPosition } from '../types';
+import { t } from './i18n';
+
+// Position sources for the places subsystem. The browser provider wraps the Geolocation API;
+// the mock provider walks a fixed path so navigation context can be tested at a desk.
+
+export interface GeolocationProvider {
+  name: string;
+  // Starts delivering positions; returns a function that stops the watch.
+  watch: (onPosition: (position: GeoPosition) => void, onError?: (message: string) => void) => () => void;
+}
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+type LatLon = { latitude: number; longitude: number };
+
+export function distanceMeters(a: LatLon, b: LatLon): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Initial great-circle bearing from a to b, degrees clockwise from north.
+export function bearingDegrees(a: LatLon, b: LatLon): number {
+  const dLon = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLon) * Math.cos(toRad(b.latitude));
+  const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude))
+    - Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS_POINTS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+export function compassName(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+}
+
+// Clock-face direction of a bearing relative to the walking direction (12 o'clock = straight ahead).
+export function clockDirection(bearing: number, heading: number): number {
+  const relative = (bearing - heading + 360) % 360;
+  return Math.round(relative / 30) % 12 || 12;
+}
+
+export function formatDistance(meters: number): string {
+  if (meters < 20) return 'a few metres';
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} metres`;
+  return `${(meters / 1000).toFixed(1)} kilometres`;
+}
+
+export function createBrowserGeolocationProvider(): GeolocationProvider {
+  return {
+    name: 'browser',
+    watch: (onPosition, onError) => {
+      if (!('geolocation' in navigator)) {
+        onError?.(t('location.unsupported'));
+        return () => {};
+      }
+      const watchId = navigator.geolocation.watchPosition(
+        pos => onPosition({
+          latitude: pos.coords.latitude,
+          longitude: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          // Browsers report NaN heading while stationary
+          heading: pos.coords.heading !== null && !Number.isNaN(pos.coords.heading) ? pos.coords.heading : null,
+          speed: pos.coords.speed,
+          timestamp: pos.timestamp,
+        }),
+        err => onError?.(err.code === err.PERMISSION_DENIED ? t('location.denied') : t('location.failed')),
+        { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 },
+      );
+      return () => navigator.geolocation.clearWatch(watchId);
+    },
+  };
+}
+
+/**
+ * Walks along `path` at `speed` m/s, reporting a position every `intervalMs`, then stands
+ * still at the last point. Heading follows the current leg.
+ */
+export function createMockGeolocationProvider(path: LatLon[], speed = 1.3, intervalMs = 1000): GeolocationProvider {
+  return {
+    name: 'mock',
+    watch: (onPosition) => {
+      const startedAt = Date.now();
+      const legs = path.slice(1).map((to, i) => ({ from: path[i], to, length: distanceMeters(path[i], to) }));
+
+      const emit = () => {
+        let travelled = ((Date.now() - startedAt) / 1000) * speed;
+        let position: LatLon = path[path.length - 1];
+        let heading: number | null = null;
+        for (const leg of legs) {
+          if (travelled <= leg.length) {
+            const f = leg.length > 0 ? travelled / leg.length : 1;
+            position = {
+              latitude: leg.from.latitude + (leg.to.latitude - leg.from.latitude) * f,
+              longitude: leg.from.longitude + (leg.to.longitude - leg.from.longitude) * f,
+            };
+            heading = bearingDegrees(leg.from, leg.to);
+            break;
+          }
+          travelled -= leg.length;
+        }
+        onPosition({ ...position, accuracy: 5, heading, speed: heading === null ? 0 : speed, timestamp: Date.now() });
+      };
+
+      emit();
+      const timer = window.setInterval(emit, intervalMs);
+      return () => window.clearInterval(timer);
+    },
+  };
+}
+
+// "lat,lon;lat,lon;..." as used by the MOCK_GEOLOCATION env variable.
+export function parseMockPath(spec: string): LatLon[] {
+  return spec.split(';')
+    .map(pair => pair.split(',').map(Number))
+    .filter(([lat, lon]) => Number.isFinite(lat) && Number.isFinite(lon))
+    .map(([latitude, longitude]) => ({ latitude, longitude }));
+}
+
+export function createDefaultGeolocationProvider(): GeolocationProvider {
+  const path = parseMockPath(process.env.MOCK_GEOLOCATION || '');
+  if (path.length > 0) return createMockGeolocationProvider(path);
+  return createBrowserGeolocationProvider();
+}
+
+// One-shot position, e.g. for saving the current place.
+export function getCurrentPosition(provider: GeolocationProvider, timeoutMs = 20000): Promise<GeoPosition> {
+  return new Promise((resolve, reject) => {
+    let stop: (() => void) | null = null;
+    const timer = setTimeout(() => {
+      stop?.();
+      reject(new Error(t('location.failed')));
+    }, timeoutMs);
+    const finish = () => {
+      clearTimeout(timer);
+      // watch() may deliver synchronously, before stop is assigned
+      setTimeout(() => stop?.(), 0);
+    };
+    stop = provider.watch(
+      position => { finish(); resolve(position); },
+      message => { finish(); reject(new Error(message)); },
+    );
+  });
+}
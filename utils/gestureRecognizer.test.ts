@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import { GestureBindings, GestureName, GestureTimings } from '../types';
+import { DEFAULT_GESTURE_BINDINGS, DEFAULT_GESTURE_TIMINGS, RELAXED_GESTURE_TIMINGS } from '../constants';
+import { GestureScheduler, bindingFor, createGestureRecognizer } from './gestureRecognizer';
+
+const VIEWPORT = { width: 400, height: 800 };
+const CENTRE = { x: 200, y: 400 };
+
+// Timers fire only when the test moves the clock, in the order they are due
+function createFakeClock() {
+  let now = 0;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const scheduler: GestureScheduler = {
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.set(id, { at: now + ms, callback });
+      return id;
+    },
+    clearTimeout: id => {
+      timers.delete(id);
+    },
+  };
+
+  const advance = (ms: number) => {
+    const end = now + ms;
+    for (;;) {
+      const due = [...timers.entries()].filter(([, t]) => t.at <= end).sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = end;
+  };
+
+  return { scheduler, advance, now: () => now };
+}
+
+function setup(initialTimings: GestureTimings = DEFAULT_GESTURE_TIMINGS) {
+  const clock = createFakeClock();
+  const gestures: GestureName[] = [];
+  let timings = initialTimings;
+  const recognizer = createGestureRecognizer({
+    getTimings: () => timings,
+    getViewport: () => VIEWPORT,
+    onGesture: gesture => gestures.push(gesture),
+    scheduler: clock.scheduler,
+  });
+
+  const down = (x: number, y: number, id = 0) => recognizer.pointerDown(id, x, y, clock.now());
+  const move = (x: number, y: number, id = 0) => recognizer.pointerMove(id, x, y, clock.now());
+  const up = (x: number, y: number, id = 0) => recognizer.pointerUp(id, x, y, clock.now());
+
+  const tap = (x = CENTRE.x, y = CENTRE.y, holdMs = 50) => {
+    down(x, y);
+    clock.advance(holdMs);
+    up(x, y);
+  };
+
+  // Moves in even steps from one point to another, lifting the finger at the end unless told to hold
+  const drag = (from: { x: number; y: number }, to: { x: number; y: number }, durationMs: number, lift = true) => {
+    const steps = 5;
+    down(from.x, from.y);
+    for (let i = 1; i <= steps; i++) {
+      clock.advance(durationMs / steps);
+      move(from.x + ((to.x - from.x) * i) / steps, from.y + ((to.y - from.y) * i) / steps);
+    }
+    if (lift) up(to.x, to.y);
+  };
+
+  return {
+    recognizer,
+    clock,
+    gestures,
+    down,
+    move,
+    up,
+    tap,
+    drag,
+    setTimings: (next: GestureTimings) => { timings = next; },
+  };
+}
+
+describe('taps', () => {
+  it('reports a single tap once the multi-tap window has passed', () => {
+    const g = setup();
+    g.tap();
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.multiTapWindow - 1);
+    expect(g.gestures).toEqual([]);
+    g.clock.advance(1);
+    expect(g.gestures).toEqual(['singleTap']);
+  });
+
+  it('reports a double tap', () => {
+    const g = setup();
+    g.tap();
+    g.clock.advance(100);
+    g.tap();
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.multiTapWindow);
+    expect(g.gestures).toEqual(['doubleTap']);
+  });
+
+  it('reports a triple tap straight away', () => {
+    const g = setup();
+    g.tap();
+    g.clock.advance(100);
+    g.tap();
+    g.clock.advance(100);
+    g.tap();
+    expect(g.gestures).toEqual(['tripleTap']);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual(['tripleTap']);
+  });
+
+  it('treats taps further apart than the window as separate single taps', () => {
+    const g = setup();
+    g.tap();
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.multiTapWindow + 50);
+    g.tap();
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.multiTapWindow);
+    expect(g.gestures).toEqual(['singleTap', 'singleTap']);
+  });
+
+  it.each([
+    ['last down lifts first', [1, 0]],
+    ['first down lifts first', [0, 1]],
+  ] as const)('reports a two-finger tap when the %s', (_order, liftOrder) => {
+    const g = setup();
+    const fingers = [{ x: 180, y: 400 }, { x: 240, y: 400 }];
+    g.down(fingers[0].x, fingers[0].y, 0);
+    g.down(fingers[1].x, fingers[1].y, 1);
+    g.clock.advance(80);
+    liftOrder.forEach(id => g.up(fingers[id].x, fingers[id].y, id));
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual(['twoFingerTap']);
+  });
+
+  it('ignores two fingers when one of them slides', () => {
+    const g = setup();
+    g.down(180, 400, 0);
+    g.down(240, 400, 1);
+    g.clock.advance(40);
+    g.move(240, 300, 1);
+    g.clock.advance(40);
+    g.up(180, 400, 0);
+    g.up(240, 300, 1);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([]);
+  });
+
+  it('drops pending taps on cancel', () => {
+    const g = setup();
+    g.tap();
+    g.recognizer.cancel();
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([]);
+  });
+});
+
+describe('swipes', () => {
+  it.each([
+    ['swipeLeft', { x: 80, y: 400 }],
+    ['swipeRight', { x: 320, y: 400 }],
+    ['swipeUp', { x: 200, y: 280 }],
+    ['swipeDown', { x: 200, y: 520 }],
+  ] as const)('reports %s', (gesture, to) => {
+    const g = setup();
+    g.drag(CENTRE, to, 200);
+    expect(g.gestures).toEqual([gesture]);
+  });
+
+  it('ignores a diagonal movement', () => {
+    const g = setup();
+    g.drag(CENTRE, { x: 300, y: 500 }, 200);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([]);
+  });
+
+  it('ignores a movement too slow to be a swipe', () => {
+    const g = setup();
+    g.drag(CENTRE, { x: 80, y: 400 }, DEFAULT_GESTURE_TIMINGS.swipeMaxDuration + 100);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([]);
+  });
+
+  it.each([
+    ['swipeHoldLeft', { x: 80, y: 400 }],
+    ['swipeHoldRight', { x: 320, y: 400 }],
+    ['swipeHoldUp', { x: 200, y: 280 }],
+    ['swipeHoldDown', { x: 200, y: 520 }],
+  ] as const)('reports %s when the finger stays down after the swipe', (gesture, to) => {
+    const g = setup();
+    g.drag(CENTRE, to, 150, false);
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.holdDuration - 1);
+    expect(g.gestures).toEqual([]);
+    g.clock.advance(1);
+    expect(g.gestures).toEqual([gesture]);
+    // Lifting the finger afterwards adds nothing
+    g.up(to.x, to.y);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([gesture]);
+  });
+
+  it('reports a swipe in from the left edge', () => {
+    const g = setup();
+    g.drag({ x: 5, y: 400 }, { x: 150, y: 400 }, 200);
+    expect(g.gestures).toEqual(['edgeSwipeFromLeft']);
+  });
+
+  it('reports a swipe in from the right edge', () => {
+    const g = setup();
+    g.drag({ x: 395, y: 400 }, { x: 250, y: 400 }, 200);
+    expect(g.gestures).toEqual(['edgeSwipeFromRight']);
+  });
+
+  it('keeps a swipe that starts just inside the edge zone an ordinary swipe', () => {
+    const g = setup();
+    g.drag({ x: DEFAULT_GESTURE_TIMINGS.edgeWidth + 1, y: 400 }, { x: 200, y: 400 }, 200);
+    expect(g.gestures).toEqual(['swipeRight']);
+  });
+});
+
+describe('long press', () => {
+  it('reports a long press while the finger is still down', () => {
+    const g = setup();
+    g.down(CENTRE.x, CENTRE.y);
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.longPressDuration - 1);
+    expect(g.gestures).toEqual([]);
+    g.clock.advance(1);
+    expect(g.gestures).toEqual(['longPress']);
+    g.up(CENTRE.x, CENTRE.y);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual(['longPress']);
+  });
+
+  it('does not fire when the finger wanders off', () => {
+    const g = setup();
+    g.down(CENTRE.x, CENTRE.y);
+    g.clock.advance(100);
+    g.move(CENTRE.x + DEFAULT_GESTURE_TIMINGS.tapMaxMovement + 10, CENTRE.y + 60);
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.longPressDuration);
+    expect(g.gestures).not.toContain('longPress');
+  });
+});
+
+describe('gesture timings', () => {
+  it('accepts slower taps with the relaxed preset', () => {
+    const slowTap = 500;
+    const standard = setup();
+    standard.tap(CENTRE.x, CENTRE.y, slowTap);
+    standard.clock.advance(1000);
+    expect(standard.gestures).toEqual([]);
+
+    const relaxed = setup(RELAXED_GESTURE_TIMINGS);
+    relaxed.tap(CENTRE.x, CENTRE.y, slowTap);
+    relaxed.clock.advance(RELAXED_GESTURE_TIMINGS.multiTapWindow);
+    expect(relaxed.gestures).toEqual(['singleTap']);
+  });
+
+  it('joins taps further apart with a longer multi-tap window', () => {
+    const g = setup(RELAXED_GESTURE_TIMINGS);
+    g.tap();
+    g.clock.advance(500);
+    g.tap();
+    g.clock.advance(RELAXED_GESTURE_TIMINGS.multiTapWindow);
+    expect(g.gestures).toEqual(['doubleTap']);
+  });
+
+  it('waits for the configured long-press duration', () => {
+    const g = setup(RELAXED_GESTURE_TIMINGS);
+    g.down(CENTRE.x, CENTRE.y);
+    g.clock.advance(DEFAULT_GESTURE_TIMINGS.longPressDuration);
+    expect(g.gestures).toEqual([]);
+    g.clock.advance(RELAXED_GESTURE_TIMINGS.longPressDuration - DEFAULT_GESTURE_TIMINGS.longPressDuration);
+    expect(g.gestures).toEqual(['longPress']);
+  });
+
+  it('picks up changed timings without being recreated', () => {
+    const g = setup();
+    g.setTimings({ ...DEFAULT_GESTURE_TIMINGS, swipeMinDistance: 200 });
+    g.drag(CENTRE, { x: 80, y: 400 }, 200);
+    g.clock.advance(1000);
+    expect(g.gestures).toEqual([]);
+
+    g.setTimings(DEFAULT_GESTURE_TIMINGS);
+    g.drag(CENTRE, { x: 80, y: 400 }, 200);
+    expect(g.gestures).toEqual(['swipeLeft']);
+  });
+});
+
+describe('bindingFor', () => {
+  it('uses the stored binding', () => {
+    const bindings: GestureBindings = { ...DEFAULT_GESTURE_BINDINGS, singleTap: 'repeatLast' };
+    expect(bindingFor(bindings, 'singleTap')).toBe('repeatLast');
+  });
+
+  it('falls back to the default for gestures missing from a stored map', () => {
+    const stored: Partial<GestureBindings> = { singleTap: 'repeatLast' };
+    expect(bindingFor(stored, 'edgeSwipeFromRight')).toBe(DEFAULT_GESTURE_BINDINGS.edgeSwipeFromRight);
+    expect(bindingFor({}, 'tripleTap')).toBe('sos');
+  });
+});
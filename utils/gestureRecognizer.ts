@@ -0,0 +1,224 @@
+import { GestureAction, GestureBindings, GestureName, GestureTimings } from '../types';
+import { DEFAULT_GESTURE_BINDINGS } from '../constants';
+
+// Turns raw pointer contacts into named gestures. It has no DOM dependencies: callers feed
+// pointer events with their own timestamps and may inject a scheduler, so synthetic
+// touch sequences can be replayed deterministically.
+
+export interface GestureScheduler {
+  setTimeout: (callback: () => void, ms: number) => number;
+  clearTimeout: (id: number) => void;
+}
+
+export interface GestureRecognizerOptions {
+  getTimings: () => GestureTimings;
+  // Used to spot edge swipes; coordinates are expected in the same space
+  getViewport: () => { width: number; height: number };
+  onGesture: (gesture: GestureName) => void;
+  scheduler?: GestureScheduler;
+}
+
+export interface GestureRecognizer {
+  pointerDown: (id: number, x: number, y: number, time: number) => void;
+  pointerMove: (id: number, x: number, y: number, time: number) => void;
+  pointerUp: (id: number, x: number, y: number, time: number) => void;
+  // Abandons the current stroke and any pending taps, e.g. when an overlay opens
+  cancel: () => void;
+}
+
+interface Contact {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+interface Stroke {
+  startTime: number;
+  // Every finger that touched down during the stroke, including ones already lifted
+  contacts: Map<number, Contact>;
+  // The first finger down; single-finger gestures follow its movement
+  primaryId: number;
+  maxPointers: number;
+  // Set once the stroke has produced its gesture (long press, swipe-and-hold)
+  consumed: boolean;
+  // Where the finger last settled, to detect a hold at the end of a swipe
+  anchorX: number;
+  anchorY: number;
+}
+
+const defaultScheduler: GestureScheduler = {
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+};
+
+// Gestures missing from a stored map (e.g. one saved before the gesture existed) keep their default action
+export function bindingFor(bindings: Partial<GestureBindings>, gesture: GestureName): GestureAction {
+  return bindings[gesture] ?? DEFAULT_GESTURE_BINDINGS[gesture];
+}
+
+type Direction = 'Left' | 'Right' | 'Up' | 'Down';
+
+// Dominant direction of a movement, or null when it is too diagonal to call.
+function swipeDirection(dx: number, dy: number): Direction | null {
+  const ax = Math.abs(dx);
+  const ay = Math.abs(dy);
+  if (ax >= ay * 1.5) return dx < 0 ? 'Left' : 'Right';
+  if (ay >= ax * 1.5) return dy < 0 ? 'Up' : 'Down';
+  return null;
+}
+
+export function createGestureRecognizer(options: GestureRecognizerOptions): GestureRecognizer {
+  const { getTimings, getViewport, onGesture } = options;
+  const scheduler = options.scheduler ?? defaultScheduler;
+
+  const active = new Set<number>();
+  let stroke: Stroke | null = null;
+  let tapCount = 0;
+  let tapTimer: number | null = null;
+  let longPressTimer: number | null = null;
+  let holdTimer: number | null = null;
+
+  const clear = (timer: number | null) => {
+    if (timer !== null) scheduler.clearTimeout(timer);
+    return null;
+  };
+
+  const resetTaps = () => {
+    tapTimer = clear(tapTimer);
+    tapCount = 0;
+  };
+
+  const primary = (s: Stroke) => s.contacts.get(s.primaryId)!;
+  const drift = (c: Contact) => Math.hypot(c.x - c.startX, c.y - c.startY);
+
+  const armHold = () => {
+    holdTimer = clear(holdTimer);
+    holdTimer = scheduler.setTimeout(() => {
+      holdTimer = null;
+      const s = stroke;
+      if (!s || s.consumed || s.maxPointers > 1) return;
+      const c = primary(s);
+      if (drift(c) < getTimings().swipeMinDistance) return;
+      const direction = swipeDirection(c.x - c.startX, c.y - c.startY);
+      if (!direction) return;
+      s.consumed = true;
+      resetTaps();
+      onGesture(`swipeHold${direction}` as GestureName);
+    }, getTimings().holdDuration);
+  };
+
+  const pointerDown = (id: number, x: number, y: number, time: number) => {
+    active.add(id);
+    const contact = { startX: x, startY: y, x, y };
+    if (!stroke) {
+      stroke = { startTime: time, contacts: new Map([[id, contact]]), primaryId: id, maxPointers: 1, consumed: false, anchorX: x, anchorY: y };
+      longPressTimer = scheduler.setTimeout(() => {
+        longPressTimer = null;
+        const s = stroke;
+        if (!s || s.consumed || s.maxPointers > 1 || drift(primary(s)) > getTimings().tapMaxMovement) return;
+        s.consumed = true;
+        resetTaps();
+        onGesture('longPress');
+      }, getTimings().longPressDuration);
+      return;
+    }
+    // A second finger turns this into a multi-finger stroke
+    stroke.contacts.set(id, contact);
+    stroke.maxPointers = Math.max(stroke.maxPointers, active.size);
+    longPressTimer = clear(longPressTimer);
+    holdTimer = clear(holdTimer);
+  };
+
+  const pointerMove = (id: number, x: number, y: number, _time: number) => {
+    if (!active.has(id) || !stroke) return;
+    const contact = stroke.contacts.get(id)!;
+    contact.x = x;
+    contact.y = y;
+    // Long press and swipe-and-hold only follow the first finger down
+    if (id !== stroke.primaryId) return;
+
+    const timings = getTimings();
+    if (drift(contact) > timings.tapMaxMovement) longPressTimer = clear(longPressTimer);
+    // Each real movement restarts the stillness clock for swipe-and-hold
+    if (Math.hypot(x - stroke.anchorX, y - stroke.anchorY) > timings.tapMaxMovement) {
+      stroke.anchorX = x;
+      stroke.anchorY = y;
+      if (drift(contact) >= timings.swipeMinDistance) armHold();
+    }
+  };
+
+  const settleStroke = (s: Stroke, time: number) => {
+    const timings = getTimings();
+    const duration = time - s.startTime;
+
+    if (s.maxPointers >= 2) {
+      resetTaps();
+      // Each finger is judged against its own starting point, whichever lifts first
+      const still = [...s.contacts.values()].every(c => drift(c) <= timings.tapMaxMovement * 2);
+      if (still && duration <= timings.tapMaxDuration * 2) onGesture('twoFingerTap');
+      return;
+    }
+
+    const { startX, startY, x, y } = primary(s);
+    const dx = x - startX;
+    const dy = y - startY;
+    const distance = Math.hypot(dx, dy);
+
+    if (distance >= timings.swipeMinDistance && duration <= timings.swipeMaxDuration) {
+      const direction = swipeDirection(dx, dy);
+      if (!direction) return;
+      resetTaps();
+      const { width } = getViewport();
+      if (direction === 'Right' && startX <= timings.edgeWidth) onGesture('edgeSwipeFromLeft');
+      else if (direction === 'Left' && startX >= width - timings.edgeWidth) onGesture('edgeSwipeFromRight');
+      else onGesture(`swipe${direction}` as GestureName);
+      return;
+    }
+
+    if (distance <= timings.tapMaxMovement && duration <= timings.tapMaxDuration) {
+      tapCount++;
+      tapTimer = clear(tapTimer);
+      if (tapCount >= 3) {
+        tapCount = 0;
+        onGesture('tripleTap');
+        return;
+      }
+      const count = tapCount;
+      tapTimer = scheduler.setTimeout(() => {
+        tapTimer = null;
+        tapCount = 0;
+        onGesture(count === 1 ? 'singleTap' : 'doubleTap');
+      }, timings.multiTapWindow);
+      return;
+    }
+
+    // Too slow for a swipe, too far for a tap: not a gesture
+    resetTaps();
+  };
+
+  const pointerUp = (id: number, x: number, y: number, time: number) => {
+    if (!active.has(id) || !stroke) return;
+    const contact = stroke.contacts.get(id)!;
+    contact.x = x;
+    contact.y = y;
+    active.delete(id);
+    if (active.size > 0) return;
+
+    const s = stroke;
+    stroke = null;
+    longPressTimer = clear(longPressTimer);
+    holdTimer = clear(holdTimer);
+    if (!s.consumed) settleStroke(s, time);
+  };
+
+  const cancel = () => {
+    active.clear();
+    stroke = null;
+    longPressTimer = clear(longPressTimer);
+    holdTimer = clear(holdTimer);
+    resetTaps();
+  };
+
+  return { pointerDown, pointerMove, pointerUp, cancel };
+}
@@ -0,0 +1,65 @@
+import { Language, ModeDefinition } from '../types';
+import { LANGUAGES } from '../constants';
+import { en, MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { hi } from './locales/hi';
+import { gu } from './locales/gu';
+import { DIRECTION_PHRASES } from './locales/directions';
+
+export type { MessageKey };
+
+const CATALOGS: Record<Language, Partial<Record<MessageKey, string>>> = { en, es, hi, gu };
+
+// Follows the user's Language setting; see setLanguage. Module-level like the announcement
+// rate, so announce() and t() work from plain utilities as well as components.
+let currentLanguage: Language = 'en';
+
+export function setLanguage(language: Language) {
+  currentLanguage = language;
+  document.documentElement.lang = language;
+}
+
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+export function getSpeechLang(): string {
+  return LANGUAGES[currentLanguage].speechLang;
+}
+
+// Missing translations fall back to English rather than showing the key.
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const template = CATALOGS[currentLanguage][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+// Built-in modes are translated; custom modes keep the name the user gave them.
+export function modeLabel(mode: ModeDefinition): string {
+  if (!mode.builtIn) return mode.label;
+  const key = `mode.${mode.id}`;
+  return key in en ? t(key as MessageKey) : mode.label;
+}
+
+// Appended to the mode's system prompt. The prompts themselves stay in English, which the
+// model follows best; this tells it which language to speak and how to treat foreign text.
+export function languageInstruction(language: Language, mode: ModeDefinition, translateReading: boolean): string {
+  const readsText = mode.framing === 'text';
+  const lines: string[] = [];
+  if (language !== 'en') {
+    const name = LANGUAGES[language].englishName;
+    lines.push(`LANGUAGE: ${name.toUpperCase()}. Always speak to the user in ${name}, even though these instructions are in English. `
+      + `Translate the example phrases above into natural ${name} rather than saying them in English. `
+      + `Keep numbers and distances. Say clock-face directions in the form "${DIRECTION_PHRASES[language].example}" (that one is 3 o'clock), `
+      + 'because the phone listens for that form to play your voice from the same direction. '
+      + `If the user speaks another language, still answer in ${name} unless they ask you to switch.`);
+  }
+  if (readsText && translateReading) {
+    const name = LANGUAGES[language].englishName;
+    lines.push(`TRANSLATION: When the text you read is not in ${name}, first say which language it is in, then read it translated into ${name}. `
+      + 'Keep names, brand names, numbers and prices as written. Read the original wording too if the user asks.');
+  } else if (readsText && language !== 'en') {
+    lines.push('Read text aloud in the language it is written in, then go back to speaking to the user in their language.');
+  }
+  return lines.join('\n');
+}
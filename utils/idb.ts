@@ -0,0 +1,63 @@
+// Thin promise wrapper around the single IndexedDB database the app keeps on-device.
+// Add new object stores to STORES and bump DB_VERSION; upgrades only create what is missing.
+
+const DB_NAME = 'sightguide';
+const DB_VERSION = 3;
+
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  recordings: { keyPath: 'id' },
+  recordingChunks: { keyPath: ['recordingId', 'index'] },
+  places: { keyPath: 'id' },
+  routes: { keyPath: 'id' },
+  memories: { keyPath: 'id' },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, options]) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function idbGet<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: string, query?: IDBKeyRange): Promise<T[]> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll(query));
+}
+
+export async function idbPut<T>(store: string, value: T): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function idbDelete(store: string, query: IDBValidKey | IDBKeyRange): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(query));
+}
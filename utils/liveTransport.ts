@@ -0,0 +1,152 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import type { SessionRecording } from './sessionRecorder';
+
+// The subset of the Live API callbacks LiveAssistant relies on.
+export interface LiveSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onclose?: (e: CloseEvent) => void;
+  onerror?: (e: ErrorEvent | Event) => void;
+}
+
+export interface LiveSessionParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveSessionCallbacks;
+}
+
+// The subset of the Live API session LiveAssistant relies on.
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+  // Bytes sent but still queued on the socket. Only transports that own their socket
+  // provide it; the rest adapt on round-trip latency alone.
+  bufferedAmount?(): number;
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  connect(params: LiveSessionParams): Promise<LiveSession>;
+}
+
+// Real Gemini Live API connection.
+export function createGeminiTransport(apiKey: string | undefined): LiveTransport {
+  return {
+    name: 'gemini',
+    connect: ({ model, config, callbacks }) => {
+      const ai = new GoogleGenAI({ apiKey });
+      return ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: callbacks.onopen,
+          onmessage: callbacks.onmessage,
+          onclose: callbacks.onclose,
+          onerror: callbacks.onerror,
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Speaks a minimal JSON protocol to a local stand-in server (see scripts/mock-live-server.mjs).
+ * Client frames: { setup }, { realtimeInput }, { clientContent }, { toolResponse }.
+ * Server frames: raw LiveServerMessage JSON.
+ */
+export function createWebSocketTransport(url: string): LiveTransport {
+  return {
+    name: 'mock',
+    connect: ({ model, config, callbacks }) => new Promise<LiveSession>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let opened = false;
+
+      const send = (payload: object) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+      };
+
+      const session: LiveSession = {
+        sendRealtimeInput: (params) => send({ realtimeInput: params }),
+        sendClientContent: (params) => send({ clientContent: params }),
+        sendToolResponse: (params) => send({ toolResponse: params }),
+        close: () => {
+          try { socket.close(); } catch (e) {}
+        },
+        bufferedAmount: () => socket.bufferedAmount,
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        // Tools and prompts are passed along so scenarios can assert on them.
+        send({ setup: { model, config } });
+        resolve(session);
+        callbacks.onopen?.();
+      };
+      socket.onmessage = (e) => {
+        try {
+          const message = Object.assign(new LiveServerMessage(), JSON.parse(e.data as string));
+          callbacks.onmessage(message);
+        } catch (err) {
+          console.warn("Mock transport received malformed frame", err);
+        }
+      };
+      socket.onerror = (e) => {
+        if (!opened) reject(new Error(`Could not reach mock live server at ${url}`));
+        callbacks.onerror?.(e);
+      };
+      socket.onclose = (e) => callbacks.onclose?.(e);
+    }),
+  };
+}
+
+/**
+ * Feeds a recorded session back through the normal message pipeline with its original timing.
+ * Client input is ignored; recorded frames are surfaced through `onFrame` so the view shows
+ * what the model saw at each moment.
+ */
+export function createReplayTransport(recording: SessionRecording, onFrame?: (jpegBase64: string) => void): LiveTransport {
+  return {
+    name: 'replay',
+    connect: async ({ callbacks }) => {
+      const timers: number[] = [];
+      const session: LiveSession = {
+        sendRealtimeInput: () => {},
+        sendClientContent: () => {},
+        sendToolResponse: () => {},
+        close: () => timers.forEach(id => window.clearTimeout(id)),
+      };
+
+      // Deferred so the caller has stored the session before the first callback fires.
+      window.setTimeout(() => {
+        callbacks.onopen?.();
+        recording.events.forEach(event => {
+          if (event.kind === 'serverMessage') {
+            timers.push(window.setTimeout(() => {
+              callbacks.onmessage(Object.assign(new LiveServerMessage(), event.data));
+            }, event.t));
+          } else if (event.kind === 'frame' && onFrame) {
+            timers.push(window.setTimeout(() => onFrame(event.data), event.t));
+          }
+        });
+      }, 0);
+
+      return session;
+    },
+  };
+}
+
+// Picks the mock server when LIVE_MOCK_URL is set at build time, otherwise Gemini.
+export function createDefaultTransport(): LiveTransport {
+  const mockUrl = process.env.LIVE_MOCK_URL;
+  if (mockUrl) return createWebSocketTransport(mockUrl);
+  return createGeminiTransport(process.env.API_KEY);
+}
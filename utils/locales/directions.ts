@@ -0,0 +1,85 @@
+import { Language } from '../../types';
+
+// How the guide says directions in each language, so its voice can be placed where the thing
+// is (see spatialAudio). `example` is the clock-face form the guide is told to use; the
+// patterns recognise that form, with the hour as digits or a number word, plus the everyday
+// words for ahead, behind, left and right. Text is lower-cased, NFC-normalised and has its
+// digits converted to 0-9 before matching.
+export interface DirectionPhrases {
+  example: string;
+  // Group 1 is the hour
+  clock: RegExp;
+  numberWords: Record<string, number>;
+  words: [RegExp, number][];
+}
+
+// \b only knows ASCII letters, so Devanagari and Gujarati words get their own boundary
+const phrase = (source: string) => new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${source.normalize('NFC')})`, 'u');
+
+const en: DirectionPhrases = {
+  example: "3 o'clock",
+  clock: /\b(1[0-2]|[1-9]|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s*o['’]?\s*clock\b/,
+  numberWords: {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  },
+  words: [
+    [/\bstraight ahead\b|\bdirectly ahead\b|\bin front of you\b/, 12],
+    [/\bbehind you\b/, 6],
+    [/\b(?:to|on) your (?:far )?left\b/, 9],
+    [/\b(?:to|on) your (?:far )?right\b/, 3],
+    [/\bslightly (?:to the )?left\b/, 11],
+    [/\bslightly (?:to the )?right\b/, 1],
+  ],
+};
+
+const es: DirectionPhrases = {
+  example: 'a las 3 en punto',
+  clock: /\ba\s+las?\s+(1[0-2]|[1-9]|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce)\s+en\s+punto\b/,
+  numberWords: {
+    una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+  },
+  words: [
+    [/\btodo recto\b|\bjusto delante\b|\bdelante de ti\b|\bde frente\b/, 12],
+    [/\bdetrás de ti\b/, 6],
+    [/\ba tu izquierda\b/, 9],
+    [/\ba tu derecha\b/, 3],
+    [/\b(?:un poco|ligeramente) a la izquierda\b/, 11],
+    [/\b(?:un poco|ligeramente) a la derecha\b/, 1],
+  ],
+};
+
+const hi: DirectionPhrases = {
+  example: '3 बजे की दिशा में',
+  clock: phrase('(1[0-2]|[1-9]|एक|दो|तीन|चार|पाँच|पांच|छह|छः|सात|आठ|नौ|दस|ग्यारह|बारह)\\s*बजे'),
+  numberWords: {
+    'एक': 1, 'दो': 2, 'तीन': 3, 'चार': 4, 'पाँच': 5, 'पांच': 5, 'छह': 6, 'छः': 6,
+    'सात': 7, 'आठ': 8, 'नौ': 9, 'दस': 10, 'ग्यारह': 11, 'बारह': 12,
+  },
+  words: [
+    [phrase('सीधे आगे|ठीक सामने|आपके सामने'), 12],
+    [phrase('आपके पीछे'), 6],
+    [phrase('बाईं (?:ओर|तरफ़|तरफ)|बाएँ|बाएं'), 9],
+    [phrase('दाईं (?:ओर|तरफ़|तरफ)|दाएँ|दाएं'), 3],
+    [phrase('थोड़ा (?:बाईं|बाएँ|बाएं)'), 11],
+    [phrase('थोड़ा (?:दाईं|दाएँ|दाएं)'), 1],
+  ],
+};
+
+const gu: DirectionPhrases = {
+  example: '3 વાગ્યાની દિશામાં',
+  clock: phrase('(1[0-2]|[1-9]|એક|બે|ત્રણ|ચાર|પાંચ|છ|સાત|આઠ|નવ|દસ|અગિયાર|બાર)\\s*વાગ્યા'),
+  numberWords: {
+    'એક': 1, 'બે': 2, 'ત્રણ': 3, 'ચાર': 4, 'પાંચ': 5, 'છ': 6,
+    'સાત': 7, 'આઠ': 8, 'નવ': 9, 'દસ': 10, 'અગિયાર': 11, 'બાર': 12,
+  },
+  words: [
+    [phrase('સીધું આગળ|બરાબર સામે|તમારી સામે'), 12],
+    [phrase('તમારી પાછળ'), 6],
+    [phrase('ડાબી બાજુ|ડાબે'), 9],
+    [phrase('જમણી બાજુ|જમણે'), 3],
+    [phrase('થોડું (?:ડાબી|ડાબે)'), 11],
+    [phrase('થોડું (?:જમણી|જમણે)'), 1],
+  ],
+};
+
+export const DIRECTION_PHRASES: Record<Language, DirectionPhrases> = { en, es, hi, gu };
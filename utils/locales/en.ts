@@ -0,0 +1,213 @@
+// English is the reference catalog: every key lives here, and other languages fall back to it.
+// `{name}` placeholders are filled in by t().
+export const en = {
+  // Session
+  'app.ready': 'SightGuide is ready. Double tap to start. Swipe to change mode. Long press for settings.',
+  'session.opening': 'Opening camera. Tap once anytime to ask what I see.',
+  'session.stopped': 'Stopped.',
+  'session.paused': 'Paused. Double tap to resume.',
+  'session.resuming': 'Resuming.',
+  'session.doubleTapToStart': 'Double tap to start.',
+  'session.connected': "Connected. Let's walk together.",
+  'session.reconnected': 'Back online. Carrying on.',
+  'session.reconnectingIn': "I'm reconnecting in {seconds}s...",
+  'session.noNetwork': "I'm having trouble connecting to the network.",
+  'session.noInternet': "I can't reach the internet right now. Please check your connection.",
+  'session.offlineGuidance': "I can't reach the internet. Switching to offline obstacle beeps. Faster, higher beeps mean something is close. Please walk with extra care.",
+  'session.offlineUnavailable': "I can't reach the internet or use the camera for offline guidance.",
+  'session.startFailed': 'Failed to start camera or connection.',
+
+  // Modes
+  'mode.NAVIGATION': 'Navigation',
+  'mode.READING': 'Reading',
+  'mode.OBJECT': 'Object',
+  'mode.selected': '{mode} Mode.',
+  'mode.saved': '{mode} mode saved.',
+  'mode.deleted': '{mode} mode deleted.',
+
+  // Emergency
+  'emergency.countdown': 'Emergency alert in {seconds} seconds. Double tap to cancel. Triple tap to send now.',
+  'emergency.confirm': 'Tap anywhere to send the emergency alert. Double tap to cancel.',
+  'emergency.sending': 'Sending emergency alert.',
+  'emergency.sentWithLocation': 'Emergency alert sent with your location.',
+  'emergency.sentNoLocation': 'Emergency alert sent. Your location could not be found.',
+  'emergency.failed': 'The alert was not sent. Triple tap or press Send Now to try again. Double tap to cancel.',
+  'emergency.cancelled': 'Emergency alert cancelled.',
+
+  // Actions, as read out by switch scanning
+  'action.none': 'Nothing',
+  'action.startPause': 'Start, pause or resume',
+  'action.start': 'Start or resume',
+  'action.pause': 'Pause or resume',
+  'action.stop': 'Stop',
+  'action.ask': 'Ask what I see',
+  'action.modeNext': 'Next mode',
+  'action.modePrev': 'Previous mode',
+  'action.repeatLast': 'Repeat last answer',
+  'action.sos': 'Emergency alert',
+  'action.settings': 'Open settings',
+  'action.talk': 'Talk',
+  'action.docNext': 'Next document section',
+  'action.docPrev': 'Previous document section',
+  'action.docRepeat': 'Repeat document section',
+  'action.docSpell': 'Spell out document section',
+  'action.find': 'Find an item or stop finding',
+  'action.scan': 'Scan barcodes and money, or stop scanning',
+
+  // Panels
+  'repeat.nothing': 'Nothing to repeat yet.',
+  'panel.settingsOpened': 'Settings opened.',
+  'panel.settings': 'Settings.',
+  'panel.closingSettings': 'Closing settings.',
+  'panel.closed': 'Closed.',
+  'panel.transcript': 'Transcript.',
+  'panel.closingTranscript': 'Closing transcript.',
+  'transcript.cleared': 'Transcript history cleared.',
+  'panel.documents': 'Documents.',
+  'panel.closingDocuments': 'Closing documents.',
+
+  // Documents
+  'document.none': 'No documents yet. In Reading mode, the guide files each document it reads.',
+  'document.summary': '{title}. {count} parts.',
+  'document.item': '{position} of {count}. {label}. {text}',
+  'document.start': 'Start of document.',
+  'document.end': 'End of document.',
+  'document.nothingToSpell': 'Move to a section first.',
+  'document.space': 'space',
+  'document.cleared': 'Documents cleared.',
+
+  // Object finder
+  'finder.pick': 'What should I find? Pick an item or type one.',
+  'finder.looking': 'Looking for {target}. Move the phone slowly. Faster, higher beeps mean you are getting closer.',
+  'finder.stopped': 'Stopped looking for {target}.',
+  'finder.item.keys': 'keys',
+  'finder.item.phone': 'phone',
+  'finder.item.remote': 'remote',
+  'finder.item.wallet': 'wallet',
+  'finder.item.glasses': 'glasses',
+  'finder.item.cup': 'cup',
+  'finder.item.door': 'door',
+  'finder.item.bag': 'bag',
+
+  // Remembered things and people
+  'memory.saved': 'Remembered {label}.',
+  'memory.failed': "I couldn't take a picture to remember. Make sure the session is running and the camera is on.",
+  'memory.renamed': 'Renamed to {label}.',
+  'memory.deleted': 'Forgot {label}.',
+
+  // On-device scanning
+  'scan.on': 'Scanning. Hold a barcode, QR code or banknote in front of the camera.',
+  'scan.off': 'Stopped scanning.',
+  'scan.unsupported': "This phone can't read barcodes. Banknotes will still be recognised.",
+  'scan.barcode': 'Barcode {code}.',
+  'scan.qrUrl': 'QR code with a link to {host}.',
+  'scan.qrContact': 'QR code with a contact card for {name}.',
+  'scan.unnamedContact': 'an unnamed contact',
+  'scan.qrText': 'QR code. {text}',
+  'scan.qrOptions': 'Choose what to do with it on screen.',
+  'scan.banknote': 'Possibly {value} {currency}. Ask the guide to be sure.',
+  'scan.contactReady': 'Contact file ready. Open it to add {name} to your contacts.',
+  'scan.opening': 'Opening {host}.',
+  'currency.EUR': 'euros',
+  'currency.GBP': 'pounds',
+  'currency.INR': 'rupees',
+  'currency.USD': 'dollars',
+
+  // Daily usage budgets
+  'usage.warning': "You've used {percent} percent of today's {budget}.",
+  'usage.exceeded': "Today's {budget} is used up. Switching to low bandwidth: fewer pictures, and the mic only sends when you speak.",
+  'usage.restored': 'Back to normal bandwidth.',
+  'usage.budget.minutes': 'time budget',
+  'usage.budget.megabytes': 'data budget',
+  'usage.budget.tokens': 'token budget',
+
+  // Recordings
+  'recording.loadFailed': 'That recording could not be loaded.',
+  'recording.stopFirst': 'Stop the current session before replaying.',
+  'recording.replaying': 'Replaying recorded session.',
+  'recording.exportFailed': 'Export failed.',
+  'recording.deleted': 'Recording deleted.',
+
+  // Places and routes
+  'places.locating': 'Finding your location.',
+  'location.unsupported': 'Location is not available on this device.',
+  'location.denied': 'Location permission was denied.',
+  'location.failed': "I can't get your location right now.",
+  'places.saved': 'Saved {name}.',
+  'places.saveFailed': 'Could not save this place.',
+  'places.deleted': 'Place deleted.',
+  'places.destinationSet': 'Destination set to {name}.',
+  'places.destinationCleared': 'Destination cleared.',
+  'route.recording': 'Recording route {name}.',
+  'route.saved': 'Route saved with {count} points.',
+  'route.deleted': 'Route deleted.',
+
+  // Settings
+  'profile.exported': 'Settings profile exported.',
+  'profile.imported': 'Settings profile imported.',
+  'profile.importFailed': 'Could not import settings.',
+  'setting.highContrast.on': 'High Contrast Enabled',
+  'setting.highContrast.off': 'High Contrast Disabled',
+  'setting.largeText.on': 'Large Text Enabled',
+  'setting.largeText.off': 'Large Text Disabled',
+  'setting.safeMode.on': 'Safe Mode active.',
+  'setting.safeMode.off': 'Safe Mode off.',
+  'setting.dataSaver.on': 'Data Saver on. Fewer, smaller pictures will be sent.',
+  'setting.dataSaver.off': 'Data Saver off.',
+  'setting.framingCues.on': 'Aiming tones on.',
+  'setting.framingCues.off': 'Aiming tones off.',
+  'setting.switchScanning.on': 'Switch scanning on. Press your switch to start scanning, press again to choose.',
+  'setting.switchScanning.off': 'Switch scanning off.',
+  'setting.recordSessions.on': 'Session recording on.',
+  'setting.recordSessions.off': 'Session recording off.',
+  'setting.duckOnSpeech.on': 'Guide gets quieter when you speak.',
+  'setting.duckOnSpeech.off': 'Guide keeps its volume when you speak.',
+  'setting.translateReading.on': 'Reading mode will translate foreign text.',
+  'setting.translateReading.off': 'Reading mode will read text in its own language.',
+  'setting.shareMemories.on': 'The guide will recognise your things and people.',
+  'setting.shareMemories.off': 'Remembered pictures stay on this phone.',
+  'setting.currency': 'Banknotes set to {currency}.',
+  'setting.verbosity': '{level} guidance.',
+  'setting.language': 'Language set to English.',
+  'verbosity.chatty': 'Chatty',
+  'verbosity.normal': 'Normal',
+  'verbosity.terse': 'Terse',
+  'verbosity.alertsOnly': 'Alerts only',
+  'mic.always': 'Microphone always on.',
+  'mic.vad': 'Microphone sends only when you speak.',
+  'mic.pushToTalk': 'Push to talk. {gesture} opens and closes the microphone.',
+  'mic.pushToTalkUnbound': 'Push to talk. Assign Talk to a gesture in the gesture settings.',
+  'spatial.off': 'Spatial audio off.',
+  'spatial.headphones': 'Spatial audio set for headphones.',
+  'spatial.speaker': 'Spatial audio set for speaker.',
+  'spatial.isOff': 'Spatial audio is off.',
+  'spatial.calibrateHeadphones': 'Calibration. You should hear tones from your left, ahead, your right, then behind you.',
+  'spatial.calibrateSpeaker': 'Calibration. You should hear tones from your left, the middle, then your right.',
+
+  // Page capture
+  'capture.start': 'Capturing the page. Start at the top left of the document and hold the phone steady.',
+  'capture.right': 'The text continues to the right. Slide the phone a little to the right, keeping some overlap.',
+  'capture.down': 'The text continues below. Move the phone a little down the page, keeping some overlap.',
+  'capture.done': 'Got it. Reading now.',
+  'capture.doneMany': 'Got {count} pictures. Reading now.',
+  'capture.failed': "I couldn't capture the page. Please try again.",
+
+  // Status overlay
+  'status.offlineTitle': 'Offline Guidance',
+  'status.offlineBody': 'Obstacle beeps only. Faster beeps mean closer. Reconnecting when the network returns.',
+  'status.noInternet': 'No Internet Connection',
+  'status.connecting': 'Connecting...',
+  'status.connectingBody': 'Initializing your guide.',
+  'status.reconnectingTitle': 'Connection Lost',
+  'status.reconnectingBody': 'Attempting to reconnect...',
+  'status.errorTitle': 'Error',
+  'status.errorBody': 'Service unavailable.',
+  'status.reload': 'Reload App',
+
+  // Control panel
+  'controls.modeSelection': 'Mode Selection',
+  'controls.modeButton': '{mode} Mode',
+  'controls.active': '(Active)',
+};
+
+export type MessageKey = keyof typeof en;
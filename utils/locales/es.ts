@@ -0,0 +1,196 @@
+import { MessageKey } from './en';
+
+export const es: Partial<Record<MessageKey, string>> = {
+  'app.ready': 'SightGuide está listo. Toca dos veces para empezar. Desliza para cambiar de modo. Mantén pulsado para los ajustes.',
+  'session.opening': 'Abriendo la cámara. Toca una vez en cualquier momento para preguntar qué veo.',
+  'session.stopped': 'Detenido.',
+  'session.paused': 'En pausa. Toca dos veces para continuar.',
+  'session.resuming': 'Continuando.',
+  'session.doubleTapToStart': 'Toca dos veces para empezar.',
+  'session.connected': 'Conectado. Caminemos juntos.',
+  'session.reconnected': 'De nuevo en línea. Seguimos.',
+  'session.reconnectingIn': 'Reconectando en {seconds} s...',
+  'session.noNetwork': 'Tengo problemas para conectarme a la red.',
+  'session.noInternet': 'No puedo acceder a internet ahora mismo. Revisa tu conexión.',
+  'session.offlineGuidance': 'No puedo acceder a internet. Cambio a pitidos de obstáculos sin conexión. Pitidos más rápidos y agudos significan que algo está cerca. Camina con mucho cuidado.',
+  'session.offlineUnavailable': 'No puedo acceder a internet ni usar la cámara para la guía sin conexión.',
+  'session.startFailed': 'No se pudo iniciar la cámara o la conexión.',
+
+  'mode.NAVIGATION': 'Navegación',
+  'mode.READING': 'Lectura',
+  'mode.OBJECT': 'Objetos',
+  'mode.selected': 'Modo {mode}.',
+  'mode.saved': 'Modo {mode} guardado.',
+  'mode.deleted': 'Modo {mode} eliminado.',
+
+  'emergency.countdown': 'Alerta de emergencia en {seconds} segundos. Toca dos veces para cancelar. Toca tres veces para enviarla ya.',
+  'emergency.confirm': 'Toca en cualquier lugar para enviar la alerta de emergencia. Toca dos veces para cancelar.',
+  'emergency.sending': 'Enviando alerta de emergencia.',
+  'emergency.sentWithLocation': 'Alerta de emergencia enviada con tu ubicación.',
+  'emergency.sentNoLocation': 'Alerta de emergencia enviada. No se pudo encontrar tu ubicación.',
+  'emergency.failed': 'La alerta no se envió. Toca tres veces o pulsa Enviar ahora para intentarlo de nuevo. Toca dos veces para cancelar.',
+  'emergency.cancelled': 'Alerta de emergencia cancelada.',
+
+  'action.none': 'Nada',
+  'action.startPause': 'Empezar, pausar o continuar',
+  'action.start': 'Empezar o continuar',
+  'action.pause': 'Pausar o continuar',
+  'action.stop': 'Detener',
+  'action.ask': 'Preguntar qué veo',
+  'action.modeNext': 'Modo siguiente',
+  'action.modePrev': 'Modo anterior',
+  'action.repeatLast': 'Repetir la última respuesta',
+  'action.sos': 'Alerta de emergencia',
+  'action.settings': 'Abrir ajustes',
+  'action.talk': 'Hablar',
+  'action.docNext': 'Sección siguiente del documento',
+  'action.docPrev': 'Sección anterior del documento',
+  'action.docRepeat': 'Repetir sección del documento',
+  'action.docSpell': 'Deletrear sección del documento',
+  'action.find': 'Buscar un objeto o dejar de buscar',
+  'action.scan': 'Escanear códigos y billetes, o dejar de escanear',
+
+  'repeat.nothing': 'Todavía no hay nada que repetir.',
+  'panel.settingsOpened': 'Ajustes abiertos.',
+  'panel.settings': 'Ajustes.',
+  'panel.closingSettings': 'Cerrando ajustes.',
+  'panel.closed': 'Cerrado.',
+  'panel.transcript': 'Transcripción.',
+  'panel.closingTranscript': 'Cerrando transcripción.',
+  'transcript.cleared': 'Historial de transcripciones borrado.',
+  'panel.documents': 'Documentos.',
+  'panel.closingDocuments': 'Cerrando documentos.',
+
+  'document.none': 'Todavía no hay documentos. En el modo lectura, el guía guarda cada documento que lee.',
+  'document.summary': '{title}. {count} partes.',
+  'document.item': '{position} de {count}. {label}. {text}',
+  'document.start': 'Principio del documento.',
+  'document.end': 'Fin del documento.',
+  'document.nothingToSpell': 'Primero ve a una sección.',
+  'document.space': 'espacio',
+  'document.cleared': 'Documentos borrados.',
+
+  'finder.pick': '¿Qué busco? Elige un objeto o escríbelo.',
+  'finder.looking': 'Buscando {target}. Mueve el teléfono despacio. Pitidos más rápidos y agudos significan que te acercas.',
+  'finder.stopped': 'He dejado de buscar {target}.',
+  'finder.item.keys': 'las llaves',
+  'finder.item.phone': 'el teléfono',
+  'finder.item.remote': 'el mando',
+  'finder.item.wallet': 'la cartera',
+  'finder.item.glasses': 'las gafas',
+  'finder.item.cup': 'la taza',
+  'finder.item.door': 'la puerta',
+  'finder.item.bag': 'el bolso',
+
+  'memory.saved': 'Recordaré {label}.',
+  'memory.failed': 'No pude tomar una foto para recordar. Comprueba que la sesión está activa y la cámara encendida.',
+  'memory.renamed': 'Renombrado a {label}.',
+  'memory.deleted': 'He olvidado {label}.',
+
+  'scan.on': 'Escaneando. Pon un código de barras, un código QR o un billete delante de la cámara.',
+  'scan.off': 'He dejado de escanear.',
+  'scan.unsupported': 'Este teléfono no puede leer códigos de barras. Los billetes se seguirán reconociendo.',
+  'scan.barcode': 'Código de barras {code}.',
+  'scan.qrUrl': 'Código QR con un enlace a {host}.',
+  'scan.qrContact': 'Código QR con la tarjeta de contacto de {name}.',
+  'scan.unnamedContact': 'un contacto sin nombre',
+  'scan.qrText': 'Código QR. {text}',
+  'scan.qrOptions': 'Elige en la pantalla qué hacer con él.',
+  'scan.banknote': 'Posiblemente {value} {currency}. Pregunta al guía para asegurarte.',
+  'scan.contactReady': 'Archivo de contacto listo. Ábrelo para añadir a {name} a tus contactos.',
+  'scan.opening': 'Abriendo {host}.',
+  'currency.EUR': 'euros',
+  'currency.GBP': 'libras',
+  'currency.INR': 'rupias',
+  'currency.USD': 'dólares',
+
+  // Límites de uso diarios
+  'usage.warning': 'Has usado el {percent} por ciento de tu {budget} de hoy.',
+  'usage.exceeded': 'Se ha agotado tu {budget} de hoy. Paso a bajo consumo: menos imágenes y el micrófono solo envía cuando hablas.',
+  'usage.restored': 'Consumo normal de nuevo.',
+  'usage.budget.minutes': 'límite de tiempo',
+  'usage.budget.megabytes': 'límite de datos',
+  'usage.budget.tokens': 'límite de tokens',
+
+  'recording.loadFailed': 'No se pudo cargar esa grabación.',
+  'recording.stopFirst': 'Detén la sesión actual antes de reproducir.',
+  'recording.replaying': 'Reproduciendo la sesión grabada.',
+  'recording.exportFailed': 'La exportación falló.',
+  'recording.deleted': 'Grabación eliminada.',
+
+  'places.locating': 'Buscando tu ubicación.',
+  'location.unsupported': 'La ubicación no está disponible en este dispositivo.',
+  'location.denied': 'Se denegó el permiso de ubicación.',
+  'location.failed': 'No puedo obtener tu ubicación ahora mismo.',
+  'places.saved': '{name} guardado.',
+  'places.saveFailed': 'No se pudo guardar este lugar.',
+  'places.deleted': 'Lugar eliminado.',
+  'places.destinationSet': 'Destino: {name}.',
+  'places.destinationCleared': 'Destino borrado.',
+  'route.recording': 'Grabando la ruta {name}.',
+  'route.saved': 'Ruta guardada con {count} puntos.',
+  'route.deleted': 'Ruta eliminada.',
+
+  'profile.exported': 'Perfil de ajustes exportado.',
+  'profile.imported': 'Perfil de ajustes importado.',
+  'profile.importFailed': 'No se pudieron importar los ajustes.',
+  'setting.highContrast.on': 'Alto contraste activado',
+  'setting.highContrast.off': 'Alto contraste desactivado',
+  'setting.largeText.on': 'Texto grande activado',
+  'setting.largeText.off': 'Texto grande desactivado',
+  'setting.safeMode.on': 'Modo seguro activado.',
+  'setting.safeMode.off': 'Modo seguro desactivado.',
+  'setting.dataSaver.on': 'Ahorro de datos activado. Se enviarán menos imágenes y más pequeñas.',
+  'setting.dataSaver.off': 'Ahorro de datos desactivado.',
+  'setting.framingCues.on': 'Tonos de encuadre activados.',
+  'setting.framingCues.off': 'Tonos de encuadre desactivados.',
+  'setting.switchScanning.on': 'Barrido por conmutador activado. Pulsa el conmutador para empezar el barrido y otra vez para elegir.',
+  'setting.switchScanning.off': 'Barrido por conmutador desactivado.',
+  'setting.recordSessions.on': 'Grabación de sesiones activada.',
+  'setting.recordSessions.off': 'Grabación de sesiones desactivada.',
+  'setting.duckOnSpeech.on': 'El guía bajará el volumen cuando hables.',
+  'setting.duckOnSpeech.off': 'El guía mantendrá el volumen cuando hables.',
+  'setting.translateReading.on': 'El modo lectura traducirá el texto en otros idiomas.',
+  'setting.translateReading.off': 'El modo lectura leerá el texto en su idioma original.',
+  'setting.shareMemories.on': 'El guía reconocerá tus cosas y a tus personas.',
+  'setting.shareMemories.off': 'Las fotos recordadas se quedan en este teléfono.',
+  'setting.currency': 'Billetes: {currency}.',
+  'setting.verbosity': 'Guía {level}.',
+  'setting.language': 'Idioma: español.',
+  'verbosity.chatty': 'conversadora',
+  'verbosity.normal': 'normal',
+  'verbosity.terse': 'breve',
+  'verbosity.alertsOnly': 'solo alertas',
+  'mic.always': 'Micrófono siempre activo.',
+  'mic.vad': 'El micrófono solo envía cuando hablas.',
+  'mic.pushToTalk': 'Pulsar para hablar. {gesture} abre y cierra el micrófono.',
+  'mic.pushToTalkUnbound': 'Pulsar para hablar. Asigna Hablar a un gesto en los ajustes de gestos.',
+  'spatial.off': 'Audio espacial desactivado.',
+  'spatial.headphones': 'Audio espacial para auriculares.',
+  'spatial.speaker': 'Audio espacial para altavoz.',
+  'spatial.isOff': 'El audio espacial está desactivado.',
+  'spatial.calibrateHeadphones': 'Calibración. Deberías oír tonos a tu izquierda, delante, a tu derecha y detrás de ti.',
+  'spatial.calibrateSpeaker': 'Calibración. Deberías oír tonos a tu izquierda, en el centro y a tu derecha.',
+
+  'capture.start': 'Capturando la página. Empieza por la esquina superior izquierda del documento y mantén el teléfono quieto.',
+  'capture.right': 'El texto sigue a la derecha. Desliza el teléfono un poco a la derecha, dejando algo de solapamiento.',
+  'capture.down': 'El texto sigue abajo. Baja el teléfono un poco por la página, dejando algo de solapamiento.',
+  'capture.done': 'Listo. Leyendo ahora.',
+  'capture.doneMany': '{count} fotos tomadas. Leyendo ahora.',
+  'capture.failed': 'No pude capturar la página. Inténtalo de nuevo.',
+
+  'status.offlineTitle': 'Guía sin conexión',
+  'status.offlineBody': 'Solo pitidos de obstáculos. Pitidos más rápidos significan más cerca. Se reconectará cuando vuelva la red.',
+  'status.noInternet': 'Sin conexión a internet',
+  'status.connecting': 'Conectando...',
+  'status.connectingBody': 'Preparando tu guía.',
+  'status.reconnectingTitle': 'Conexión perdida',
+  'status.reconnectingBody': 'Intentando reconectar...',
+  'status.errorTitle': 'Error',
+  'status.errorBody': 'Servicio no disponible.',
+  'status.reload': 'Recargar la app',
+
+  'controls.modeSelection': 'Selección de modo',
+  'controls.modeButton': 'Modo {mode}',
+  'controls.active': '(Activo)',
+};
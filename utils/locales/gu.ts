@@ -0,0 +1,196 @@
+import { MessageKey } from './en';
+
+export const gu: Partial<Record<MessageKey, string>> = {
+  'app.ready': 'SightGuide તૈયાર છે. શરૂ કરવા માટે બે વાર ટૅપ કરો. મોડ બદલવા માટે સ્વાઇપ કરો. સેટિંગ્સ માટે લાંબું દબાવો.',
+  'session.opening': 'કૅમેરા ખૂલી રહ્યો છે. હું શું જોઉં છું તે પૂછવા માટે ગમે ત્યારે એક વાર ટૅપ કરો.',
+  'session.stopped': 'બંધ કર્યું.',
+  'session.paused': 'થોભાવ્યું છે. ફરી શરૂ કરવા માટે બે વાર ટૅપ કરો.',
+  'session.resuming': 'ફરી શરૂ થઈ રહ્યું છે.',
+  'session.doubleTapToStart': 'શરૂ કરવા માટે બે વાર ટૅપ કરો.',
+  'session.connected': 'જોડાઈ ગયું. ચાલો સાથે ચાલીએ.',
+  'session.reconnected': 'ફરી જોડાઈ ગયું. આગળ ચાલીએ.',
+  'session.reconnectingIn': '{seconds} સેકન્ડમાં ફરી જોડાઈ રહ્યું છે...',
+  'session.noNetwork': 'નેટવર્ક સાથે જોડાવામાં મુશ્કેલી પડી રહી છે.',
+  'session.noInternet': 'અત્યારે ઇન્ટરનેટ મળતું નથી. કૃપા કરીને તમારું કનેક્શન તપાસો.',
+  'session.offlineGuidance': 'ઇન્ટરનેટ મળતું નથી. ઑફલાઇન અવરોધ બીપ પર જઈ રહ્યું છે. ઝડપી અને ઊંચી બીપનો અર્થ છે કે કંઈક નજીક છે. કૃપા કરીને ખૂબ સાવધાનીથી ચાલો.',
+  'session.offlineUnavailable': 'ઇન્ટરનેટ મળતું નથી અને ઑફલાઇન માર્ગદર્શન માટે કૅમેરા પણ વાપરી શકાતો નથી.',
+  'session.startFailed': 'કૅમેરા અથવા કનેક્શન શરૂ થઈ શક્યું નહીં.',
+
+  'mode.NAVIGATION': 'નેવિગેશન',
+  'mode.READING': 'વાંચન',
+  'mode.OBJECT': 'વસ્તુઓ',
+  'mode.selected': '{mode} મોડ.',
+  'mode.saved': '{mode} મોડ સાચવ્યો.',
+  'mode.deleted': '{mode} મોડ કાઢી નાખ્યો.',
+
+  'emergency.countdown': '{seconds} સેકન્ડમાં કટોકટી ચેતવણી. રદ કરવા માટે બે વાર ટૅપ કરો. હમણાં મોકલવા માટે ત્રણ વાર ટૅપ કરો.',
+  'emergency.confirm': 'ઇમરજન્સી એલર્ટ મોકલવા માટે ગમે ત્યાં ટેપ કરો. રદ કરવા માટે બે વાર ટેપ કરો.',
+  'emergency.sending': 'કટોકટી ચેતવણી મોકલાઈ રહી છે.',
+  'emergency.sentWithLocation': 'તમારા સ્થાન સાથે કટોકટી ચેતવણી મોકલાઈ ગઈ.',
+  'emergency.sentNoLocation': 'કટોકટી ચેતવણી મોકલાઈ ગઈ. તમારું સ્થાન મળી શક્યું નહીં.',
+  'emergency.failed': 'ચેતવણી મોકલાઈ નહીં. ફરી પ્રયાસ કરવા માટે ત્રણ વાર ટૅપ કરો અથવા હમણાં મોકલો દબાવો. રદ કરવા માટે બે વાર ટૅપ કરો.',
+  'emergency.cancelled': 'કટોકટી ચેતવણી રદ કરી.',
+
+  'action.none': 'કંઈ નહીં',
+  'action.startPause': 'શરૂ કરો, થોભાવો અથવા ફરી શરૂ કરો',
+  'action.start': 'શરૂ કરો અથવા ફરી શરૂ કરો',
+  'action.pause': 'થોભાવો અથવા ફરી શરૂ કરો',
+  'action.stop': 'બંધ કરો',
+  'action.ask': 'પૂછો કે હું શું જોઉં છું',
+  'action.modeNext': 'આગલો મોડ',
+  'action.modePrev': 'પાછલો મોડ',
+  'action.repeatLast': 'છેલ્લો જવાબ ફરી કહો',
+  'action.sos': 'કટોકટી ચેતવણી',
+  'action.settings': 'સેટિંગ્સ ખોલો',
+  'action.talk': 'બોલો',
+  'action.docNext': 'દસ્તાવેજનો આગલો ભાગ',
+  'action.docPrev': 'દસ્તાવેજનો પાછલો ભાગ',
+  'action.docRepeat': 'દસ્તાવેજનો ભાગ ફરી કહો',
+  'action.docSpell': 'દસ્તાવેજનો ભાગ અક્ષરે અક્ષર બોલો',
+  'action.find': 'કોઈ વસ્તુ શોધો અથવા શોધ બંધ કરો',
+  'action.scan': 'બારકોડ અને નોટ સ્કેન કરો, અથવા સ્કેન બંધ કરો',
+
+  'repeat.nothing': 'હજી ફરી કહેવા માટે કંઈ નથી.',
+  'panel.settingsOpened': 'સેટિંગ્સ ખૂલી.',
+  'panel.settings': 'સેટિંગ્સ.',
+  'panel.closingSettings': 'સેટિંગ્સ બંધ થઈ રહી છે.',
+  'panel.closed': 'બંધ કર્યું.',
+  'panel.transcript': 'ટ્રાન્સક્રિપ્ટ.',
+  'panel.closingTranscript': 'ટ્રાન્સક્રિપ્ટ બંધ થઈ રહી છે.',
+  'transcript.cleared': 'ટ્રાન્સક્રિપ્ટ ઇતિહાસ સાફ કર્યો.',
+  'panel.documents': 'દસ્તાવેજો.',
+  'panel.closingDocuments': 'દસ્તાવેજો બંધ થઈ રહ્યા છે.',
+
+  'document.none': 'હજી કોઈ દસ્તાવેજ નથી. વાંચન મોડમાં ગાઇડ દરેક વાંચેલો દસ્તાવેજ સાચવે છે.',
+  'document.summary': '{title}. {count} ભાગ.',
+  'document.item': '{count} માંથી {position}. {label}. {text}',
+  'document.start': 'દસ્તાવેજની શરૂઆત.',
+  'document.end': 'દસ્તાવેજનો અંત.',
+  'document.nothingToSpell': 'પહેલાં કોઈ ભાગ પર જાઓ.',
+  'document.space': 'જગ્યા',
+  'document.cleared': 'દસ્તાવેજો કાઢી નાખ્યા.',
+
+  'finder.pick': 'શું શોધું? કોઈ વસ્તુ પસંદ કરો અથવા લખો.',
+  'finder.looking': '{target} શોધી રહ્યું છે. ફોન ધીમે ધીમે ફેરવો. ઝડપી અને ઊંચી બીપનો અર્થ છે કે તમે નજીક આવી રહ્યા છો.',
+  'finder.stopped': '{target} ની શોધ બંધ કરી.',
+  'finder.item.keys': 'ચાવીઓ',
+  'finder.item.phone': 'ફોન',
+  'finder.item.remote': 'રિમોટ',
+  'finder.item.wallet': 'પાકીટ',
+  'finder.item.glasses': 'ચશ્મા',
+  'finder.item.cup': 'કપ',
+  'finder.item.door': 'દરવાજો',
+  'finder.item.bag': 'થેલી',
+
+  'memory.saved': '{label} યાદ રાખ્યું.',
+  'memory.failed': 'યાદ રાખવા માટે ફોટો લઈ શક્યું નહીં. ખાતરી કરો કે સત્ર ચાલુ છે અને કૅમેરા ચાલુ છે.',
+  'memory.renamed': 'નામ બદલીને {label} કર્યું.',
+  'memory.deleted': '{label} ભૂલી ગયું.',
+
+  'scan.on': 'સ્કેન કરી રહ્યું છે. બારકોડ, QR કોડ અથવા નોટ કૅમેરા સામે રાખો.',
+  'scan.off': 'સ્કેન બંધ કર્યું.',
+  'scan.unsupported': 'આ ફોન બારકોડ વાંચી શકતો નથી. નોટ હજી પણ ઓળખાશે.',
+  'scan.barcode': 'બારકોડ {code}.',
+  'scan.qrUrl': 'QR કોડમાં {host} ની લિંક છે.',
+  'scan.qrContact': 'QR કોડમાં {name} નું સંપર્ક કાર્ડ છે.',
+  'scan.unnamedContact': 'નામ વગરનો સંપર્ક',
+  'scan.qrText': 'QR કોડ. {text}',
+  'scan.qrOptions': 'સ્ક્રીન પર પસંદ કરો કે તેનું શું કરવું.',
+  'scan.banknote': 'કદાચ {value} {currency}. ખાતરી કરવા ગાઇડને પૂછો.',
+  'scan.contactReady': 'સંપર્ક ફાઇલ તૈયાર છે. {name} ને તમારા સંપર્કોમાં ઉમેરવા તેને ખોલો.',
+  'scan.opening': '{host} ખોલી રહ્યું છે.',
+  'currency.EUR': 'યુરો',
+  'currency.GBP': 'પાઉન્ડ',
+  'currency.INR': 'રૂપિયા',
+  'currency.USD': 'ડોલર',
+
+  // રોજની વપરાશ મર્યાદા
+  'usage.warning': 'આજની {budget}નો {percent} ટકા ઉપયોગ થઈ ગયો છે.',
+  'usage.exceeded': 'આજની {budget} પૂરી થઈ ગઈ. ઓછા ડેટા પર જઈ રહ્યું છે: ઓછા ફોટા, અને માઇક ફક્ત બોલો ત્યારે જ મોકલશે.',
+  'usage.restored': 'ફરીથી સામાન્ય ડેટા પર.',
+  'usage.budget.minutes': 'સમય મર્યાદા',
+  'usage.budget.megabytes': 'ડેટા મર્યાદા',
+  'usage.budget.tokens': 'ટોકન મર્યાદા',
+
+  'recording.loadFailed': 'તે રેકોર્ડિંગ લોડ થઈ શક્યું નહીં.',
+  'recording.stopFirst': 'ફરી ચલાવતા પહેલાં ચાલુ સત્ર બંધ કરો.',
+  'recording.replaying': 'રેકોર્ડ કરેલું સત્ર ચાલી રહ્યું છે.',
+  'recording.exportFailed': 'એક્સપોર્ટ નિષ્ફળ ગયું.',
+  'recording.deleted': 'રેકોર્ડિંગ કાઢી નાખ્યું.',
+
+  'places.locating': 'તમારું સ્થાન શોધી રહ્યું છે.',
+  'location.unsupported': 'આ ઉપકરણ પર સ્થાન ઉપલબ્ધ નથી.',
+  'location.denied': 'સ્થાનની પરવાનગી નકારવામાં આવી.',
+  'location.failed': 'અત્યારે તમારું સ્થાન મળી શકતું નથી.',
+  'places.saved': '{name} સાચવ્યું.',
+  'places.saveFailed': 'આ જગ્યા સાચવી શકાઈ નહીં.',
+  'places.deleted': 'જગ્યા કાઢી નાખી.',
+  'places.destinationSet': 'મુકામ: {name}.',
+  'places.destinationCleared': 'મુકામ હટાવ્યું.',
+  'route.recording': 'રસ્તો {name} રેકોર્ડ થઈ રહ્યો છે.',
+  'route.saved': 'રસ્તો {count} બિંદુઓ સાથે સાચવ્યો.',
+  'route.deleted': 'રસ્તો કાઢી નાખ્યો.',
+
+  'profile.exported': 'સેટિંગ્સ પ્રોફાઇલ એક્સપોર્ટ કરી.',
+  'profile.imported': 'સેટિંગ્સ પ્રોફાઇલ ઇમ્પોર્ટ કરી.',
+  'profile.importFailed': 'સેટિંગ્સ ઇમ્પોર્ટ થઈ શકી નહીં.',
+  'setting.highContrast.on': 'હાઇ કોન્ટ્રાસ્ટ ચાલુ',
+  'setting.highContrast.off': 'હાઇ કોન્ટ્રાસ્ટ બંધ',
+  'setting.largeText.on': 'મોટું લખાણ ચાલુ',
+  'setting.largeText.off': 'મોટું લખાણ બંધ',
+  'setting.safeMode.on': 'સલામત મોડ ચાલુ.',
+  'setting.safeMode.off': 'સલામત મોડ બંધ.',
+  'setting.dataSaver.on': 'ડેટા સેવર ચાલુ. ઓછી અને નાની તસવીરો મોકલાશે.',
+  'setting.dataSaver.off': 'ડેટા સેવર બંધ.',
+  'setting.framingCues.on': 'નિશાન સાધવાના સૂર ચાલુ.',
+  'setting.framingCues.off': 'નિશાન સાધવાના સૂર બંધ.',
+  'setting.switchScanning.on': 'સ્વિચ સ્કેનિંગ ચાલુ. સ્કેન શરૂ કરવા સ્વિચ દબાવો, પસંદ કરવા ફરી દબાવો.',
+  'setting.switchScanning.off': 'સ્વિચ સ્કેનિંગ બંધ.',
+  'setting.recordSessions.on': 'સત્ર રેકોર્ડિંગ ચાલુ.',
+  'setting.recordSessions.off': 'સત્ર રેકોર્ડિંગ બંધ.',
+  'setting.duckOnSpeech.on': 'તમે બોલશો ત્યારે ગાઇડનો અવાજ ધીમો થશે.',
+  'setting.duckOnSpeech.off': 'તમે બોલશો ત્યારે ગાઇડનો અવાજ એટલો જ રહેશે.',
+  'setting.translateReading.on': 'વાંચન મોડ બીજી ભાષાના લખાણનો અનુવાદ કરશે.',
+  'setting.translateReading.off': 'વાંચન મોડ લખાણ તેની પોતાની ભાષામાં વાંચશે.',
+  'setting.shareMemories.on': 'ગાઇડ તમારી વસ્તુઓ અને લોકોને ઓળખશે.',
+  'setting.shareMemories.off': 'યાદ રાખેલા ફોટા આ ફોન પર જ રહેશે.',
+  'setting.currency': 'નોટ: {currency}.',
+  'setting.verbosity': '{level} માર્ગદર્શન.',
+  'setting.language': 'ભાષા: ગુજરાતી.',
+  'verbosity.chatty': 'વાતોડિયું',
+  'verbosity.normal': 'સામાન્ય',
+  'verbosity.terse': 'ટૂંકું',
+  'verbosity.alertsOnly': 'ફક્ત ચેતવણી',
+  'mic.always': 'માઇક્રોફોન હંમેશાં ચાલુ.',
+  'mic.vad': 'તમે બોલો ત્યારે જ માઇક્રોફોન મોકલે છે.',
+  'mic.pushToTalk': 'દબાવીને બોલો. {gesture} માઇક્રોફોન ખોલે અને બંધ કરે છે.',
+  'mic.pushToTalkUnbound': 'દબાવીને બોલો. જેસ્ચર સેટિંગ્સમાં બોલોને કોઈ જેસ્ચર સાથે જોડો.',
+  'spatial.off': 'સ્પેશિયલ ઑડિયો બંધ.',
+  'spatial.headphones': 'સ્પેશિયલ ઑડિયો હેડફોન માટે.',
+  'spatial.speaker': 'સ્પેશિયલ ઑડિયો સ્પીકર માટે.',
+  'spatial.isOff': 'સ્પેશિયલ ઑડિયો બંધ છે.',
+  'spatial.calibrateHeadphones': 'કેલિબ્રેશન. તમને ડાબેથી, સામેથી, જમણેથી અને પછી પાછળથી સૂર સંભળાવા જોઈએ.',
+  'spatial.calibrateSpeaker': 'કેલિબ્રેશન. તમને ડાબેથી, વચ્ચેથી અને પછી જમણેથી સૂર સંભળાવા જોઈએ.',
+
+  'capture.start': 'પાનાની તસવીર લેવાઈ રહી છે. દસ્તાવેજના ઉપર ડાબા ખૂણેથી શરૂ કરો અને ફોન સ્થિર રાખો.',
+  'capture.right': 'લખાણ જમણી બાજુ ચાલુ છે. ફોનને થોડો જમણી બાજુ ખસેડો, થોડો ભાગ ફરી આવરી લેતાં.',
+  'capture.down': 'લખાણ નીચે ચાલુ છે. ફોનને પાના પર થોડો નીચે ખસેડો, થોડો ભાગ ફરી આવરી લેતાં.',
+  'capture.done': 'થઈ ગયું. હવે વાંચું છું.',
+  'capture.doneMany': '{count} તસવીરો લીધી. હવે વાંચું છું.',
+  'capture.failed': 'પાનાની તસવીર લઈ શકાઈ નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.',
+
+  'status.offlineTitle': 'ઑફલાઇન માર્ગદર્શન',
+  'status.offlineBody': 'ફક્ત અવરોધ બીપ. ઝડપી બીપ એટલે વધુ નજીક. નેટવર્ક પાછું આવશે ત્યારે ફરી જોડાશે.',
+  'status.noInternet': 'ઇન્ટરનેટ કનેક્શન નથી',
+  'status.connecting': 'જોડાઈ રહ્યું છે...',
+  'status.connectingBody': 'તમારો ગાઇડ તૈયાર થઈ રહ્યો છે.',
+  'status.reconnectingTitle': 'કનેક્શન તૂટી ગયું',
+  'status.reconnectingBody': 'ફરી જોડાવાનો પ્રયાસ ચાલુ છે...',
+  'status.errorTitle': 'ભૂલ',
+  'status.errorBody': 'સેવા ઉપલબ્ધ નથી.',
+  'status.reload': 'ઍપ ફરી લોડ કરો',
+
+  'controls.modeSelection': 'મોડ પસંદગી',
+  'controls.modeButton': '{mode} મોડ',
+  'controls.active': '(સક્રિય)',
+};
@@ -0,0 +1,196 @@
+import { MessageKey } from './en';
+
+export const hi: Partial<Record<MessageKey, string>> = {
+  'app.ready': 'SightGuide तैयार है। शुरू करने के लिए दो बार टैप करें। मोड बदलने के लिए स्वाइप करें। सेटिंग्स के लिए देर तक दबाएँ।',
+  'session.opening': 'कैमरा खुल रहा है। मैं क्या देख रहा हूँ, यह पूछने के लिए कभी भी एक बार टैप करें।',
+  'session.stopped': 'रोक दिया गया।',
+  'session.paused': 'रुका हुआ है। फिर से शुरू करने के लिए दो बार टैप करें।',
+  'session.resuming': 'फिर से शुरू हो रहा है।',
+  'session.doubleTapToStart': 'शुरू करने के लिए दो बार टैप करें।',
+  'session.connected': 'जुड़ गया। चलिए साथ चलते हैं।',
+  'session.reconnected': 'फिर से जुड़ गया। आगे चलते हैं।',
+  'session.reconnectingIn': '{seconds} सेकंड में फिर से जोड़ रहा हूँ...',
+  'session.noNetwork': 'नेटवर्क से जुड़ने में परेशानी हो रही है।',
+  'session.noInternet': 'अभी इंटरनेट नहीं मिल रहा। कृपया अपना कनेक्शन जाँचें।',
+  'session.offlineGuidance': 'इंटरनेट नहीं मिल रहा। ऑफ़लाइन बाधा बीप पर जा रहा हूँ। तेज़ और ऊँची बीप का मतलब है कि कुछ पास है। कृपया बहुत सावधानी से चलें।',
+  'session.offlineUnavailable': 'इंटरनेट नहीं मिल रहा और ऑफ़लाइन मार्गदर्शन के लिए कैमरा भी इस्तेमाल नहीं हो पा रहा।',
+  'session.startFailed': 'कैमरा या कनेक्शन शुरू नहीं हो सका।',
+
+  'mode.NAVIGATION': 'नेविगेशन',
+  'mode.READING': 'पढ़ना',
+  'mode.OBJECT': 'वस्तुएँ',
+  'mode.selected': '{mode} मोड।',
+  'mode.saved': '{mode} मोड सहेजा गया।',
+  'mode.deleted': '{mode} मोड हटाया गया।',
+
+  'emergency.countdown': '{seconds} सेकंड में आपातकालीन अलर्ट। रद्द करने के लिए दो बार टैप करें। अभी भेजने के लिए तीन बार टैप करें।',
+  'emergency.confirm': 'आपातकालीन अलर्ट भेजने के लिए कहीं भी टैप करें। रद्द करने के लिए दो बार टैप करें।',
+  'emergency.sending': 'आपातकालीन अलर्ट भेजा जा रहा है।',
+  'emergency.sentWithLocation': 'आपकी लोकेशन के साथ आपातकालीन अलर्ट भेज दिया गया।',
+  'emergency.sentNoLocation': 'आपातकालीन अलर्ट भेज दिया गया। आपकी लोकेशन नहीं मिल सकी।',
+  'emergency.failed': 'अलर्ट नहीं भेजा जा सका। फिर से कोशिश करने के लिए तीन बार टैप करें या अभी भेजें दबाएँ। रद्द करने के लिए दो बार टैप करें।',
+  'emergency.cancelled': 'आपातकालीन अलर्ट रद्द किया गया।',
+
+  'action.none': 'कुछ नहीं',
+  'action.startPause': 'शुरू करें, रोकें या फिर से शुरू करें',
+  'action.start': 'शुरू करें या फिर से शुरू करें',
+  'action.pause': 'रोकें या फिर से शुरू करें',
+  'action.stop': 'बंद करें',
+  'action.ask': 'पूछें कि मैं क्या देख रहा हूँ',
+  'action.modeNext': 'अगला मोड',
+  'action.modePrev': 'पिछला मोड',
+  'action.repeatLast': 'पिछला जवाब दोहराएँ',
+  'action.sos': 'आपातकालीन अलर्ट',
+  'action.settings': 'सेटिंग्स खोलें',
+  'action.talk': 'बोलें',
+  'action.docNext': 'दस्तावेज़ का अगला हिस्सा',
+  'action.docPrev': 'दस्तावेज़ का पिछला हिस्सा',
+  'action.docRepeat': 'दस्तावेज़ का हिस्सा दोहराएँ',
+  'action.docSpell': 'दस्तावेज़ का हिस्सा अक्षर-अक्षर बोलें',
+  'action.find': 'कोई चीज़ खोजें या खोज रोकें',
+  'action.scan': 'बारकोड और नोट स्कैन करें, या स्कैन रोकें',
+
+  'repeat.nothing': 'अभी दोहराने के लिए कुछ नहीं है।',
+  'panel.settingsOpened': 'सेटिंग्स खुल गईं।',
+  'panel.settings': 'सेटिंग्स।',
+  'panel.closingSettings': 'सेटिंग्स बंद हो रही हैं।',
+  'panel.closed': 'बंद किया गया।',
+  'panel.transcript': 'ट्रांसक्रिप्ट।',
+  'panel.closingTranscript': 'ट्रांसक्रिप्ट बंद हो रहा है।',
+  'transcript.cleared': 'ट्रांसक्रिप्ट इतिहास साफ़ किया गया।',
+  'panel.documents': 'दस्तावेज़।',
+  'panel.closingDocuments': 'दस्तावेज़ बंद हो रहे हैं।',
+
+  'document.none': 'अभी कोई दस्तावेज़ नहीं है। पढ़ने वाले मोड में गाइड हर पढ़ा गया दस्तावेज़ सहेजता है।',
+  'document.summary': '{title}। {count} हिस्से।',
+  'document.item': '{count} में से {position}। {label}। {text}',
+  'document.start': 'दस्तावेज़ की शुरुआत।',
+  'document.end': 'दस्तावेज़ का अंत।',
+  'document.nothingToSpell': 'पहले किसी हिस्से पर जाएँ।',
+  'document.space': 'खाली जगह',
+  'document.cleared': 'दस्तावेज़ हटाए गए।',
+
+  'finder.pick': 'क्या खोजूँ? कोई चीज़ चुनें या लिखें।',
+  'finder.looking': '{target} खोज रहा हूँ। फ़ोन धीरे-धीरे घुमाएँ। तेज़ और ऊँची बीप का मतलब है कि आप पास आ रहे हैं।',
+  'finder.stopped': '{target} की खोज रोक दी।',
+  'finder.item.keys': 'चाबियाँ',
+  'finder.item.phone': 'फ़ोन',
+  'finder.item.remote': 'रिमोट',
+  'finder.item.wallet': 'बटुआ',
+  'finder.item.glasses': 'चश्मा',
+  'finder.item.cup': 'कप',
+  'finder.item.door': 'दरवाज़ा',
+  'finder.item.bag': 'बैग',
+
+  'memory.saved': '{label} याद रखा।',
+  'memory.failed': 'याद रखने के लिए फ़ोटो नहीं ले सका। देखें कि सत्र चल रहा है और कैमरा चालू है।',
+  'memory.renamed': 'नाम बदलकर {label} किया।',
+  'memory.deleted': '{label} भुला दिया।',
+
+  'scan.on': 'स्कैन कर रहा हूँ। बारकोड, QR कोड या नोट कैमरे के सामने रखें।',
+  'scan.off': 'स्कैन रोक दिया।',
+  'scan.unsupported': 'यह फ़ोन बारकोड नहीं पढ़ सकता। नोट फिर भी पहचाने जाएँगे।',
+  'scan.barcode': 'बारकोड {code}।',
+  'scan.qrUrl': 'QR कोड में {host} का लिंक है।',
+  'scan.qrContact': 'QR कोड में {name} का संपर्क कार्ड है।',
+  'scan.unnamedContact': 'बिना नाम का संपर्क',
+  'scan.qrText': 'QR कोड। {text}',
+  'scan.qrOptions': 'स्क्रीन पर चुनें कि इसके साथ क्या करना है।',
+  'scan.banknote': 'शायद {value} {currency}। पक्का करने के लिए गाइड से पूछें।',
+  'scan.contactReady': 'संपर्क फ़ाइल तैयार है। {name} को अपने संपर्कों में जोड़ने के लिए इसे खोलें।',
+  'scan.opening': '{host} खोल रहा हूँ।',
+  'currency.EUR': 'यूरो',
+  'currency.GBP': 'पाउंड',
+  'currency.INR': 'रुपये',
+  'currency.USD': 'डॉलर',
+
+  // रोज़ की उपयोग सीमा
+  'usage.warning': 'आज की {budget} का {percent} प्रतिशत इस्तेमाल हो चुका है।',
+  'usage.exceeded': 'आज की {budget} खत्म हो गई। कम डेटा पर जा रहा हूँ: कम तस्वीरें, और माइक सिर्फ़ बोलने पर भेजेगा।',
+  'usage.restored': 'फिर से सामान्य डेटा पर।',
+  'usage.budget.minutes': 'समय सीमा',
+  'usage.budget.megabytes': 'डेटा सीमा',
+  'usage.budget.tokens': 'टोकन सीमा',
+
+  'recording.loadFailed': 'वह रिकॉर्डिंग लोड नहीं हो सकी।',
+  'recording.stopFirst': 'दोबारा चलाने से पहले मौजूदा सत्र बंद करें।',
+  'recording.replaying': 'रिकॉर्ड किया गया सत्र चल रहा है।',
+  'recording.exportFailed': 'एक्सपोर्ट विफल रहा।',
+  'recording.deleted': 'रिकॉर्डिंग हटाई गई।',
+
+  'places.locating': 'आपकी लोकेशन खोजी जा रही है।',
+  'location.unsupported': 'इस डिवाइस पर लोकेशन उपलब्ध नहीं है।',
+  'location.denied': 'लोकेशन की अनुमति नहीं दी गई।',
+  'location.failed': 'अभी आपकी लोकेशन नहीं मिल पा रही।',
+  'places.saved': '{name} सहेजा गया।',
+  'places.saveFailed': 'यह जगह सहेजी नहीं जा सकी।',
+  'places.deleted': 'जगह हटाई गई।',
+  'places.destinationSet': 'गंतव्य: {name}।',
+  'places.destinationCleared': 'गंतव्य हटाया गया।',
+  'route.recording': 'रास्ता {name} रिकॉर्ड हो रहा है।',
+  'route.saved': 'रास्ता {count} बिंदुओं के साथ सहेजा गया।',
+  'route.deleted': 'रास्ता हटाया गया।',
+
+  'profile.exported': 'सेटिंग्स प्रोफ़ाइल एक्सपोर्ट की गई।',
+  'profile.imported': 'सेटिंग्स प्रोफ़ाइल इम्पोर्ट की गई।',
+  'profile.importFailed': 'सेटिंग्स इम्पोर्ट नहीं हो सकीं।',
+  'setting.highContrast.on': 'हाई कॉन्ट्रास्ट चालू',
+  'setting.highContrast.off': 'हाई कॉन्ट्रास्ट बंद',
+  'setting.largeText.on': 'बड़ा टेक्स्ट चालू',
+  'setting.largeText.off': 'बड़ा टेक्स्ट बंद',
+  'setting.safeMode.on': 'सुरक्षित मोड चालू।',
+  'setting.safeMode.off': 'सुरक्षित मोड बंद।',
+  'setting.dataSaver.on': 'डेटा सेवर चालू। कम और छोटी तस्वीरें भेजी जाएँगी।',
+  'setting.dataSaver.off': 'डेटा सेवर बंद।',
+  'setting.framingCues.on': 'निशाना लगाने वाली ध्वनियाँ चालू।',
+  'setting.framingCues.off': 'निशाना लगाने वाली ध्वनियाँ बंद।',
+  'setting.switchScanning.on': 'स्विच स्कैनिंग चालू। स्कैन शुरू करने के लिए स्विच दबाएँ, चुनने के लिए फिर से दबाएँ।',
+  'setting.switchScanning.off': 'स्विच स्कैनिंग बंद।',
+  'setting.recordSessions.on': 'सत्र रिकॉर्डिंग चालू।',
+  'setting.recordSessions.off': 'सत्र रिकॉर्डिंग बंद।',
+  'setting.duckOnSpeech.on': 'जब आप बोलेंगे, गाइड की आवाज़ धीमी हो जाएगी।',
+  'setting.duckOnSpeech.off': 'जब आप बोलेंगे, गाइड की आवाज़ उतनी ही रहेगी।',
+  'setting.translateReading.on': 'पढ़ने वाला मोड दूसरी भाषा के टेक्स्ट का अनुवाद करेगा।',
+  'setting.translateReading.off': 'पढ़ने वाला मोड टेक्स्ट को उसकी अपनी भाषा में पढ़ेगा।',
+  'setting.shareMemories.on': 'गाइड आपकी चीज़ों और लोगों को पहचानेगा।',
+  'setting.shareMemories.off': 'याद रखी गई फ़ोटो इसी फ़ोन पर रहेंगी।',
+  'setting.currency': 'नोट: {currency}।',
+  'setting.verbosity': '{level} मार्गदर्शन।',
+  'setting.language': 'भाषा: हिन्दी।',
+  'verbosity.chatty': 'बातूनी',
+  'verbosity.normal': 'सामान्य',
+  'verbosity.terse': 'संक्षिप्त',
+  'verbosity.alertsOnly': 'केवल चेतावनी',
+  'mic.always': 'माइक्रोफ़ोन हमेशा चालू।',
+  'mic.vad': 'माइक्रोफ़ोन सिर्फ़ तब भेजता है जब आप बोलते हैं।',
+  'mic.pushToTalk': 'दबाकर बोलें। {gesture} माइक्रोफ़ोन खोलता और बंद करता है।',
+  'mic.pushToTalkUnbound': 'दबाकर बोलें। जेस्चर सेटिंग्स में बोलें को किसी जेस्चर से जोड़ें।',
+  'spatial.off': 'स्पेशियल ऑडियो बंद।',
+  'spatial.headphones': 'स्पेशियल ऑडियो हेडफ़ोन के लिए।',
+  'spatial.speaker': 'स्पेशियल ऑडियो स्पीकर के लिए।',
+  'spatial.isOff': 'स्पेशियल ऑडियो बंद है।',
+  'spatial.calibrateHeadphones': 'कैलिब्रेशन। आपको बाएँ, सामने, दाएँ और फिर पीछे से ध्वनि सुनाई देनी चाहिए।',
+  'spatial.calibrateSpeaker': 'कैलिब्रेशन। आपको बाएँ, बीच में और फिर दाएँ से ध्वनि सुनाई देनी चाहिए।',
+
+  'capture.start': 'पेज की तस्वीर ली जा रही है। दस्तावेज़ के ऊपर बाएँ कोने से शुरू करें और फ़ोन स्थिर रखें।',
+  'capture.right': 'टेक्स्ट दाईं ओर जारी है। फ़ोन को थोड़ा दाईं ओर खिसकाएँ, थोड़ा हिस्सा दोहराते हुए।',
+  'capture.down': 'टेक्स्ट नीचे जारी है। फ़ोन को पेज पर थोड़ा नीचे ले जाएँ, थोड़ा हिस्सा दोहराते हुए।',
+  'capture.done': 'हो गया। अब पढ़ रहा हूँ।',
+  'capture.doneMany': '{count} तस्वीरें ली गईं। अब पढ़ रहा हूँ।',
+  'capture.failed': 'पेज की तस्वीर नहीं ली जा सकी। कृपया फिर से कोशिश करें।',
+
+  'status.offlineTitle': 'ऑफ़लाइन मार्गदर्शन',
+  'status.offlineBody': 'सिर्फ़ बाधा बीप। तेज़ बीप का मतलब ज़्यादा पास। नेटवर्क लौटने पर फिर से जुड़ेगा।',
+  'status.noInternet': 'इंटरनेट कनेक्शन नहीं है',
+  'status.connecting': 'जुड़ रहा है...',
+  'status.connectingBody': 'आपका गाइड तैयार हो रहा है।',
+  'status.reconnectingTitle': 'कनेक्शन टूट गया',
+  'status.reconnectingBody': 'फिर से जोड़ने की कोशिश हो रही है...',
+  'status.errorTitle': 'त्रुटि',
+  'status.errorBody': 'सेवा उपलब्ध नहीं है।',
+  'status.reload': 'ऐप फिर से लोड करें',
+
+  'controls.modeSelection': 'मोड चुनें',
+  'controls.modeButton': '{mode} मोड',
+  'controls.active': '(सक्रिय)',
+};
@@ -0,0 +1,72 @@
+import { LabeledMemory, MemoryKind, ModeDefinition } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+
+const MEMORIES_STORE = 'memories';
+
+// Colour signature: 4 levels per RGB channel, as a normalised histogram of a 64x64 thumbnail.
+// Cheap, needs no model, and is enough to rank which of the user's things are likely in view.
+const LEVELS = 4;
+
+export async function listMemories(): Promise<LabeledMemory[]> {
+  const memories = await idbGetAll<LabeledMemory>(MEMORIES_STORE);
+  return memories.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export async function saveMemory(label: string, kind: MemoryKind, image: string, embedding?: number[]): Promise<LabeledMemory> {
+  const memory: LabeledMemory = {
+    id: `memory-${Date.now()}`,
+    label: label.trim(),
+    kind,
+    image,
+    embedding,
+    createdAt: Date.now(),
+  };
+  await idbPut(MEMORIES_STORE, memory);
+  return memory;
+}
+
+export async function renameMemory(memory: LabeledMemory, label: string): Promise<LabeledMemory> {
+  const renamed = { ...memory, label: label.trim() };
+  await idbPut(MEMORIES_STORE, renamed);
+  return renamed;
+}
+
+export function deleteMemory(id: string): Promise<void> {
+  return idbDelete(MEMORIES_STORE, id);
+}
+
+export function computeEmbedding(thumbnail: ImageData): number[] {
+  const histogram = new Array<number>(LEVELS * LEVELS * LEVELS).fill(0);
+  const data = thumbnail.data;
+  const bucket = (value: number) => Math.min(LEVELS - 1, Math.floor(value / (256 / LEVELS)));
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[(bucket(data[i]) * LEVELS + bucket(data[i + 1])) * LEVELS + bucket(data[i + 2])]++;
+  }
+  const total = data.length / 4;
+  return histogram.map(count => count / total);
+}
+
+// Histogram intersection: 1 for identical colour make-up, 0 for nothing in common
+export function similarity(a: number[], b: number[]): number {
+  let shared = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) shared += Math.min(a[i], b[i]);
+  return shared;
+}
+
+/**
+ * The references worth sending for a mode: none while reading text, otherwise the ones whose
+ * colours best match the current view, or the newest when there is no view yet.
+ */
+export function selectReferenceMemories(memories: LabeledMemory[], mode: ModeDefinition, view: number[] | null, limit: number): LabeledMemory[] {
+  if (mode.framing === 'text') return [];
+  const score = (memory: LabeledMemory) => (view && memory.embedding ? similarity(view, memory.embedding) : 0);
+  return [...memories]
+    .sort((a, b) => score(b) - score(a) || b.createdAt - a.createdAt)
+    .slice(0, limit);
+}
+
+export function describeMemory(memory: LabeledMemory): string {
+  return memory.kind === 'person'
+    ? `REFERENCE: This is ${memory.label}, someone the user knows.`
+    : `REFERENCE: This is the user's own ${memory.label}.`;
+}
@@ -0,0 +1,62 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { ModeDefinition, ModeId } from '../types';
+import { BUILT_IN_MODES, STATIC_TOOLS } from '../constants';
+
+// Built-ins first, then the user's own modes in creation order. This is also the swipe cycle order.
+export function getAllModes(customModes: ModeDefinition[]): ModeDefinition[] {
+  return [...BUILT_IN_MODES, ...customModes];
+}
+
+export function findMode(modes: ModeDefinition[], id: ModeId): ModeDefinition {
+  return modes.find(m => m.id === id) ?? modes[0];
+}
+
+export function cycleMode(modes: ModeDefinition[], current: ModeId, direction: 'next' | 'prev'): ModeDefinition {
+  const index = Math.max(0, modes.findIndex(m => m.id === current));
+  const step = direction === 'next' ? 1 : -1;
+  return modes[(index + step + modes.length) % modes.length];
+}
+
+// Upper-case slug of the label ("Color Matching" -> "COLOR_MATCHING"), made unique against existing ids.
+// The model sees these ids in the changeMode enum, so readable ids help it pick correctly.
+export function createModeId(label: string, modes: ModeDefinition[]): ModeId {
+  const base = label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'CUSTOM';
+  let id = base;
+  for (let n = 2; modes.some(m => m.id === id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+export function isValidModeDefinition(value: unknown): value is ModeDefinition {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Partial<ModeDefinition>;
+  return typeof m.id === 'string' && m.id.length > 0
+    && typeof m.label === 'string' && m.label.trim().length > 0
+    && typeof m.icon === 'string'
+    && typeof m.systemPrompt === 'string'
+    && typeof m.tapPrompt === 'string'
+    && typeof m.heartbeatInterval === 'number' && m.heartbeatInterval > 0;
+}
+
+export function createChangeModeTool(modes: ModeDefinition[]): FunctionDeclaration {
+  return {
+    name: 'changeMode',
+    description: 'Switches the application logic to a new mode. Use this when the user\'s intent changes (e.g., they stop walking to read a sign). '
+      + `Available modes: ${modes.map(m => `${m.id} (${m.label})`).join(', ')}.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mode: {
+          type: Type.STRING,
+          enum: modes.map(m => m.id),
+          description: 'The target mode to switch to based on user intent.'
+        }
+      },
+      required: ['mode']
+    }
+  };
+}
+
+// Tool declarations are fixed when a session connects, so mode edits apply from the next connection.
+export function createTools(modes: ModeDefinition[]): FunctionDeclaration[] {
+  return [createChangeModeTool(modes), ...STATIC_TOOLS];
+}
@@ -0,0 +1,260 @@
+import { TargetBox, TargetReport } from '../types';
+import { vibrate } from './audioUtils';
+
+// Hot/cold guidance towards an item the guide has spotted. The guide reports where the item is
+// in the frame it last saw (reportTargetLocation); between reports the item is followed on-device
+// on the same 64x64 thumbnails as the frame-diff pipeline, so the beacon keeps up with the hand.
+
+const SIZE = 64;
+// Largest template side in sampled pixels; bigger boxes are compared on a coarser grid
+const TEMPLATE_SAMPLES = 12;
+// How far the item may move between two readings, in thumbnail pixels
+const SEARCH_RADIUS = 10;
+// Mean grey-level difference above which the best match is not the item any more
+const LOST_DIFFERENCE = 28;
+
+export interface TargetReading {
+  offsetX: number;  // -1 (item at the left edge) .. 1 (right edge)
+  offsetY: number;  // -1 (top) .. 1 (bottom)
+  coverage: number; // share of the frame the item fills
+}
+
+function grayscale(frame: ImageData, out: Float32Array) {
+  const data = frame.data;
+  for (let i = 0; i < SIZE * SIZE; i++) {
+    out[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+}
+
+// Model boxes are 0-1000 on both axes, as Gemini reports detections
+function toPixels(box: TargetBox) {
+  const scale = (v: number) => Math.max(0, Math.min(SIZE, (v / 1000) * SIZE));
+  const x0 = scale(Math.min(box.xmin, box.xmax));
+  const x1 = scale(Math.max(box.xmin, box.xmax));
+  const y0 = scale(Math.min(box.ymin, box.ymax));
+  const y1 = scale(Math.max(box.ymin, box.ymax));
+  // Tiny boxes are widened so there is something to match against
+  const w = Math.max(4, Math.round(x1 - x0));
+  const h = Math.max(4, Math.round(y1 - y0));
+  const x = Math.max(0, Math.min(SIZE - w, Math.round((x0 + x1) / 2 - w / 2)));
+  const y = Math.max(0, Math.min(SIZE - h, Math.round((y0 + y1) / 2 - h / 2)));
+  return { x, y, w, h };
+}
+
+function toReading(x: number, y: number, w: number, h: number): TargetReading {
+  const half = SIZE / 2;
+  return {
+    offsetX: (x + w / 2 - half) / half,
+    offsetY: (y + h / 2 - half) / half,
+    coverage: (w * h) / (SIZE * SIZE),
+  };
+}
+
+// Builds a report from reportTargetLocation arguments. A box with missing or non-numeric edges is
+// dropped, and without a box the item counts as not found.
+export function parseTargetReport(args: Record<string, unknown> | undefined): TargetReport {
+  const target = typeof args?.target === 'string' ? args.target.trim() : '';
+  const raw = args?.box as Record<string, unknown> | undefined;
+  const edges = raw ? [raw.ymin, raw.xmin, raw.ymax, raw.xmax].map(Number) : [];
+  const box = edges.length === 4 && edges.every(Number.isFinite)
+    ? { ymin: edges[0], xmin: edges[1], ymax: edges[2], xmax: edges[3] }
+    : undefined;
+  return {
+    target: target || undefined,
+    found: args?.found === true && box !== undefined,
+    box,
+    reached: args?.reached === true,
+  };
+}
+
+export function readingFromBox(box: TargetBox): TargetReading {
+  const { x, y, w, h } = toPixels(box);
+  return toReading(x, y, w, h);
+}
+
+/**
+ * Follows an image patch from frame to frame with mean-removed block matching near its last
+ * position. Good enough for a steady item while the phone moves; a fresh report re-anchors it.
+ */
+export function createTargetTracker() {
+  const gray = new Float32Array(SIZE * SIZE);
+  let template: Float32Array | null = null;
+  let step = 1;
+  let region = { x: 0, y: 0, w: 0, h: 0 };
+
+  const sampleCount = () => Math.ceil(region.w / step) * Math.ceil(region.h / step);
+
+  const anchor = (frame: ImageData, box: TargetBox) => {
+    grayscale(frame, gray);
+    region = toPixels(box);
+    step = Math.max(1, Math.ceil(Math.max(region.w, region.h) / TEMPLATE_SAMPLES));
+    template = new Float32Array(sampleCount());
+    let n = 0, mean = 0;
+    for (let y = 0; y < region.h; y += step) {
+      for (let x = 0; x < region.w; x += step) {
+        template[n] = gray[(region.y + y) * SIZE + region.x + x];
+        mean += template[n++];
+      }
+    }
+    mean /= n;
+    for (let i = 0; i < n; i++) template[i] -= mean;
+  };
+
+  const difference = (px: number, py: number) => {
+    let mean = 0, n = 0;
+    for (let y = 0; y < region.h; y += step) {
+      for (let x = 0; x < region.w; x += step) {
+        mean += gray[(py + y) * SIZE + px + x];
+        n++;
+      }
+    }
+    mean /= n;
+    let total = 0;
+    n = 0;
+    for (let y = 0; y < region.h; y += step) {
+      for (let x = 0; x < region.w; x += step) {
+        total += Math.abs(gray[(py + y) * SIZE + px + x] - mean - template![n++]);
+      }
+    }
+    return total / n;
+  };
+
+  // Null when nothing is anchored or the item has moved out of reach of the search
+  const track = (frame: ImageData): TargetReading | null => {
+    if (!template) return null;
+    grayscale(frame, gray);
+    let best = Infinity, bestX = region.x, bestY = region.y;
+    const xMin = Math.max(0, region.x - SEARCH_RADIUS), xMax = Math.min(SIZE - region.w, region.x + SEARCH_RADIUS);
+    const yMin = Math.max(0, region.y - SEARCH_RADIUS), yMax = Math.min(SIZE - region.h, region.y + SEARCH_RADIUS);
+    for (let py = yMin; py <= yMax; py++) {
+      for (let px = xMin; px <= xMax; px++) {
+        const d = difference(px, py);
+        if (d < best) {
+          best = d;
+          bestX = px;
+          bestY = py;
+        }
+      }
+    }
+    if (best > LOST_DIFFERENCE) return null;
+    region = { ...region, x: bestX, y: bestY };
+    return toReading(region.x, region.y, region.w, region.h);
+  };
+
+  const clear = () => { template = null; };
+  const anchored = () => template !== null;
+
+  return { anchor, track, clear, anchored };
+}
+
+const COLD_FREQUENCY = 330;
+const HOT_FREQUENCY = 990;
+const SLOWEST_PULSE_MS = 900;
+const FASTEST_PULSE_MS = 110;
+// While nothing is in view, a low tick now and then says the search is still on
+const SEARCHING_PULSE_MS = 1600;
+const SEARCHING_FREQUENCY = 220;
+const PULSE_GAIN = 0.08;
+
+/**
+ * Geiger-style beacon: pulses get faster, higher and stronger as the item nears the centre of
+ * the frame, and come from the side the item is on.
+ */
+export function createFinderBeacon() {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  const panner = ctx.createStereoPanner();
+  panner.connect(ctx.destination);
+
+  let reading: TargetReading | null = null;
+  let lastPulse = 0;
+
+  const pulse = (frequency: number, duration: number, gain: number, delay = 0) => {
+    const osc = ctx.createOscillator();
+    const envelope = ctx.createGain();
+    const start = ctx.currentTime + 0.005 + delay;
+    osc.type = 'sine';
+    osc.frequency.value = frequency;
+    envelope.gain.setValueAtTime(gain, start);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    osc.connect(envelope).connect(panner);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  };
+
+  // 0 at a corner of the frame, 1 dead centre
+  const heat = (r: TargetReading) => 1 - Math.min(1, Math.hypot(r.offsetX, r.offsetY) / Math.SQRT2);
+
+  const timer = window.setInterval(() => {
+    if (ctx.state === 'suspended') ctx.resume();
+    const now = performance.now();
+    if (!reading) {
+      if (now - lastPulse < SEARCHING_PULSE_MS) return;
+      lastPulse = now;
+      panner.pan.setTargetAtTime(0, ctx.currentTime, 0.03);
+      pulse(SEARCHING_FREQUENCY, 0.06, PULSE_GAIN * 0.5);
+      return;
+    }
+    const h = heat(reading);
+    if (now - lastPulse < SLOWEST_PULSE_MS - (SLOWEST_PULSE_MS - FASTEST_PULSE_MS) * h) return;
+    lastPulse = now;
+    panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, reading.offsetX)), ctx.currentTime, 0.03);
+    pulse(COLD_FREQUENCY * Math.pow(HOT_FREQUENCY / COLD_FREQUENCY, h), 0.07, PULSE_GAIN * (0.5 + h / 2));
+    vibrate(Math.round(10 + 30 * h));
+  }, 30);
+
+  const update = (next: TargetReading | null) => { reading = next; };
+
+  // Rising arpeggio and a long buzz once the item is in reach
+  const found = () => {
+    panner.pan.setTargetAtTime(0, ctx.currentTime, 0.03);
+    [660, 880, 1320].forEach((frequency, i) => pulse(frequency, 0.18, 0.12, i * 0.12));
+    vibrate([60, 40, 200]);
+  };
+
+  const stop = () => {
+    window.clearInterval(timer);
+    // Let the found chime finish first
+    setTimeout(() => ctx.close(), 600);
+  };
+
+  return { update, found, stop };
+}
+
+const SAMPLE_INTERVAL_MS = 150;
+
+/**
+ * Runs the tracker and beacon until stopped. `report` feeds in each reportTargetLocation call
+ * together with the thumbnail of the frame the guide was looking at.
+ */
+export function startObjectFinder(sampleFrame: () => ImageData | null) {
+  const tracker = createTargetTracker();
+  const beacon = createFinderBeacon();
+
+  const timer = window.setInterval(() => {
+    // Without an anchor the last reported position stands until the next report
+    const frame = tracker.anchored() ? sampleFrame() : null;
+    if (frame) beacon.update(tracker.track(frame));
+  }, SAMPLE_INTERVAL_MS);
+
+  const report = (location: TargetReport, reference: ImageData | null) => {
+    if (!location.found || !location.box) {
+      tracker.clear();
+      beacon.update(null);
+    } else {
+      if (reference) tracker.anchor(reference, location.box);
+      else tracker.clear();
+      beacon.update(readingFromBox(location.box));
+    }
+    if (location.reached) beacon.found();
+  };
+
+  const stop = () => {
+    window.clearInterval(timer);
+    beacon.stop();
+  };
+
+  return { report, stop };
+}
+
+export type ObjectFinder = ReturnType<typeof startObjectFinder>;
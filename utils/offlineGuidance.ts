@@ -0,0 +1,118 @@
+import { playBeep, vibrate } from './audioUtils';
+
+// On-device obstacle proximity estimate used when the Live connection is gone.
+// Works on the same 64x64 downsampled frames as the frame-diff pipeline.
+
+export type ProximityLevel = 0 | 1 | 2 | 3;
+
+export interface ProximityReading {
+  level: ProximityLevel;
+  edgeDensity: number; // 0..1 share of strong edges in the walking corridor
+  looming: number;     // smoothed growth of edge spread, > 0 while something approaches
+}
+
+const SIZE = 64;
+const EDGE_THRESHOLD = 60;
+// Central corridor ahead of the user: middle half of the columns, lower three quarters of the rows.
+const X0 = 16, X1 = 48, Y0 = 16, Y1 = 64;
+
+interface AnalyzerState {
+  prevSpread: number | null;
+  looming: number;
+  score: number;
+}
+
+export function createProximityAnalyzer() {
+  const gray = new Float32Array(SIZE * SIZE);
+  const state: AnalyzerState = { prevSpread: null, looming: 0, score: 0 };
+
+  const analyze = (frame: ImageData): ProximityReading => {
+    const data = frame.data;
+    for (let i = 0; i < SIZE * SIZE; i++) {
+      gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+
+    // Sobel edges inside the corridor; track how far edge mass spreads from the corridor centre.
+    let edges = 0;
+    let spread = 0;
+    const cx = (X0 + X1) / 2;
+    const cy = (Y0 + Y1) / 2;
+    for (let y = Math.max(Y0, 1); y < Math.min(Y1, SIZE - 1); y++) {
+      for (let x = X0; x < X1; x++) {
+        const i = y * SIZE + x;
+        const gx = gray[i - SIZE + 1] + 2 * gray[i + 1] + gray[i + SIZE + 1] - gray[i - SIZE - 1] - 2 * gray[i - 1] - gray[i + SIZE - 1];
+        const gy = gray[i + SIZE - 1] + 2 * gray[i + SIZE] + gray[i + SIZE + 1] - gray[i - SIZE - 1] - 2 * gray[i - SIZE] - gray[i - SIZE + 1];
+        if (Math.abs(gx) + Math.abs(gy) > EDGE_THRESHOLD) {
+          edges++;
+          spread += Math.hypot(x - cx, y - cy);
+        }
+      }
+    }
+
+    const area = (X1 - X0) * (Y1 - Y0);
+    const edgeDensity = edges / area;
+    const meanSpread = edges > 0 ? spread / edges : 0;
+
+    // An approaching object grows in the frame, so its edges move outward frame over frame.
+    if (state.prevSpread !== null && edges > area * 0.02) {
+      const growth = (meanSpread - state.prevSpread) / Math.max(state.prevSpread, 1);
+      state.looming = state.looming * 0.6 + Math.max(0, growth) * 0.4;
+    } else {
+      state.looming *= 0.6;
+    }
+    state.prevSpread = meanSpread;
+
+    // Dense texture filling the corridor or fast looming both mean "close"; smooth to avoid flicker.
+    const raw = Math.min(1, edgeDensity * 2.5) * 0.6 + Math.min(1, state.looming * 8) * 0.4;
+    state.score = state.score * 0.5 + raw * 0.5;
+
+    const level: ProximityLevel = state.score > 0.6 ? 3 : state.score > 0.4 ? 2 : state.score > 0.22 ? 1 : 0;
+    return { level, edgeDensity, looming: state.looming };
+  };
+
+  const reset = () => {
+    state.prevSpread = null;
+    state.looming = 0;
+    state.score = 0;
+  };
+
+  return { analyze, reset };
+}
+
+// Beep interval, pitch and vibration per proximity level. Level 0 stays silent.
+const LEVEL_FEEDBACK: Record<Exclude<ProximityLevel, 0>, { interval: number; frequency: number; vibration: number[] }> = {
+  1: { interval: 1500, frequency: 440, vibration: [] },
+  2: { interval: 700, frequency: 660, vibration: [60] },
+  3: { interval: 300, frequency: 990, vibration: [150] },
+};
+
+const SAMPLE_INTERVAL_MS = 150;
+
+/**
+ * Samples frames via `sampleFrame` and plays graded proximity beeps until the returned stop
+ * function is called. `onReading` is for status display only.
+ */
+export function startOfflineGuidance(
+  sampleFrame: () => ImageData | null,
+  onReading?: (reading: ProximityReading) => void,
+): () => void {
+  const analyzer = createProximityAnalyzer();
+  let lastCueAt = 0;
+
+  const timer = window.setInterval(() => {
+    const frame = sampleFrame();
+    if (!frame) return;
+    const reading = analyzer.analyze(frame);
+    onReading?.(reading);
+
+    if (reading.level === 0) return;
+    const feedback = LEVEL_FEEDBACK[reading.level];
+    const now = Date.now();
+    if (now - lastCueAt < feedback.interval) return;
+    lastCueAt = now;
+    playBeep(feedback.frequency, 'sine', 0.08);
+    if (feedback.vibration.length) vibrate(feedback.vibration);
+  }, SAMPLE_INTERVAL_MS);
+
+  return () => window.clearInterval(timer);
+}
@@ -0,0 +1,261 @@
+import { announce, playBeep, vibrate } from './audioUtils';
+import { t } from './i18n';
+
+// High-resolution still capture and simple strip stitching for READING mode.
+// A page larger than one view is captured as overlapping shots along one axis (left to right
+// or top to bottom); shots are aligned by brute-force translation search on small grayscale
+// thumbnails, which is plenty for a hand-held phone sliding over a flat document.
+
+export type ShotDirection = 'right' | 'down';
+
+export interface EdgeCoverage {
+  left: boolean;
+  right: boolean;
+  top: boolean;
+  bottom: boolean;
+}
+
+export interface PageCaptureResult {
+  // One stitched image when alignment succeeded, otherwise the shots in capture order.
+  images: string[];  // base64 JPEG
+  stitched: boolean;
+  shotCount: number;
+  direction: ShotDirection | null;
+}
+
+// Long edge cap for anything we send; full sensor photos can exceed what a Live turn should carry.
+const MAX_OUTPUT_EDGE = 3072;
+const THUMB_HEIGHT = 128;
+// Mean absolute difference (0..255) below which an alignment is trusted.
+const MAX_ALIGNMENT_ERROR = 22;
+
+// ImageCapture is not in every DOM typing yet.
+interface ImageCaptureLike {
+  takePhoto(): Promise<Blob>;
+}
+declare const ImageCapture: { new (track: MediaStreamTrack): ImageCaptureLike } | undefined;
+
+function canvasFrom(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const scale = Math.min(1, MAX_OUTPUT_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Grabs the sharpest still available: ImageCapture.takePhoto() where supported, otherwise
+ * the video frame after temporarily raising the track to its maximum resolution.
+ */
+export async function captureStill(video: HTMLVideoElement, track: MediaStreamTrack | undefined): Promise<HTMLCanvasElement> {
+  if (track && typeof ImageCapture !== 'undefined') {
+    try {
+      const blob = await new ImageCapture(track).takePhoto();
+      const bitmap = await createImageBitmap(blob);
+      const canvas = canvasFrom(bitmap, bitmap.width, bitmap.height);
+      bitmap.close();
+      return canvas;
+    } catch (e) {
+      console.warn("takePhoto failed, falling back to video frame", e);
+    }
+  }
+
+  const capabilities = track?.getCapabilities?.();
+  const previous = track?.getSettings();
+  if (track && capabilities?.width?.max && capabilities?.height?.max) {
+    try {
+      await track.applyConstraints({ width: { ideal: capabilities.width.max }, height: { ideal: capabilities.height.max } });
+      // Give the pipeline a moment to deliver a frame at the new size
+      await new Promise(resolve => setTimeout(resolve, 300));
+    } catch (e) {
+      console.warn("Could not raise camera resolution", e);
+    }
+  }
+
+  const canvas = canvasFrom(video, video.videoWidth, video.videoHeight);
+
+  if (track && previous?.width && previous?.height) {
+    track.applyConstraints({ width: { ideal: previous.width }, height: { ideal: previous.height } }).catch(() => {});
+  }
+  return canvas;
+}
+
+function grayscaleThumb(canvas: HTMLCanvasElement): { data: Float32Array; width: number; height: number } {
+  const height = THUMB_HEIGHT;
+  const width = Math.max(1, Math.round((canvas.width / canvas.height) * height));
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = height;
+  const ctx = thumb.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(canvas, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114;
+  }
+  return { data, width, height };
+}
+
+// Reports which borders have text-like detail running into them, i.e. the page continues past that edge.
+export function analyzeEdgeCoverage(canvas: HTMLCanvasElement): EdgeCoverage {
+  const { data, width, height } = grayscaleThumb(canvas);
+  const strip = Math.max(2, Math.round(Math.min(width, height) * 0.06));
+
+  const edgeDensity = (x0: number, x1: number, y0: number, y1: number) => {
+    let strong = 0;
+    let total = 0;
+    for (let y = Math.max(1, y0); y < Math.min(height - 1, y1); y++) {
+      for (let x = Math.max(1, x0); x < Math.min(width - 1, x1); x++) {
+        const i = y * width + x;
+        const g = Math.abs(data[i + 1] - data[i - 1]) + Math.abs(data[i + width] - data[i - width]);
+        if (g > 40) strong++;
+        total++;
+      }
+    }
+    return total ? strong / total : 0;
+  };
+
+  const threshold = 0.08;
+  return {
+    left: edgeDensity(0, strip, 0, height) > threshold,
+    right: edgeDensity(width - strip, width, 0, height) > threshold,
+    top: edgeDensity(0, width, 0, strip) > threshold,
+    bottom: edgeDensity(0, width, height - strip, height) > threshold,
+  };
+}
+
+interface Alignment {
+  dx: number; // offset of the next shot relative to the previous, in thumbnail pixels
+  dy: number;
+  error: number;
+}
+
+function alignPair(a: ReturnType<typeof grayscaleThumb>, b: ReturnType<typeof grayscaleThumb>, direction: ShotDirection): Alignment {
+  let best: Alignment = { dx: 0, dy: 0, error: Infinity };
+  const along = direction === 'right' ? a.width : a.height;
+  const across = direction === 'right' ? a.height : a.width;
+  const minShift = Math.round(along * 0.1);
+  const maxShift = Math.round(along * 0.8);
+  const drift = Math.round(across * 0.08);
+
+  for (let shift = minShift; shift <= maxShift; shift += 2) {
+    for (let side = -drift; side <= drift; side += 2) {
+      const dx = direction === 'right' ? shift : side;
+      const dy = direction === 'right' ? side : shift;
+      let sum = 0;
+      let count = 0;
+      // Sample the overlap on a sparse grid to keep this fast
+      for (let y = Math.max(0, dy); y < Math.min(a.height, b.height + dy); y += 2) {
+        for (let x = Math.max(0, dx); x < Math.min(a.width, b.width + dx); x += 2) {
+          sum += Math.abs(a.data[y * a.width + x] - b.data[(y - dy) * b.width + (x - dx)]);
+          count++;
+        }
+      }
+      if (count < 200) continue;
+      const error = sum / count;
+      if (error < best.error) best = { dx, dy, error };
+    }
+  }
+  return best;
+}
+
+// Aligns consecutive shots and paints them onto one canvas; returns null if any pair is unreliable.
+export function stitchShots(shots: HTMLCanvasElement[], direction: ShotDirection): HTMLCanvasElement | null {
+  if (shots.length < 2) return shots[0] ?? null;
+  const thumbs = shots.map(grayscaleThumb);
+  const scale = shots[0].height / THUMB_HEIGHT;
+
+  const positions = [{ x: 0, y: 0 }];
+  for (let i = 1; i < shots.length; i++) {
+    const alignment = alignPair(thumbs[i - 1], thumbs[i], direction);
+    if (alignment.error > MAX_ALIGNMENT_ERROR) return null;
+    const prev = positions[i - 1];
+    positions.push({ x: prev.x + alignment.dx * scale, y: prev.y + alignment.dy * scale });
+  }
+
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const maxX = Math.max(...positions.map((p, i) => p.x + shots[i].width));
+  const maxY = Math.max(...positions.map((p, i) => p.y + shots[i].height));
+  const fullWidth = maxX - minX;
+  const fullHeight = maxY - minY;
+  const outScale = Math.min(1, MAX_OUTPUT_EDGE / Math.max(fullWidth, fullHeight));
+
+  const out = document.createElement('canvas');
+  out.width = Math.round(fullWidth * outScale);
+  out.height = Math.round(fullHeight * outScale);
+  const ctx = out.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, out.width, out.height);
+  shots.forEach((shot, i) => {
+    ctx.drawImage(shot, (positions[i].x - minX) * outScale, (positions[i].y - minY) * outScale, shot.width * outScale, shot.height * outScale);
+  });
+  return out;
+}
+
+export function canvasToJpegBase64(canvas: HTMLCanvasElement, quality = 0.9): string {
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+}
+
+const MAX_SHOTS = 4;
+const SHOT_SETTLE_MS = 2500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rough time for the local voice to finish a cue before the next step
+const speakAndWait = async (text: string) => {
+  announce(text);
+  await wait(Math.max(1500, text.length * 65));
+};
+
+const countdownAndShoot = async () => {
+  for (const frequency of [520, 520, 780]) {
+    playBeep(frequency, 'sine', 0.08);
+    await wait(400);
+  }
+  vibrate([40]);
+};
+
+/**
+ * Walks the user through one or more overlapping shots with audio cues. The first shot decides
+ * the direction (the page runs off the right edge, else the bottom); more shots are taken while
+ * the latest one still runs off that edge.
+ */
+export async function runGuidedPageCapture(
+  video: HTMLVideoElement,
+  track: MediaStreamTrack | undefined,
+  isCancelled: () => boolean,
+): Promise<PageCaptureResult | null> {
+  await speakAndWait(t('capture.start'));
+  if (isCancelled()) return null;
+  await countdownAndShoot();
+  const shots = [await captureStill(video, track)];
+
+  const first = analyzeEdgeCoverage(shots[0]);
+  const direction: ShotDirection | null = first.right ? 'right' : first.bottom ? 'down' : null;
+  let coverage = first;
+
+  while (direction && shots.length < MAX_SHOTS && (direction === 'right' ? coverage.right : coverage.bottom)) {
+    await speakAndWait(direction === 'right'
+      ? t('capture.right')
+      : t('capture.down'));
+    await wait(SHOT_SETTLE_MS);
+    if (isCancelled()) return null;
+    await countdownAndShoot();
+    const shot = await captureStill(video, track);
+    shots.push(shot);
+    coverage = analyzeEdgeCoverage(shot);
+  }
+
+  const stitched = direction ? stitchShots(shots, direction) : shots[0];
+  announce(shots.length > 1 ? t('capture.doneMany', { count: shots.length }) : t('capture.done'));
+
+  return {
+    images: stitched ? [canvasToJpegBase64(stitched)] : shots.map(s => canvasToJpegBase64(s)),
+    stitched: !!stitched && shots.length > 1,
+    shotCount: shots.length,
+    direction,
+  };
+}
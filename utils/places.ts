@@ -0,0 +1,110 @@
+import { GeoPosition, NavigationDestination, RouteBreadcrumb, SavedPlace, SavedRoute } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+import { bearingDegrees, clockDirection, compassName, distanceMeters, formatDistance } from './geolocation';
+
+const PLACES_STORE = 'places';
+const ROUTES_STORE = 'routes';
+
+// A breadcrumb is kept once the user has moved this far, or this long has passed
+const BREADCRUMB_MIN_METERS = 8;
+const BREADCRUMB_MAX_INTERVAL_MS = 30000;
+// Fixes worse than this are too coarse to be worth keeping
+const MAX_BREADCRUMB_ACCURACY_M = 50;
+const ROUTE_SAVE_INTERVAL_MS = 10000;
+
+export async function listPlaces(): Promise<SavedPlace[]> {
+  const places = await idbGetAll<SavedPlace>(PLACES_STORE);
+  return places.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function savePlace(name: string, position: GeoPosition): Promise<SavedPlace> {
+  const place: SavedPlace = {
+    id: `place-${Date.now()}`,
+    name: name.trim(),
+    latitude: position.latitude,
+    longitude: position.longitude,
+    createdAt: Date.now(),
+  };
+  await idbPut(PLACES_STORE, place);
+  return place;
+}
+
+export function deletePlace(id: string): Promise<void> {
+  return idbDelete(PLACES_STORE, id);
+}
+
+export async function listRoutes(): Promise<SavedRoute[]> {
+  const routes = await idbGetAll<SavedRoute>(ROUTES_STORE);
+  return routes.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function deleteRoute(id: string): Promise<void> {
+  return idbDelete(ROUTES_STORE, id);
+}
+
+export function routeStart(route: SavedRoute): NavigationDestination | null {
+  const first = route.breadcrumbs[0];
+  return first ? { name: `the start of ${route.name}`, latitude: first.latitude, longitude: first.longitude } : null;
+}
+
+export interface RouteRecorder {
+  readonly route: SavedRoute;
+  addPosition: (position: GeoPosition) => void;
+  finish: () => Promise<SavedRoute>;
+}
+
+// Thins incoming fixes to breadcrumbs and saves the route periodically so a crash loses little.
+export function createRouteRecorder(name: string): RouteRecorder {
+  const route: SavedRoute = { id: `route-${Date.now()}`, name: name.trim(), startedAt: Date.now(), breadcrumbs: [] };
+  let dirty = false;
+  const save = () => {
+    if (!dirty) return Promise.resolve();
+    dirty = false;
+    return idbPut(ROUTES_STORE, { ...route, breadcrumbs: [...route.breadcrumbs] }).catch(e => console.warn("Failed to save route", e));
+  };
+  const saveTimer = window.setInterval(save, ROUTE_SAVE_INTERVAL_MS);
+
+  return {
+    route,
+    addPosition: (position) => {
+      if (position.accuracy > MAX_BREADCRUMB_ACCURACY_M) return;
+      const last = route.breadcrumbs[route.breadcrumbs.length - 1];
+      if (last
+        && distanceMeters(last, position) < BREADCRUMB_MIN_METERS
+        && position.timestamp - last.timestamp < BREADCRUMB_MAX_INTERVAL_MS) return;
+      const crumb: RouteBreadcrumb = { latitude: position.latitude, longitude: position.longitude, timestamp: position.timestamp };
+      route.breadcrumbs.push(crumb);
+      dirty = true;
+    },
+    finish: async () => {
+      window.clearInterval(saveTimer);
+      route.endedAt = Date.now();
+      dirty = true;
+      await save();
+      return route;
+    },
+  };
+}
+
+// The text of a location CONTEXT UPDATE for the Live session.
+export function describeNavigationContext(position: GeoPosition, destination: NavigationDestination | null): string {
+  const parts = [
+    `CONTEXT UPDATE: Location. The user is at ${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)} (accuracy about ${Math.round(position.accuracy)} metres).`,
+    position.heading !== null
+      ? `They are heading ${compassName(position.heading)} (${Math.round(position.heading)} degrees).`
+      : 'They are standing still or their heading is unknown.',
+  ];
+
+  if (destination) {
+    const distance = distanceMeters(position, destination);
+    const bearing = bearingDegrees(position, destination);
+    let direction = `to the ${compassName(bearing)} (bearing ${Math.round(bearing)} degrees)`;
+    if (position.heading !== null) direction += `, at ${clockDirection(bearing, position.heading)} o'clock relative to their walking direction`;
+    parts.push(`Their destination "${destination.name}" is ${formatDistance(distance)} away ${direction}.`);
+  } else {
+    parts.push('No destination is set.');
+  }
+
+  parts.push('Do not read this out; use it only when it helps them orient.');
+  return parts.join(' ');
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENCIES } from '../constants';
+import { classifyBanknote } from './scanner';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+type Rgb = [number, number, number];
+type Painter = (x: number, y: number) => Rgb;
+
+function image(paint: Painter): ImageData {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const [r, g, b] = paint(x, y);
+      data.set([r, g, b, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT, colorSpace: 'srgb' } as ImageData;
+}
+
+// Printed detail: brightness alternates between neighbouring pixels without changing the hue
+const printed = ([r, g, b]: Rgb, x: number, y: number): Rgb => {
+  const shade = (x + y) % 2 === 0 ? 1 : 0.75;
+  return [r * shade, g * shade, b * shade];
+};
+
+const GREY_TABLE: Rgb = [120, 120, 120];
+// Hue about 350, the 10 euro note
+const RED: Rgb = [200, 40, 70];
+
+// A note of the given size, centred on a plain table
+function noteOnTable(colour: Rgb, noteWidth: number, noteHeight: number, print = true): ImageData {
+  const left = Math.round((WIDTH - noteWidth) / 2);
+  const top = Math.round((HEIGHT - noteHeight) / 2);
+  return image((x, y) => {
+    const inside = x >= left && x < left + noteWidth && y >= top && y < top + noteHeight;
+    if (!inside) return GREY_TABLE;
+    return print ? printed(colour, x, y) : colour;
+  });
+}
+
+// Deterministic speckle so the tests do not depend on Math.random
+const speckle = (x: number, y: number) => ((x * 73 + y * 151 + x * y * 7) % 97) / 97;
+
+describe('classifyBanknote', () => {
+  it('recognises a whole note held over a plain background', () => {
+    expect(classifyBanknote(noteOnTable(RED, 44, 22), CURRENCIES.EUR.notes)).toBe(10);
+  });
+
+  it('recognises a note held upright', () => {
+    expect(classifyBanknote(noteOnTable(RED, 20, 42), CURRENCIES.EUR.notes)).toBe(10);
+  });
+
+  it('ignores white paper with printed text', () => {
+    const paper = image((x, y) => (y % 6 < 2 && x > 6 && x < 58 && speckle(x, y) > 0.4 ? [20, 20, 20] : [240, 240, 235]));
+    expect(classifyBanknote(paper, CURRENCIES.EUR.notes)).toBeNull();
+    expect(classifyBanknote(paper, CURRENCIES.INR.notes)).toBeNull();
+  });
+
+  it('never guesses a grey note from a grey textured patch', () => {
+    const asphalt = image((x, y) => {
+      const level = 60 + speckle(x, y) * 120;
+      return [level, level, level + 5];
+    });
+    expect(classifyBanknote(asphalt, CURRENCIES.EUR.notes)).toBeNull();
+    expect(classifyBanknote(asphalt, CURRENCIES.INR.notes)).toBeNull();
+  });
+
+  it('ignores a coloured surface that fills the view', () => {
+    const wall = image((x, y) => printed(RED, x, y));
+    expect(classifyBanknote(wall, CURRENCIES.EUR.notes)).toBeNull();
+  });
+
+  it('ignores a coloured object that is not note-shaped', () => {
+    expect(classifyBanknote(noteOnTable(RED, 30, 30), CURRENCIES.EUR.notes)).toBeNull();
+  });
+
+  it('ignores a note-shaped object too small to be a note in hand', () => {
+    expect(classifyBanknote(noteOnTable(RED, 16, 8), CURRENCIES.EUR.notes)).toBeNull();
+  });
+
+  it('ignores an unprinted card of a note colour', () => {
+    expect(classifyBanknote(noteOnTable(RED, 44, 22, false), CURRENCIES.EUR.notes)).toBeNull();
+  });
+
+  it('does not read currencies whose notes share one colour', () => {
+    expect(classifyBanknote(noteOnTable(RED, 44, 22), CURRENCIES.USD.notes)).toBeNull();
+  });
+});
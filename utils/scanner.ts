@@ -0,0 +1,335 @@
+import type { BarcodeFormat } from 'zxing-wasm/reader';
+import zxingReaderWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url';
+import { BanknoteColour, Currency, QrContent, ScanResult } from '../types';
+import { CURRENCIES, SCAN_REPEAT_MS } from '../constants';
+import { MessageKey, t } from './i18n';
+
+// Fast paths that answer on the phone: barcodes and QR codes through the browser's
+// BarcodeDetector (or a WASM build of ZXing where there is none), and banknotes by colour.
+
+// BarcodeDetector names, with the ZXing equivalents the fallback reports
+const FORMATS: Record<string, BarcodeFormat> = {
+  qr_code: 'QRCode',
+  ean_13: 'EAN-13',
+  ean_8: 'EAN-8',
+  upc_a: 'UPC-A',
+  upc_e: 'UPC-E',
+  code_128: 'Code128',
+  code_39: 'Code39',
+  itf: 'ITF',
+  data_matrix: 'DataMatrix',
+};
+const FROM_ZXING = Object.fromEntries(Object.entries(FORMATS).map(([native, zxing]) => [zxing, native]));
+
+// Width the fallback decodes at; barcodes need more detail than the model's frames
+const DECODE_WIDTH = 640;
+// The middle of the view is sampled for banknotes at this size, with square pixels
+const NOTE_SAMPLE_WIDTH = 64;
+const NOTE_SAMPLE_HEIGHT = 48;
+// A note is read out once it has looked the same this many scans in a row
+const BANKNOTE_STABLE_SCANS = 3;
+// Below this mean grey-level step between neighbours the note is a plain surface, not print
+const MIN_NOTE_TEXTURE = 6;
+// How closely the colours must agree on one hue, 0..1
+const MIN_HUE_CONCENTRATION = 0.6;
+const MAX_HUE_DISTANCE = 20;
+const MIN_HUE_MARGIN = 8;
+// Pixels this close to the note's hue count as part of the note when finding its outline
+const NOTE_HUE_TOLERANCE = 30;
+// A row or column crosses the note when at least this share of it is note-coloured
+const MIN_LINE_SHARE = 0.3;
+// The outline must look like a whole note: long side over short side (notes in circulation
+// are about 1.9 to 2.4), how much of the sample it spans, and how solidly it is filled
+const NOTE_ASPECT_RANGE = { min: 1.6, max: 2.7 };
+const MIN_NOTE_SPAN = 0.35;
+const MIN_NOTE_FILL = 0.6;
+const MAX_SPOKEN_TEXT = 200;
+
+interface DetectedCode {
+  format: string;
+  text: string;
+}
+
+type CodeReader = (video: HTMLVideoElement) => Promise<DetectedCode[]>;
+
+// Shape Detection API; not in the DOM typings.
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<{ format: string; rawValue: string }[]>;
+}
+interface BarcodeDetectorConstructorLike {
+  new (options: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats?(): Promise<string[]>;
+}
+
+async function createNativeReader(): Promise<CodeReader | null> {
+  const Detector = (window as Window & { BarcodeDetector?: BarcodeDetectorConstructorLike }).BarcodeDetector;
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats?.().catch(() => []) ?? [];
+  const formats = supported.filter(f => f in FORMATS);
+  if (formats.length === 0) return null;
+  const detector = new Detector({ formats });
+  return async video => (await detector.detect(video)).map(code => ({ format: code.format, text: code.rawValue }));
+}
+
+// Loaded only on browsers without a native BarcodeDetector. The WASM binary ships with the
+// app rather than coming from the library's default CDN, so scanning also works offline.
+async function createWasmReader(): Promise<CodeReader> {
+  const zxing = await import('zxing-wasm/reader');
+  zxing.prepareZXingModule({
+    overrides: { locateFile: (path: string, prefix: string) => path.endsWith('.wasm') ? zxingReaderWasmUrl : prefix + path },
+  });
+  const canvas = document.createElement('canvas');
+  return async video => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !video.videoWidth) return [];
+    canvas.width = Math.min(DECODE_WIDTH, video.videoWidth);
+    canvas.height = Math.round(canvas.width * (video.videoHeight / video.videoWidth));
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const results = await zxing.readBarcodes(
+      ctx.getImageData(0, 0, canvas.width, canvas.height),
+      { formats: Object.values(FORMATS), tryHarder: true, maxNumberOfSymbols: 1 },
+    );
+    return results
+      .filter(r => r.isValid && r.format in FROM_ZXING)
+      .map(r => ({ format: FROM_ZXING[r.format], text: r.text }));
+  };
+}
+
+function vcardFor(name: string, phone?: string, email?: string): string {
+  return ['BEGIN:VCARD', 'VERSION:3.0', `FN:${name}`, phone && `TEL:${phone}`, email && `EMAIL:${email}`, 'END:VCARD']
+    .filter(Boolean)
+    .join('\r\n');
+}
+
+// Links, vCard and MECARD contacts; anything else is plain text
+export function parseQrContent(text: string): QrContent {
+  const trimmed = text.trim();
+  if (/^https?:\/\//i.test(trimmed)) return { type: 'url', url: trimmed };
+  if (/^www\./i.test(trimmed)) return { type: 'url', url: `https://${trimmed}` };
+
+  if (/^BEGIN:VCARD/i.test(trimmed)) {
+    const field = (name: string) => trimmed.match(new RegExp(`^${name}(?:;[^:\\r\\n]*)?:(.*)$`, 'im'))?.[1]?.trim();
+    const structured = field('N')?.split(';').filter(Boolean).reverse().join(' ');
+    const name = field('FN') || structured || t('scan.unnamedContact');
+    return { type: 'contact', name, phone: field('TEL'), email: field('EMAIL'), vcard: trimmed };
+  }
+  if (/^MECARD:/i.test(trimmed)) {
+    const field = (name: string) => trimmed.match(new RegExp(`[:;]${name}:([^;]*)`, 'i'))?.[1]?.trim();
+    const name = field('N')?.split(',').reverse().join(' ').trim() || t('scan.unnamedContact');
+    const phone = field('TEL');
+    const email = field('EMAIL');
+    return { type: 'contact', name, phone, email, vcard: vcardFor(name, phone, email) };
+  }
+  return { type: 'text', text: trimmed };
+}
+
+function toScanResult(code: DetectedCode): ScanResult {
+  return code.format === 'qr_code'
+    ? { kind: 'qr', text: code.text, content: parseQrContent(code.text) }
+    : { kind: 'barcode', format: code.format, text: code.text };
+}
+
+const circularDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+// First and last index whose count reaches the share of the line length, or null when none does
+function lineSpan(counts: number[], length: number): { first: number; last: number } | null {
+  let first = -1, last = -1;
+  counts.forEach((count, i) => {
+    if (count < length * MIN_LINE_SHARE) return;
+    if (first < 0) first = i;
+    last = i;
+  });
+  return first < 0 ? null : { first, last };
+}
+
+/**
+ * Matches the middle of the view against the dominant colours of a currency's notes. Only a
+ * whole note is accepted: one printed region of a single hue, shaped like a note and with
+ * background visible all round it. Grey notes are never guessed; they are left to the guide.
+ */
+export function classifyBanknote(view: ImageData, notes: BanknoteColour[]): number | null {
+  const coloured = notes.filter((n): n is BanknoteColour & { hue: number } => n.hue !== null);
+  if (coloured.length === 0) return null;
+  const { data, width, height } = view;
+  let x = 0, y = 0, weight = 0;
+  const gray = new Float32Array(width * height);
+  // Hue in degrees of each colourful pixel; NaN for grey or dark ones
+  const hues = new Float32Array(width * height).fill(NaN);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4] / 255, g = data[i * 4 + 1] / 255, b = data[i * 4 + 2] / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    gray[i] = (r * 0.299 + g * 0.587 + b * 0.114) * 255;
+    const s = max === 0 ? 0 : (max - min) / max;
+    if (s < 0.2 || max < 0.2) continue;
+    const d = max - min;
+    const h = max === r ? ((g - b) / d + 6) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    hues[i] = h * 60;
+    const angle = (h * 60 * Math.PI) / 180;
+    x += Math.cos(angle) * s;
+    y += Math.sin(angle) * s;
+    weight += s;
+  }
+  if (weight === 0 || Math.hypot(x, y) / weight < MIN_HUE_CONCENTRATION) return null;
+  const hue = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+  const ranked = coloured
+    .map(n => ({ note: n, distance: circularDistance(hue, n.hue) }))
+    .sort((a, b) => a.distance - b.distance);
+  const [best, runnerUp] = ranked;
+  if (best.distance > MAX_HUE_DISTANCE) return null;
+  if (runnerUp && runnerUp.distance - best.distance < MIN_HUE_MARGIN) return null;
+
+  // Outline of the note-coloured region
+  const inNote = (i: number) => !Number.isNaN(hues[i]) && circularDistance(hues[i], best.note.hue) <= NOTE_HUE_TOLERANCE;
+  const columns = new Array<number>(width).fill(0);
+  const rows = new Array<number>(height).fill(0);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!inNote(row * width + col)) continue;
+      columns[col]++;
+      rows[row]++;
+    }
+  }
+  const across = lineSpan(columns, height);
+  const down = lineSpan(rows, width);
+  if (!across || !down) return null;
+  // A region running off the sample is a surface, not a note held in view
+  if (across.first === 0 || down.first === 0 || across.last === width - 1 || down.last === height - 1) return null;
+  const noteWidth = across.last - across.first + 1;
+  const noteHeight = down.last - down.first + 1;
+  const aspect = Math.max(noteWidth, noteHeight) / Math.min(noteWidth, noteHeight);
+  if (aspect < NOTE_ASPECT_RANGE.min || aspect > NOTE_ASPECT_RANGE.max) return null;
+  if (Math.max(noteWidth / width, noteHeight / height) < MIN_NOTE_SPAN) return null;
+
+  let filled = 0, texture = 0;
+  for (let row = down.first; row <= down.last; row++) {
+    for (let col = across.first; col <= across.last; col++) {
+      const i = row * width + col;
+      if (inNote(i)) filled++;
+      if (row < down.last && col < across.last) texture += Math.abs(gray[i] - gray[i + 1]) + Math.abs(gray[i] - gray[i + width]);
+    }
+  }
+  if (filled / (noteWidth * noteHeight) < MIN_NOTE_FILL) return null;
+  if (texture / Math.max(1, (noteWidth - 1) * (noteHeight - 1) * 2) < MIN_NOTE_TEXTURE) return null;
+  return best.note.value;
+}
+
+export function linkHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// What the user hears. Numeric codes are spelled digit by digit.
+export function describeScanResult(result: ScanResult): string {
+  switch (result.kind) {
+    case 'barcode':
+      return t('scan.barcode', { code: /^\d+$/.test(result.text) ? result.text.split('').join(' ') : result.text });
+    case 'banknote':
+      return t('scan.banknote', { value: result.value, currency: t(`currency.${result.currency}` as MessageKey) });
+    case 'qr': {
+      const { content } = result;
+      if (content.type === 'url') return t('scan.qrUrl', { host: linkHost(content.url) });
+      if (content.type === 'contact') return t('scan.qrContact', { name: content.name });
+      return t('scan.qrText', { text: content.text.slice(0, MAX_SPOKEN_TEXT) });
+    }
+  }
+}
+
+// The CONTEXT UPDATE that lets the guide answer questions about what was scanned
+export function describeScanForModel(result: ScanResult): string {
+  const what = result.kind === 'banknote'
+    ? `what is probably a ${result.value} ${CURRENCIES[result.currency].label} banknote, judged by colour alone`
+    : result.kind === 'qr'
+      ? `a QR code containing "${result.text}"`
+      : `a ${result.format} barcode with the number ${result.text}`;
+  return `CONTEXT UPDATE: The phone scanned ${what}. The user has already heard this; do not read it out, but use it if they ask.`;
+}
+
+export interface ScanOptions {
+  banknotes: boolean;
+  currency: Currency;
+}
+
+/**
+ * Runs the detectors on the live video. One scan at a time: calls made while the previous one
+ * is still decoding return nothing. A result is reported once per SCAN_REPEAT_MS.
+ */
+export function createScanner() {
+  let readerPromise: Promise<CodeReader | null> | null = null;
+  let busy = false;
+  const lastReported = new Map<string, number>();
+  const noteCanvas = document.createElement('canvas');
+  noteCanvas.width = NOTE_SAMPLE_WIDTH;
+  noteCanvas.height = NOTE_SAMPLE_HEIGHT;
+  let noteCandidate: { value: number; count: number } | null = null;
+
+  const reader = () => {
+    if (!readerPromise) {
+      readerPromise = createNativeReader()
+        .then(native => native ?? createWasmReader())
+        .catch(err => {
+          console.warn("Barcode reading unavailable", err);
+          return null;
+        });
+    }
+    return readerPromise;
+  };
+
+  const readNote = (video: HTMLVideoElement, currency: Currency): ScanResult | null => {
+    const ctx = noteCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !video.videoWidth) return null;
+    // Most of the middle of the view, at the sample's proportions, so a note held there has
+    // background around it
+    const sampleAspect = NOTE_SAMPLE_WIDTH / NOTE_SAMPLE_HEIGHT;
+    const sw = Math.min(video.videoWidth, video.videoHeight * sampleAspect) * 0.9;
+    const sh = sw / sampleAspect;
+    ctx.drawImage(video, (video.videoWidth - sw) / 2, (video.videoHeight - sh) / 2, sw, sh, 0, 0, NOTE_SAMPLE_WIDTH, NOTE_SAMPLE_HEIGHT);
+    const value = classifyBanknote(ctx.getImageData(0, 0, NOTE_SAMPLE_WIDTH, NOTE_SAMPLE_HEIGHT), CURRENCIES[currency].notes);
+    if (value === null) {
+      noteCandidate = null;
+      return null;
+    }
+    noteCandidate = noteCandidate?.value === value ? { value, count: noteCandidate.count + 1 } : { value, count: 1 };
+    return noteCandidate.count >= BANKNOTE_STABLE_SCANS ? { kind: 'banknote', currency, value } : null;
+  };
+
+  const isNew = (result: ScanResult) => {
+    const key = result.kind === 'banknote' ? `banknote:${result.currency}:${result.value}` : `${result.kind}:${result.text}`;
+    const now = Date.now();
+    if (now - (lastReported.get(key) ?? 0) < SCAN_REPEAT_MS) return false;
+    lastReported.set(key, now);
+    return true;
+  };
+
+  const scan = async (video: HTMLVideoElement, options: ScanOptions): Promise<ScanResult[]> => {
+    if (busy || video.readyState < 2) return [];
+    busy = true;
+    try {
+      const results: ScanResult[] = [];
+      const read = await reader();
+      if (read) results.push(...(await read(video)).map(toScanResult));
+      if (options.banknotes) {
+        const note = readNote(video, options.currency);
+        if (note) results.push(note);
+      }
+      return results.filter(isNew);
+    } catch (err) {
+      console.warn("Scan failed", err);
+      return [];
+    } finally {
+      busy = false;
+    }
+  };
+
+  // Resolves false when neither BarcodeDetector nor the fallback could be loaded
+  const ready = () => reader().then(read => read !== null);
+
+  return { scan, ready };
+}
+
+export type Scanner = ReturnType<typeof createScanner>;
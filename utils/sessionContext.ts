@@ -0,0 +1,98 @@
+// What a reconnect needs to pick up where the dropped session left off: the Live API's
+// resumption handle when the server offers one, and otherwise a rolling summary of the
+// conversation that is replayed into the new session.
+
+// A handle stops being accepted some time after the session it belongs to ends
+const HANDLE_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+const TRANSCRIPT_LINES = 8;
+// Long readings keep their end, which is where the guide had got to
+const MAX_LINE_CHARS = 300;
+const MAX_HAZARDS = 3;
+const HAZARD_WINDOW_MS = 2 * 60 * 1000;
+
+type Speaker = 'user' | 'guide';
+
+export interface ActiveTask {
+  mode: string;
+  findTarget?: string | null;
+  scanning?: boolean;
+  destination?: string | null;
+}
+
+const clip = (text: string) => (text.length > MAX_LINE_CHARS ? `…${text.slice(-MAX_LINE_CHARS)}` : text);
+
+export function createSessionContext() {
+  let handle: { value: string; updatedAt: number } | null = null;
+  let lines: { speaker: Speaker; text: string }[] = [];
+  let hazards: { text: string; at: number }[] = [];
+  let lastDocument: string | null = null;
+
+  // Transcription arrives in fragments; consecutive fragments from one speaker form a line
+  const addTranscript = (speaker: Speaker, text: string) => {
+    const last = lines[lines.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text = clip(last.text + text);
+    } else {
+      lines.push({ speaker, text: clip(text) });
+      if (lines.length > TRANSCRIPT_LINES) lines = lines.slice(-TRANSCRIPT_LINES);
+    }
+  };
+
+  // The server marks some points as not resumable (mid-generation, mid-tool-call); the last good handle stays
+  const updateHandle = (newHandle: string | undefined, resumable: boolean | undefined) => {
+    if (resumable && newHandle) handle = { value: newHandle, updatedAt: Date.now() };
+  };
+
+  // A handle is used once: if resuming fails, the next attempt starts fresh and replays the summary
+  const takeHandle = (): string | null => {
+    const current = handle;
+    handle = null;
+    return current && Date.now() - current.updatedAt < HANDLE_MAX_AGE_MS ? current.value : null;
+  };
+
+  const addHazard = (text: string) => {
+    hazards = [...hazards, { text, at: Date.now() }].slice(-MAX_HAZARDS);
+  };
+
+  const summary = (task: ActiveTask): string | null => {
+    const recentHazards = hazards.filter(h => Date.now() - h.at < HAZARD_WINDOW_MS);
+    if (lines.length === 0 && recentHazards.length === 0 && !task.findTarget && !task.scanning) return null;
+
+    const parts = [
+      'CONTEXT RESTORE: The connection dropped and this is a new session. Carry on from where you left off. Do not mention the reconnection or greet the user again.',
+      `Mode: ${task.mode}.`,
+    ];
+    if (task.findTarget) parts.push(`You were helping the user find "${task.findTarget}".`);
+    if (task.scanning) parts.push('SCAN MODE is on: the phone reads barcodes, QR codes and banknotes itself. Stay quiet unless the user asks you something.');
+    if (task.destination) parts.push(`The user is walking to ${task.destination}.`);
+    if (lastDocument) parts.push(`The last document you read and filed was "${lastDocument}".`);
+    if (recentHazards.length > 0) {
+      parts.push(`Recent hazards: ${recentHazards.map(h => `${h.text} (${Math.round((Date.now() - h.at) / 1000)} seconds ago)`).join('; ')}.`);
+    }
+    if (lines.length > 0) {
+      parts.push(`The conversation so far ended with:\n${lines.map(l => `${l.speaker === 'user' ? 'User' : 'Guide'}: ${l.text.trim()}`).join('\n')}`);
+      if (lines[lines.length - 1].speaker === 'guide') parts.push('If you were cut off mid-sentence or mid-reading, continue from that point.');
+    }
+    return parts.join('\n');
+  };
+
+  // A session the user starts themselves begins with a clean slate
+  const reset = () => {
+    handle = null;
+    lines = [];
+    hazards = [];
+    lastDocument = null;
+  };
+
+  return {
+    addTranscript,
+    addHazard,
+    setDocument: (title: string) => { lastDocument = title; },
+    updateHandle,
+    takeHandle,
+    summary,
+    reset,
+  };
+}
+
+export type SessionContext = ReturnType<typeof createSessionContext>;
@@ -0,0 +1,178 @@
+import { LiveServerMessage } from '@google/genai';
+import { ModeId } from '../types';
+import { AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT } from '../constants';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './idb';
+import { base64ToUint8Array } from './audioUtils';
+import { createZip, ZipEntry } from './zip';
+
+// `t` is milliseconds since the recording started.
+export type RecordedEvent =
+  | { t: number; kind: 'frame'; data: string }          // base64 JPEG exactly as sent
+  | { t: number; kind: 'audioIn'; data: string }        // base64 16-bit PCM mic chunk
+  | { t: number; kind: 'serverMessage'; data: object }  // raw LiveServerMessage
+  | { t: number; kind: 'transcript'; data: string };    // output transcription fragment
+
+export interface SessionRecordingMeta {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  mode: ModeId;
+  eventCount: number;
+  frameCount: number;
+}
+
+export interface SessionRecording extends SessionRecordingMeta {
+  events: RecordedEvent[];
+}
+
+interface RecordingChunk {
+  recordingId: string;
+  index: number;
+  events: RecordedEvent[];
+}
+
+export interface SessionRecorder {
+  readonly id: string;
+  recordFrame: (jpegBase64: string) => void;
+  recordAudio: (pcmBase64: string) => void;
+  recordMessage: (message: LiveServerMessage) => void;
+  recordTranscript: (text: string) => void;
+  finish: () => Promise<void>;
+}
+
+const RECORDINGS_STORE = 'recordings';
+const CHUNKS_STORE = 'recordingChunks';
+const FLUSH_INTERVAL_MS = 5000;
+
+// Buffers events in memory and flushes them to IndexedDB in chunks so a long
+// session never holds more than a few seconds of media in RAM.
+export function createSessionRecorder(mode: ModeId): SessionRecorder {
+  const startedAt = Date.now();
+  const meta: SessionRecordingMeta = {
+    id: `rec-${startedAt}`,
+    startedAt,
+    mode,
+    eventCount: 0,
+    frameCount: 0,
+  };
+  let pending: RecordedEvent[] = [];
+  let chunkIndex = 0;
+  let finished = false;
+  let writeChain: Promise<void> = idbPut(RECORDINGS_STORE, meta).catch(e => console.warn("Recording unavailable", e));
+
+  const flush = () => {
+    if (pending.length === 0) return writeChain;
+    const chunk: RecordingChunk = { recordingId: meta.id, index: chunkIndex++, events: pending };
+    pending = [];
+    const snapshot = { ...meta };
+    writeChain = writeChain
+      .then(() => idbPut(CHUNKS_STORE, chunk))
+      .then(() => idbPut(RECORDINGS_STORE, snapshot))
+      .catch(e => console.warn("Failed to write recording chunk", e));
+    return writeChain;
+  };
+
+  const flushTimer = window.setInterval(flush, FLUSH_INTERVAL_MS);
+
+  const push = (event: RecordedEvent) => {
+    if (finished) return;
+    pending.push(event);
+    meta.eventCount++;
+    if (event.kind === 'frame') meta.frameCount++;
+  };
+  const now = () => Date.now() - startedAt;
+
+  return {
+    id: meta.id,
+    recordFrame: (data) => push({ t: now(), kind: 'frame', data }),
+    recordAudio: (data) => push({ t: now(), kind: 'audioIn', data }),
+    recordMessage: (message) => push({ t: now(), kind: 'serverMessage', data: JSON.parse(JSON.stringify(message)) }),
+    recordTranscript: (data) => push({ t: now(), kind: 'transcript', data }),
+    finish: async () => {
+      if (finished) return writeChain;
+      finished = true;
+      window.clearInterval(flushTimer);
+      meta.endedAt = Date.now();
+      await flush();
+    },
+  };
+}
+
+export async function listRecordings(): Promise<SessionRecordingMeta[]> {
+  const all = await idbGetAll<SessionRecordingMeta>(RECORDINGS_STORE);
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function loadRecording(id: string): Promise<SessionRecording | null> {
+  const meta = await idbGet<SessionRecordingMeta>(RECORDINGS_STORE, id);
+  if (!meta) return null;
+  const chunks = await idbGetAll<RecordingChunk>(CHUNKS_STORE, IDBKeyRange.bound([id, 0], [id, Infinity]));
+  chunks.sort((a, b) => a.index - b.index);
+  return { ...meta, events: chunks.flatMap(c => c.events) };
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await idbDelete(CHUNKS_STORE, IDBKeyRange.bound([id, 0], [id, Infinity]));
+  await idbDelete(RECORDINGS_STORE, id);
+}
+
+function pcmToWav(chunks: Uint8Array[], sampleRate: number): Uint8Array {
+  const dataLength = chunks.reduce((sum, c) => sum + c.length, 0);
+  const wav = new Uint8Array(44 + dataLength);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, s: string) => { for (let i = 0; i < s.length; i++) wav[offset + i] = s.charCodeAt(i); };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  let offset = 44;
+  chunks.forEach(c => { wav.set(c, offset); offset += c.length; });
+  return wav;
+}
+
+// Bundles a recording as session.json plus the JPEG frames and WAV tracks for both directions.
+export async function exportRecordingZip(id: string): Promise<Blob> {
+  const recording = await loadRecording(id);
+  if (!recording) throw new Error(`Recording ${id} not found`);
+
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const audioIn: Uint8Array[] = [];
+  const audioOut: Uint8Array[] = [];
+  const timeline: object[] = [];
+  let frameNumber = 0;
+
+  for (const event of recording.events) {
+    if (event.kind === 'frame') {
+      const name = `frames/frame-${String(++frameNumber).padStart(5, '0')}.jpg`;
+      entries.push({ name, data: base64ToUint8Array(event.data) });
+      timeline.push({ t: event.t, kind: 'frame', file: name });
+    } else if (event.kind === 'audioIn') {
+      audioIn.push(base64ToUint8Array(event.data));
+    } else if (event.kind === 'serverMessage') {
+      const message = event.data as LiveServerMessage;
+      const audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (audio) audioOut.push(base64ToUint8Array(audio));
+      timeline.push(event);
+    } else {
+      timeline.push(event);
+    }
+  }
+
+  const { events, ...meta } = recording;
+  entries.unshift({ name: 'session.json', data: encoder.encode(JSON.stringify({ ...meta, timeline }, null, 2)) });
+  entries.push({ name: 'audio-in.wav', data: pcmToWav(audioIn, AUDIO_SAMPLE_RATE_INPUT) });
+  entries.push({ name: 'audio-out.wav', data: pcmToWav(audioOut, AUDIO_SAMPLE_RATE_OUTPUT) });
+  return createZip(entries);
+}
@@ -0,0 +1,140 @@
+import { AppSettings } from '../types';
+import { ANNOUNCE_RATE_RANGE, AVAILABLE_VOICES, BUILT_IN_MODES, CURRENCIES, DEFAULT_GESTURE_TIMINGS, DEFAULT_SETTINGS, EMERGENCY_NOTIFIERS, GESTURE_ACTION_LABELS, GESTURE_LABELS, LANGUAGES, MIC_MODE_LABELS, SPATIAL_AUDIO_MODES, SPEECH_RATE_RANGE, SWITCH_SCAN_INTERVAL_RANGE, USAGE_BUDGET_LABELS, VERBOSITY_LEVELS } from '../constants';
+import { isValidModeDefinition } from './modeRegistry';
+
+const STORAGE_KEY = 'sightguide.settings';
+const PROFILE_APP_ID = 'sightguide';
+
+// Bump when a stored field is renamed or changes meaning, and add a migration from the
+// previous version. New fields with defaults need no migration: validation fills them in.
+export const SETTINGS_VERSION = 1;
+
+type RawSettings = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n payload to version n + 1.
+const MIGRATIONS: Record<number, (raw: RawSettings) => RawSettings> = {};
+
+interface StoredSettings {
+  version: number;
+  settings: RawSettings;
+}
+
+export interface SettingsProfile extends StoredSettings {
+  app: typeof PROFILE_APP_ID;
+  exportedAt: string;
+}
+
+// Extra checks for fields whose type alone does not make them valid.
+const VALIDATORS: Partial<Record<keyof AppSettings, (value: unknown) => boolean>> = {
+  voiceName: (value) => AVAILABLE_VOICES.includes(value as AppSettings['voiceName']),
+  customModes: (value) => Array.isArray(value)
+    && value.every(isValidModeDefinition)
+    && value.every(m => !BUILT_IN_MODES.some(b => b.id === m.id)),
+  emergencyContacts: (value) => Array.isArray(value)
+    && value.every(c => c && typeof c.id === 'string' && typeof c.name === 'string' && typeof c.phone === 'string'),
+  spatialAudio: (value) => SPATIAL_AUDIO_MODES.includes(value as AppSettings['spatialAudio']),
+  micMode: (value) => typeof value === 'string' && Object.hasOwn(MIC_MODE_LABELS, value),
+  verbosity: (value) => typeof value === 'string' && Object.hasOwn(VERBOSITY_LEVELS, value),
+  speechRate: (value) => typeof value === 'number' && value >= SPEECH_RATE_RANGE.min && value <= SPEECH_RATE_RANGE.max,
+  announceRate: (value) => typeof value === 'number' && value >= ANNOUNCE_RATE_RANGE.min && value <= ANNOUNCE_RATE_RANGE.max,
+  language: (value) => typeof value === 'string' && Object.hasOwn(LANGUAGES, value),
+  currency: (value) => typeof value === 'string' && Object.hasOwn(CURRENCIES, value),
+  usageBudget: (value) => !!value && Object.keys(USAGE_BUDGET_LABELS).every(key => {
+    const limit = (value as Record<string, unknown>)[key];
+    return typeof limit === 'number' && limit >= 0;
+  }),
+  emergencyNotifier: (value) => EMERGENCY_NOTIFIERS.includes(value as AppSettings['emergencyNotifier']),
+  // Gestures missing from a stored map fall back to their default binding at dispatch time
+  gestureBindings: (value) => !!value && !Array.isArray(value)
+    && Object.entries(value as object).every(([gesture, action]) => Object.hasOwn(GESTURE_LABELS, gesture)
+      && typeof action === 'string' && Object.hasOwn(GESTURE_ACTION_LABELS, action)),
+  switchScanInterval: (value) => typeof value === 'number'
+    && value >= SWITCH_SCAN_INTERVAL_RANGE.min && value <= SWITCH_SCAN_INTERVAL_RANGE.max,
+  gestureTimings: (value) => !!value
+    && Object.keys(DEFAULT_GESTURE_TIMINGS).every(key => {
+      const timing = (value as Record<string, unknown>)[key];
+      return typeof timing === 'number' && timing > 0;
+    }),
+};
+
+function migrate(stored: StoredSettings): RawSettings {
+  let { version, settings } = stored;
+  if (version > SETTINGS_VERSION) {
+    console.warn(`Settings version ${version} is newer than supported ${SETTINGS_VERSION}; keeping known fields`);
+    return settings;
+  }
+  while (version < SETTINGS_VERSION) {
+    const step = MIGRATIONS[version];
+    if (step) settings = step(settings);
+    version++;
+  }
+  return settings;
+}
+
+// Keeps every field that matches the default's type and passes its validator; anything
+// missing or malformed falls back to the default.
+export function validateSettings(raw: RawSettings): AppSettings {
+  const result = { ...DEFAULT_SETTINGS } as Record<string, unknown>;
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => {
+    const value = raw[key];
+    if (value === undefined) return;
+    const fallback = DEFAULT_SETTINGS[key];
+    const sameShape = Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback;
+    const validator = VALIDATORS[key];
+    if (sameShape && (!validator || validator(value))) result[key] = value;
+    else console.warn(`Ignoring invalid setting ${key}`, value);
+  });
+  return result as unknown as AppSettings;
+}
+
+function parseStored(value: unknown): StoredSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Partial<StoredSettings>;
+  if (typeof candidate.version !== 'number' || !candidate.settings || typeof candidate.settings !== 'object') return null;
+  return { version: candidate.version, settings: candidate.settings as RawSettings };
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? parseStored(JSON.parse(raw)) : null;
+    return stored ? validateSettings(migrate(stored)) : { ...DEFAULT_SETTINGS };
+  } catch (e) {
+    console.warn("Stored settings unreadable, using defaults", e);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  try {
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings: { ...settings } };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("Failed to persist settings", e);
+  }
+}
+
+export function exportSettingsProfile(settings: AppSettings): string {
+  const profile: SettingsProfile = {
+    app: PROFILE_APP_ID,
+    version: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: { ...settings },
+  };
+  return JSON.stringify(profile, null, 2);
+}
+
+// Throws with a user-facing message when the file is not a SightGuide settings profile.
+export function importSettingsProfile(json: string): AppSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("That file is not valid JSON.");
+  }
+  const stored = parseStored(parsed);
+  if (!stored || (parsed as Partial<SettingsProfile>).app !== PROFILE_APP_ID) {
+    throw new Error("That file is not a SightGuide settings profile.");
+  }
+  return validateSettings(migrate(stored));
+}
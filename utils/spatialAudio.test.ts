@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { createDirectionParser, parseDirection } from './spatialAudio';
+
+const clockOf = (text: string, language: Language) => parseDirection(text, language)?.clock ?? null;
+
+describe('parseDirection', () => {
+  it.each([
+    ['en', "There is a bench at 2 o'clock.", 2],
+    ['en', 'A door on your left.', 9],
+    ['es', 'Hay un banco a las 2 en punto.', 2],
+    ['es', 'Hay una puerta a la una en punto.', 1],
+    ['es', 'Un escalón a las diez en punto.', 10],
+    ['es', 'La puerta está a tu izquierda.', 9],
+    ['es', 'Hay un coche detrás de ti.', 6],
+    ['hi', 'एक बेंच 2 बजे की दिशा में है।', 2],
+    ['hi', 'दरवाज़ा ग्यारह बजे की दिशा में है।', 11],
+    ['hi', 'सीढ़ियाँ ३ बजे की दिशा में हैं।', 3],
+    ['hi', 'दरवाज़ा थोड़ा बाईं ओर है।', 11],
+    ['hi', 'कार आपके पीछे है।', 6],
+    ['gu', 'બેન્ચ 2 વાગ્યાની દિશામાં છે.', 2],
+    ['gu', 'દરવાજો બાર વાગ્યાની દિશામાં છે.', 12],
+    ['gu', 'પગથિયાં ૯ વાગ્યાની દિશામાં છે.', 9],
+    ['gu', 'દરવાજો જમણી બાજુ છે.', 3],
+  ] as const)('finds the direction in %s: %s', (language, text, clock) => {
+    expect(clockOf(text, language)).toBe(clock);
+  });
+
+  it('still understands English clock directions in another language', () => {
+    expect(clockOf("Un banco a las 2 o'clock.", 'es')).toBe(2);
+  });
+
+  it('does not take times of day or counts for directions', () => {
+    expect(clockOf('La tienda abre a las 9 de la mañana.', 'es')).toBeNull();
+    expect(clockOf('Hay dos personas delante.', 'es')).toBeNull();
+    expect(clockOf('यहाँ दो लोग हैं।', 'hi')).toBeNull();
+    expect(clockOf('અહીં બે લોકો છે.', 'gu')).toBeNull();
+  });
+
+  it('reports the first direction mentioned', () => {
+    expect(clockOf('Una puerta a tu derecha y un banco a las 9 en punto.', 'es')).toBe(3);
+  });
+});
+
+describe('createDirectionParser', () => {
+  it('joins directions split across transcription fragments', () => {
+    const parser = createDirectionParser();
+    expect(parser.push('A bench at 2 o')).toBeNull();
+    expect(parser.push("'clock.")).toBe(2);
+    // The same mention is not reported twice
+    expect(parser.push(' Keep going.')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { Earcon, Language, SpatialAudioMode } from '../types';
+import { DIRECTION_PHRASES } from './locales/directions';
+import { getLanguage } from './i18n';
+
+// Places the guide's voice and earcons in the direction they refer to. Directions are clock
+// positions (12 = straight ahead, 3 = right, 6 = behind, 9 = left), as the model speaks them;
+// the phrasing in each language is in locales/directions.
+
+// Recentre smoothly rather than jumping, so a moving voice doesn't sound like a glitch
+const MOVE_TIME_CONSTANT = 0.08;
+// Speakers can't place sound behind, and full pan makes one side hard to hear on a phone
+const SPEAKER_PAN_SCALE = 0.8;
+
+export function clockToAzimuth(clock: number): number {
+  return ((clock % 12) / 12) * 2 * Math.PI;
+}
+
+// Devanagari and Gujarati digits, which transcription may use for the hour
+const NATIVE_DIGIT_ZEROS = [0x966, 0xae6];
+
+function normaliseDigits(text: string): string {
+  return text.replace(/[\u0966-\u096f\u0ae6-\u0aef]/g, digit => {
+    const code = digit.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+    return String(code - zero);
+  });
+}
+
+/**
+ * Finds the first direction mentioned in `text`, in the given language or in English. Returns
+ * the clock position and where the mention ends, or null.
+ */
+export function parseDirection(text: string, language: Language = 'en'): { clock: number; end: number } | null {
+  const lower = normaliseDigits(text.normalize('NFC').toLowerCase());
+  const sets = language === 'en' ? [DIRECTION_PHRASES.en] : [DIRECTION_PHRASES[language], DIRECTION_PHRASES.en];
+  let best: { clock: number; end: number; index: number } | null = null;
+
+  for (const { clock: clockPattern, numberWords, words } of sets) {
+    const clockMatch = clockPattern.exec(lower);
+    if (clockMatch && (!best || clockMatch.index < best.index)) {
+      const raw = clockMatch[1];
+      const clock = numberWords[raw] ?? Number(raw);
+      best = { clock, end: clockMatch.index + clockMatch[0].length, index: clockMatch.index };
+    }
+    for (const [pattern, clock] of words) {
+      const match = pattern.exec(lower);
+      if (match && (!best || match.index < best.index)) {
+        best = { clock, end: match.index + match[0].length, index: match.index };
+      }
+    }
+  }
+  return best && { clock: best.clock, end: best.end };
+}
+
+// Transcription arrives in fragments ("at 2 o'" + "clock"), so keep a short tail between pushes.
+// Directions are looked for in the language the guide speaks.
+export function createDirectionParser() {
+  let buffer = '';
+  return {
+    push: (fragment: string): number | null => {
+      // Normalised here so positions found by parseDirection line up with the buffer
+      buffer = (buffer + fragment).normalize('NFC').slice(-120);
+      const found = parseDirection(buffer, getLanguage());
+      if (!found) return null;
+      buffer = buffer.slice(found.end);
+      return found.clock;
+    },
+    reset: () => {
+      buffer = '';
+    },
+  };
+}
+
+interface Positioner {
+  node: AudioNode;
+  point: (clock: number | null, at: number) => void;
+}
+
+function createPositioner(ctx: BaseAudioContext, mode: SpatialAudioMode): Positioner {
+  if (mode === 'headphones') {
+    const panner = ctx.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    panner.refDistance = 1;
+    // Listener faces -z by default, so 12 o'clock is (0, 0, -1)
+    const point = (clock: number | null, at: number) => {
+      const azimuth = clock === null ? 0 : clockToAzimuth(clock);
+      panner.positionX.setTargetAtTime(Math.sin(azimuth), at, MOVE_TIME_CONSTANT);
+      panner.positionY.setTargetAtTime(0, at, MOVE_TIME_CONSTANT);
+      panner.positionZ.setTargetAtTime(-Math.cos(azimuth), at, MOVE_TIME_CONSTANT);
+    };
+    point(null, ctx.currentTime);
+    return { node: panner, point };
+  }
+
+  if (mode === 'speaker') {
+    const panner = ctx.createStereoPanner();
+    const point = (clock: number | null, at: number) => {
+      const pan = clock === null ? 0 : Math.sin(clockToAzimuth(clock)) * SPEAKER_PAN_SCALE;
+      panner.pan.setTargetAtTime(pan, at, MOVE_TIME_CONSTANT);
+    };
+    return { node: panner, point };
+  }
+
+  const passthrough = ctx.createGain();
+  return { node: passthrough, point: () => {} };
+}
+
+/**
+ * Output stage for the Live voice. Connect sources to `input`; `setDirection` moves the voice
+ * from a given context time onwards. The mode is fixed per instance; create a new one to switch.
+ */
+export function createSpatialOutput(ctx: AudioContext, mode: SpatialAudioMode) {
+  const positioner = createPositioner(ctx, mode);
+  positioner.node.connect(ctx.destination);
+
+  const setDirection = (clock: number | null, at = ctx.currentTime) => {
+    positioner.point(clock, Math.max(at, ctx.currentTime));
+  };
+
+  // Earcons get their own positioner so they can point somewhere other than the voice
+  const playEarcons = (earcons: Earcon[], clock: number | null) => {
+    const earconPositioner = createPositioner(ctx, mode);
+    earconPositioner.node.connect(ctx.destination);
+    earconPositioner.point(clock, ctx.currentTime);
+    let start = ctx.currentTime + 0.02;
+    earcons.forEach(({ frequency, type, duration }) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = type;
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.00001, start + duration);
+      osc.connect(gain).connect(earconPositioner.node);
+      osc.start(start);
+      osc.stop(start + duration);
+      start += duration + 0.05;
+    });
+    setTimeout(() => earconPositioner.node.disconnect(), (start - ctx.currentTime) * 1000 + 200);
+  };
+
+  return {
+    input: positioner.node,
+    setDirection,
+    playEarcons,
+    disconnect: () => positioner.node.disconnect(),
+  };
+}
+
+export type SpatialOutput = ReturnType<typeof createSpatialOutput>;
+
+// Tones from the left, ahead, the right and (with headphones) behind, so the user can check placement.
+export const CALIBRATION_SEQUENCE: { clock: number; label: string }[] = [
+  { clock: 9, label: 'left' },
+  { clock: 12, label: 'ahead' },
+  { clock: 3, label: 'right' },
+  { clock: 6, label: 'behind' },
+];
+
+export function playCalibrationTones(mode: SpatialAudioMode): Promise<void> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  const output = createSpatialOutput(ctx, mode);
+  const steps = CALIBRATION_SEQUENCE.filter(step => mode === 'headphones' || step.clock !== 6);
+  steps.forEach((step, i) => {
+    setTimeout(() => output.playEarcons([
+      { frequency: 660, type: 'sine', duration: 0.15 },
+      { frequency: 880, type: 'sine', duration: 0.15 },
+    ], step.clock), i * 900);
+  });
+  return new Promise(resolve => setTimeout(() => {
+    ctx.close();
+    resolve();
+  }, steps.length * 900 + 500));
+}
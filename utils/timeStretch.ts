@@ -0,0 +1,106 @@
+// Changes the speed of streamed speech without changing its pitch (WSOLA: overlap-add of
+// windowed frames, each nudged to line up with the waveform of the previous one so the
+// joins don't warble). Works chunk by chunk, keeping just enough input between calls.
+
+const FRAME_MS = 20;
+// How far a frame may move from its nominal position to find the best join
+const SEARCH_MS = 5;
+// Correlation is checked at every SEARCH_STEP-th offset; speech is smooth enough for that
+const SEARCH_STEP = 2;
+
+export function createTimeStretcher(sampleRate: number) {
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000) & ~1;
+  const hop = frameSize / 2;
+  const tolerance = Math.round((sampleRate * SEARCH_MS) / 1000);
+  // Periodic Hann: two frames at half overlap sum to exactly one
+  const window = new Float32Array(frameSize).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+
+  let buffer = new Float32Array(0);
+  let bufferStart = 0;        // absolute input index of buffer[0]
+  let nominal = tolerance;    // absolute input position of the next frame, before alignment
+  let previous = -1;          // absolute position of the last frame taken
+  let tail = new Float32Array(hop);
+
+  const at = (absolute: number) => buffer[absolute - bufferStart];
+
+  const bestOffset = (position: number): number => {
+    if (previous < 0) return position;
+    // The previous frame's natural continuation is what the new frame should resemble
+    const target = previous + hop;
+    let best = position;
+    let bestScore = -Infinity;
+    for (let candidate = position - tolerance; candidate <= position + tolerance; candidate += SEARCH_STEP) {
+      let dot = 0;
+      let energy = 1e-9;
+      for (let i = 0; i < hop; i += 2) {
+        const x = at(candidate + i);
+        dot += x * at(target + i);
+        energy += x * x;
+      }
+      const score = dot / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  const reset = () => {
+    buffer = new Float32Array(0);
+    bufferStart = 0;
+    nominal = tolerance;
+    previous = -1;
+    tail = new Float32Array(hop);
+  };
+
+  return {
+    /** Stretches one chunk of 16-bit PCM; `rate` > 1 speeds speech up. */
+    process: (pcm: Int16Array, rate: number): Int16Array => {
+      const grown = new Float32Array(buffer.length + pcm.length);
+      grown.set(buffer);
+      for (let i = 0; i < pcm.length; i++) grown[buffer.length + i] = pcm[i] / 32768;
+      buffer = grown;
+
+      const frames: Float32Array[] = [];
+      const bufferEnd = () => bufferStart + buffer.length;
+      while (true) {
+        const position = Math.round(nominal);
+        const needed = Math.max(position + tolerance + frameSize, previous + hop + hop);
+        if (needed > bufferEnd()) break;
+        const chosen = bestOffset(position);
+
+        const out = new Float32Array(hop);
+        for (let i = 0; i < hop; i++) out[i] = tail[i] + at(chosen + i) * window[i];
+        for (let i = 0; i < hop; i++) tail[i] = at(chosen + hop + i) * window[hop + i];
+        frames.push(out);
+
+        previous = chosen;
+        nominal += hop * rate;
+      }
+
+      // Drop input that no future frame or alignment search can reach
+      const keepFrom = Math.min(Math.round(nominal) - tolerance, previous < 0 ? Infinity : previous + hop);
+      if (keepFrom > bufferStart) {
+        buffer = buffer.slice(keepFrom - bufferStart);
+        bufferStart = keepFrom;
+      }
+
+      const result = new Int16Array(frames.length * hop);
+      frames.forEach((frame, f) => {
+        for (let i = 0; i < hop; i++) result[f * hop + i] = Math.max(-1, Math.min(1, frame[i])) * 32767;
+      });
+      return result;
+    },
+    /** Ends the stream: returns the last overlap and starts afresh. */
+    flush: (): Int16Array => {
+      const result = new Int16Array(hop);
+      for (let i = 0; i < hop; i++) result[i] = Math.max(-1, Math.min(1, tail[i])) * 32767;
+      reset();
+      return result;
+    },
+    reset,
+  };
+}
+
+export type TimeStretcher = ReturnType<typeof createTimeStretcher>;
@@ -0,0 +1,58 @@
+import { ModeId, TranscriptEntry, TranscriptEvent, TranscriptSession } from '../types';
+
+const STORAGE_KEY = 'sightguide.transcripts';
+const MAX_SESSIONS = 20;
+const MAX_ENTRIES_PER_SESSION = 500;
+
+export function loadTranscriptHistory(): TranscriptSession[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Transcript history unreadable, starting fresh", e);
+    return [];
+  }
+}
+
+export function saveTranscriptHistory(sessions: TranscriptSession[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.slice(0, MAX_SESSIONS)));
+  } catch (e) {
+    console.warn("Failed to persist transcript history", e);
+  }
+}
+
+export function createTranscriptSession(): TranscriptSession {
+  const now = Date.now();
+  return { id: `session-${now}`, startedAt: now, entries: [] };
+}
+
+function newEntry(role: TranscriptEntry['role'], text: string, mode: ModeId, final: boolean): TranscriptEntry {
+  const timestamp = Date.now();
+  return { id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`, role, text, timestamp, mode, final };
+}
+
+const closeOpenEntries = (entries: TranscriptEntry[]) => entries.map(e => (e.final ? e : { ...e, final: true }));
+
+// Folds a Live API transcription fragment or marker into the session. Fragments from the same
+// speaker are appended to the open entry until the turn completes or the speaker changes.
+export function applyTranscriptEvent(session: TranscriptSession, event: TranscriptEvent, mode: ModeId): TranscriptSession {
+  let entries = session.entries;
+
+  if (event.type === 'turnComplete') {
+    if (!entries.some(e => !e.final)) return session;
+    entries = closeOpenEntries(entries);
+  } else if (event.type === 'tool') {
+    entries = [...closeOpenEntries(entries), newEntry('tool', event.text, mode, true)];
+  } else {
+    const last = entries[entries.length - 1];
+    if (last && !last.final && last.role === event.role) {
+      entries = [...entries.slice(0, -1), { ...last, text: last.text + event.text }];
+    } else {
+      entries = [...closeOpenEntries(entries), newEntry(event.role, event.text, mode, false)];
+    }
+  }
+
+  return { ...session, entries: entries.slice(-MAX_ENTRIES_PER_SESSION) };
+}
@@ -0,0 +1,107 @@
+import { UsageBudget, UsageTotals } from '../types';
+import { USAGE_WARNING_SHARE } from '../constants';
+
+const STORAGE_KEY = 'sightguide.usage';
+const HISTORY_DAYS = 30;
+// Totals are written back at most this often while streaming, and on flush
+const SAVE_INTERVAL_MS = 10000;
+
+type Counter = Exclude<keyof UsageTotals, 'date'>;
+
+export function localDate(time = Date.now()): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function emptyTotals(date: string): UsageTotals {
+  return { date, sessionSeconds: 0, audioUpSeconds: 0, audioDownSeconds: 0, framesSent: 0, bytesUp: 0, bytesDown: 0, tokens: 0 };
+}
+
+// Newest day first
+export function loadUsageHistory(): UsageTotals[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(d => d && typeof d.date === 'string') : [];
+  } catch (e) {
+    console.warn("Saved usage unreadable, starting fresh", e);
+    return [];
+  }
+}
+
+function saveUsageHistory(history: UsageTotals[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(0, HISTORY_DAYS)));
+  } catch (e) {
+    console.warn("Failed to persist usage", e);
+  }
+}
+
+/**
+ * Counts what each session streams, per local calendar day. Counting is cheap and synchronous;
+ * the totals reach localStorage every few seconds and on flush.
+ */
+export function createUsageMeter() {
+  let history = loadUsageHistory();
+  let lastSave = 0;
+
+  // Today's entry, starting a new one after midnight
+  const current = (): UsageTotals => {
+    const date = localDate();
+    if (history[0]?.date !== date) history = [emptyTotals(date), ...history].slice(0, HISTORY_DAYS);
+    return history[0];
+  };
+
+  const flush = () => {
+    lastSave = Date.now();
+    saveUsageHistory(history);
+  };
+
+  const add = (changes: Partial<Record<Counter, number>>) => {
+    const today = current();
+    (Object.keys(changes) as Counter[]).forEach(key => { today[key] += changes[key] ?? 0; });
+    if (Date.now() - lastSave > SAVE_INTERVAL_MS) flush();
+  };
+
+  return {
+    recordAudioUp: (seconds: number, bytes: number) => add({ audioUpSeconds: seconds, bytesUp: bytes }),
+    recordAudioDown: (seconds: number, bytes: number) => add({ audioDownSeconds: seconds, bytesDown: bytes }),
+    recordFrame: (bytes: number) => add({ framesSent: 1, bytesUp: bytes }),
+    recordBytesUp: (bytes: number) => add({ bytesUp: bytes }),
+    recordTokens: (tokens: number) => add({ tokens }),
+    recordSessionTime: (ms: number) => add({ sessionSeconds: ms / 1000 }),
+    today: (): UsageTotals => ({ ...current() }),
+    history: (): UsageTotals[] => {
+      current();
+      return history.map(day => ({ ...day }));
+    },
+    clear: () => {
+      history = [];
+      flush();
+    },
+    flush,
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+const BUDGET_USED: Record<keyof UsageBudget, (totals: UsageTotals) => number> = {
+  minutes: totals => totals.sessionSeconds / 60,
+  megabytes: totals => (totals.bytesUp + totals.bytesDown) / 1e6,
+  tokens: totals => totals.tokens,
+};
+
+// The budget closest to its limit, with how much of it is used. Null when no budget is set.
+export function checkBudget(totals: UsageTotals, budget: UsageBudget): { kind: keyof UsageBudget; share: number; level: BudgetLevel } | null {
+  let worst: { kind: keyof UsageBudget; share: number } | null = null;
+  (Object.keys(BUDGET_USED) as (keyof UsageBudget)[]).forEach(kind => {
+    if (!(budget[kind] > 0)) return;
+    const share = BUDGET_USED[kind](totals) / budget[kind];
+    if (!worst || share > worst.share) worst = { kind, share };
+  });
+  if (!worst) return null;
+  const { kind, share } = worst;
+  return { kind, share, level: share >= 1 ? 'exceeded' : share >= USAGE_WARNING_SHARE ? 'warning' : 'ok' };
+}
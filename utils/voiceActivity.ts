@@ -0,0 +1,209 @@
+import { MicMode } from '../types';
+
+// On-device voice activity detection and the mic gate built on it. Street noise is often loud
+// but spectrally flat or low-pitched, so a frame only counts as speech when it is well above the
+// noise floor AND most of its energy sits in the speech band with a peaky (voiced) spectrum.
+
+const FFT_SIZE = 512;
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+// dB above the running noise floor
+const ENERGY_MARGIN_DB = 9;
+// Quieter than this is silence however clean the spectrum
+const MIN_SPEECH_DB = -55;
+const MIN_BAND_RATIO = 0.3;
+const MAX_FLATNESS = 0.45;
+// Noise floor follows quiet frames quickly downwards and slowly upwards
+const FLOOR_RISE = 0.05;
+const INITIAL_FLOOR_DB = -60;
+// Consecutive speech frames needed to start, and silent frames needed to stop
+const ONSET_FRAMES = 2;
+const HANGOVER_MS = 500;
+// Audio kept from before speech was detected, so the first syllable isn't clipped
+const PRE_ROLL_MS = 240;
+
+// In-place iterative radix-2 FFT.
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+export interface VoiceFeatures {
+  energyDb: number;
+  bandRatio: number; // share of energy in the speech band
+  flatness: number;  // 0 = pure tone, 1 = white noise, within the speech band
+}
+
+export function createVoiceActivityDetector(sampleRate: number, frameMs: number) {
+  const hann = new Float32Array(FFT_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const binHz = sampleRate / FFT_SIZE;
+  const lowBin = Math.ceil(SPEECH_BAND_HZ[0] / binHz);
+  const highBin = Math.floor(SPEECH_BAND_HZ[1] / binHz);
+  const hangoverFrames = Math.ceil(HANGOVER_MS / frameMs);
+
+  let floorDb = INITIAL_FLOOR_DB;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let active = false;
+
+  const features = (samples: Int16Array): VoiceFeatures => {
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i] / 32768;
+      energy += x * x;
+    }
+    const energyDb = 10 * Math.log10(energy / samples.length + 1e-10);
+
+    // Spectrum of the most recent FFT_SIZE samples (zero-padded if the frame is shorter)
+    const offset = Math.max(0, samples.length - FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const x = offset + i < samples.length ? samples[offset + i] / 32768 : 0;
+      re[i] = x * hann[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k < FFT_SIZE / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      total += power;
+      if (k >= lowBin && k <= highBin) {
+        band += power;
+        logSum += Math.log(power);
+      }
+    }
+    const bins = highBin - lowBin + 1;
+    return {
+      energyDb,
+      bandRatio: band / total,
+      flatness: Math.exp(logSum / bins) / (band / bins),
+    };
+  };
+
+  return {
+    /** Classifies one frame and returns whether speech is active, with onset and hangover applied. */
+    analyze: (samples: Int16Array): boolean => {
+      const f = features(samples);
+      const speechLike = f.energyDb > MIN_SPEECH_DB
+        && f.energyDb > floorDb + ENERGY_MARGIN_DB
+        && f.bandRatio > MIN_BAND_RATIO
+        && f.flatness < MAX_FLATNESS;
+
+      if (!speechLike) {
+        floorDb = f.energyDb < floorDb ? f.energyDb : floorDb + (f.energyDb - floorDb) * FLOOR_RISE;
+      }
+
+      if (speechLike) {
+        speechRun++;
+        silenceRun = 0;
+        if (speechRun >= ONSET_FRAMES) active = true;
+      } else {
+        speechRun = 0;
+        silenceRun++;
+        if (silenceRun >= hangoverFrames) active = false;
+      }
+      return active;
+    },
+    reset: () => {
+      speechRun = 0;
+      silenceRun = 0;
+      active = false;
+    },
+  };
+}
+
+export interface MicGateOptions {
+  sampleRate: number;
+  frameMs: number;
+  getMode: () => MicMode;
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+export interface MicGateResult {
+  send: Int16Array[];
+  // The upload just stopped; tell the model the user's audio stream has ended
+  ended: boolean;
+}
+
+/**
+ * Decides which mic frames go to the model: all of them ('always'), only speech ('vad'), or only
+ * while the user holds the mic open ('pushToTalk'). Push-to-talk can also force the mic open in
+ * the other modes.
+ */
+export function createMicGate({ sampleRate, frameMs, getMode, onSpeakingChange }: MicGateOptions) {
+  const vad = createVoiceActivityDetector(sampleRate, frameMs);
+  const preRollFrames = Math.ceil(PRE_ROLL_MS / frameMs);
+  let preRoll: Int16Array[] = [];
+  let talkOpen = false;
+  let streaming = false;
+  let speaking = false;
+
+  const setSpeaking = (value: boolean) => {
+    if (value === speaking) return;
+    speaking = value;
+    onSpeakingChange?.(value);
+  };
+
+  const stop = (): MicGateResult => {
+    const ended = streaming;
+    streaming = false;
+    return { send: [], ended };
+  };
+
+  return {
+    frame: (samples: Int16Array): MicGateResult => {
+      const speech = vad.analyze(samples);
+      setSpeaking(speech);
+      const mode = getMode();
+      const open = mode === 'always' || talkOpen || (mode === 'vad' && speech);
+      if (open) {
+        const send = streaming ? [samples] : [...preRoll, samples];
+        preRoll = [];
+        streaming = true;
+        return { send, ended: false };
+      }
+      preRoll = [...preRoll.slice(-(preRollFrames - 1)), samples];
+      return stop();
+    },
+    setTalkOpen: (open: boolean) => {
+      talkOpen = open;
+    },
+    // For pauses and disconnects: drop buffered audio and end any upload in progress
+    close: (): MicGateResult => {
+      preRoll = [];
+      vad.reset();
+      setSpeaking(false);
+      return stop();
+    },
+  };
+}
+
+export type MicGate = ReturnType<typeof createMicGate>;
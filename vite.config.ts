@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LIVE_MOCK_URL': JSON.stringify(env.LIVE_MOCK_URL || ''),
+        'process.env.MOCK_GEOLOCATION': JSON.stringify(env.MOCK_GEOLOCATION || '')
       },
       resolve: {
         alias: {